@@ -0,0 +1,511 @@
+/**
+ * Agentic repository analysis
+ * Instead of packaging the repository up front, Gemini is given function tools to list, search
+ * and read files itself. Tool calls are sandboxed to the repository root and the loop is bounded
+ * by a turn and token budget.
+ */
+import path from 'path';
+import fs from 'fs/promises';
+import { callGeminiWithTools } from './gemini-api.js';
+import { scanRepository, extractImports, extractRepositoryStructure } from './repomix-utils.js';
+import { buildPrompt } from './prompt-templates.js';
+import {
+  GeminiContent,
+  GeminiPart,
+  GeminiResponse,
+  parseGeminiResponse,
+  formatResponseForMCP
+} from './response-handler.js';
+import { FileError, PathAccessError, ValidationError } from './errors.js';
+import { throwIfCancelled } from './utils.js';
+import {
+  GeminiFunctionDeclaration,
+  Logger,
+  McpCallbackResponse,
+  RepositoryAnalysisOptions
+} from './types.js';
+
+// Defaults for the loop budget
+const DEFAULT_MAX_TURNS = 12;
+const DEFAULT_TOKEN_BUDGET = 400000;
+
+// Limits on what a single tool call returns to the model
+const MAX_READ_CHARS = 60000;
+const MAX_SEARCH_RESULTS = 50;
+const MAX_LIST_ENTRIES = 200;
+
+// Limits on the work a single search does; patterns come from the model and run on the server's only thread
+const MAX_SEARCH_PATTERN_LENGTH = 200;
+const MAX_SEARCH_FILE_BYTES = 1024 * 1024;
+
+/**
+ * Function tools declared to Gemini
+ */
+const AGENT_TOOLS: GeminiFunctionDeclaration[] = [
+  {
+    name: 'read_file',
+    description: 'Read a file from the repository. Large files are truncated; use startLine and endLine to read a range.',
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        path: { type: 'STRING', description: 'File path relative to the repository root' },
+        startLine: { type: 'INTEGER', description: 'First line to read (1-based)' },
+        endLine: { type: 'INTEGER', description: 'Last line to read (inclusive)' }
+      },
+      required: ['path']
+    }
+  },
+  {
+    name: 'list_directory',
+    description: 'List the files and subdirectories of a directory in the repository.',
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        path: { type: 'STRING', description: 'Directory path relative to the repository root; omit for the root' }
+      }
+    }
+  },
+  {
+    name: 'search_code',
+    description: 'Search file contents for a regular expression (case-insensitive) and return matching lines. Patterns are limited to 200 characters and may not repeat a group that contains a quantifier.',
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        pattern: { type: 'STRING', description: 'Regular expression or literal text to search for' },
+        path: { type: 'STRING', description: 'Limit the search to this directory' }
+      },
+      required: ['pattern']
+    }
+  },
+  {
+    name: 'get_imports',
+    description: 'List the modules and files imported by a source file.',
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        path: { type: 'STRING', description: 'File path relative to the repository root' }
+      },
+      required: ['path']
+    }
+  }
+];
+
+/**
+ * One tool call made during the loop
+ */
+export interface AgentTraceEntry {
+  turn: number;
+  tool: string;
+  args: Record<string, unknown>;
+  ok: boolean;
+  detail: string;
+}
+
+/**
+ * Files and directories visible to the tools
+ */
+interface AgentSandbox {
+  repoRoot: string;
+  realRoot: string;
+  files: Map<string, { path: string; size: number }>;
+  directories: Set<string>;
+  logger: Logger;
+  signal?: AbortSignal;
+}
+
+/**
+ * Resolve a tool path to a repository-relative path, rejecting anything outside the repository
+ */
+async function resolveInRepository(sandbox: AgentSandbox, requestedPath: unknown): Promise<string> {
+  const input = typeof requestedPath === 'string' && requestedPath.trim() ? requestedPath.trim() : '.';
+  const resolved = path.resolve(sandbox.repoRoot, input);
+  const relative = path.relative(sandbox.repoRoot, resolved);
+
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new PathAccessError(`Path is outside the repository: ${input}`);
+  }
+
+  // Symlinks must not lead out of the repository either
+  let realPath: string;
+  try {
+    realPath = await fs.realpath(resolved);
+  } catch {
+    throw new FileError(`Path does not exist: ${input}`);
+  }
+
+  const realRelative = path.relative(sandbox.realRoot, realPath);
+  if (realRelative.startsWith('..') || path.isAbsolute(realRelative)) {
+    throw new PathAccessError(`Path is outside the repository: ${input}`);
+  }
+
+  return relative;
+}
+
+/**
+ * Look up a scanned file; excluded files (ignore patterns, oversized files) are not readable
+ */
+async function getSandboxFile(sandbox: AgentSandbox, requestedPath: unknown): Promise<{ path: string; size: number }> {
+  const relative = await resolveInRepository(sandbox, requestedPath);
+  const file = sandbox.files.get(relative);
+  if (!file) {
+    throw new FileError(`Not a readable file in the repository (it may be a directory or excluded by ignore patterns): ${relative || '.'}`);
+  }
+  return file;
+}
+
+/**
+ * read_file: return file content, optionally limited to a line range
+ */
+async function readFileTool(sandbox: AgentSandbox, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const file = await getSandboxFile(sandbox, args.path);
+  const content = await fs.readFile(path.join(sandbox.repoRoot, file.path), 'utf-8');
+  const lines = content.split('\n');
+
+  const startLine = typeof args.startLine === 'number' ? Math.max(1, Math.floor(args.startLine)) : 1;
+  const endLine = typeof args.endLine === 'number' ? Math.min(lines.length, Math.floor(args.endLine)) : lines.length;
+  let text = lines.slice(startLine - 1, endLine).join('\n');
+
+  const truncated = text.length > MAX_READ_CHARS;
+  if (truncated) {
+    text = text.slice(0, MAX_READ_CHARS);
+  }
+
+  return {
+    path: file.path,
+    startLine,
+    endLine,
+    totalLines: lines.length,
+    content: text,
+    ...(truncated ? { note: 'Content truncated; request a smaller line range to read the rest.' } : {})
+  };
+}
+
+/**
+ * list_directory: direct children of a directory from the repository scan
+ */
+async function listDirectoryTool(sandbox: AgentSandbox, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const relative = await resolveInRepository(sandbox, args.path);
+  const isChild = (entryPath: string) => (path.dirname(entryPath) === (relative || '.'));
+
+  if (relative && !sandbox.directories.has(relative)) {
+    throw new FileError(`Not a directory in the repository (it may be excluded by ignore patterns): ${relative}`);
+  }
+
+  const directories = Array.from(sandbox.directories).filter(isChild);
+  const files = Array.from(sandbox.files.values()).filter(file => isChild(file.path));
+  const entries = directories.length + files.length;
+
+  return {
+    path: relative || '.',
+    directories: directories.slice(0, MAX_LIST_ENTRIES),
+    files: files.slice(0, Math.max(0, MAX_LIST_ENTRIES - directories.length)),
+    ...(entries > MAX_LIST_ENTRIES ? { note: `Showing ${MAX_LIST_ENTRIES} of ${entries} entries` } : {})
+  };
+}
+
+/**
+ * Whether a pattern repeats a group that itself contains a quantifier, e.g. (a+)+ or (\w*\s?){2,}
+ * Such patterns can backtrack exponentially on a line that almost matches.
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  // One entry per open group: whether a quantifier appears inside it
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+      // Skip the ? of (?:, (?=, (?<name> and similar group prefixes
+      if (pattern[i + 1] === '?') {
+        i++;
+      }
+    } else if (char === ')') {
+      const containsQuantifier = groups.pop();
+      const next = pattern[i + 1];
+      if (containsQuantifier && (next === '*' || next === '+' || next === '{')) {
+        return true;
+      }
+      if (containsQuantifier && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if ((char === '*' || char === '+' || char === '?' || char === '{') && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * search_code: matching lines across scanned files
+ */
+async function searchCodeTool(sandbox: AgentSandbox, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  if (typeof args.pattern !== 'string' || !args.pattern) {
+    throw new ValidationError('search_code requires a pattern');
+  }
+
+  if (args.pattern.length > MAX_SEARCH_PATTERN_LENGTH) {
+    throw new ValidationError(`search_code patterns are limited to ${MAX_SEARCH_PATTERN_LENGTH} characters`);
+  }
+
+  if (hasNestedQuantifier(args.pattern)) {
+    throw new ValidationError('search_code does not accept patterns that repeat a group containing a quantifier, such as (a+)+; search for a simpler pattern');
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(args.pattern, 'i');
+  } catch {
+    // Not a valid regular expression: search for the literal text
+    regex = new RegExp(args.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+  }
+
+  const scope = args.path ? await resolveInRepository(sandbox, args.path) : '';
+  const matches: Array<{ path: string; line: number; text: string }> = [];
+  const skippedFiles: string[] = [];
+  let truncated = false;
+
+  for (const file of sandbox.files.values()) {
+    throwIfCancelled(sandbox.signal);
+
+    if (scope && file.path !== scope && !file.path.startsWith(`${scope}${path.sep}`)) {
+      continue;
+    }
+
+    if (file.size > MAX_SEARCH_FILE_BYTES) {
+      skippedFiles.push(file.path);
+      continue;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(sandbox.repoRoot, file.path), 'utf-8');
+    } catch (error) {
+      sandbox.logger.debug(`search_code could not read ${file.path}`, error);
+      continue;
+    }
+
+    const lines = content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      if (regex.test(lines[i])) {
+        if (matches.length >= MAX_SEARCH_RESULTS) {
+          truncated = true;
+          break;
+        }
+        matches.push({ path: file.path, line: i + 1, text: lines[i].trim().slice(0, 200) });
+      }
+    }
+
+    if (truncated) {
+      break;
+    }
+  }
+
+  return {
+    pattern: args.pattern,
+    matches,
+    ...(truncated ? { note: `Stopped after ${MAX_SEARCH_RESULTS} matches; narrow the pattern or path` } : {}),
+    ...(skippedFiles.length > 0 ? { skippedFiles, skippedReason: `Files over ${MAX_SEARCH_FILE_BYTES / 1024 / 1024} MB are not searched; use read_file with a line range` } : {})
+  };
+}
+
+/**
+ * get_imports: imports of one file via extractImports
+ */
+async function getImportsTool(sandbox: AgentSandbox, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const file = await getSandboxFile(sandbox, args.path);
+  const imports = await extractImports(sandbox.repoRoot, [file], sandbox.logger);
+  return { path: file.path, imports: imports[file.path] || [] };
+}
+
+/**
+ * Run one tool call, turning failures into an error result the model can react to
+ */
+async function executeAgentTool(
+  sandbox: AgentSandbox,
+  name: string,
+  args: Record<string, unknown>
+): Promise<{ response: Record<string, unknown>; ok: boolean; detail: string }> {
+  try {
+    let response: Record<string, unknown>;
+    switch (name) {
+      case 'read_file':
+        response = await readFileTool(sandbox, args);
+        return { response, ok: true, detail: `${response.path} (lines ${response.startLine}-${response.endLine} of ${response.totalLines})` };
+      case 'list_directory':
+        response = await listDirectoryTool(sandbox, args);
+        return { response, ok: true, detail: String(response.path) };
+      case 'search_code':
+        response = await searchCodeTool(sandbox, args);
+        return { response, ok: true, detail: `"${args.pattern}": ${(response.matches as unknown[]).length} matches` };
+      case 'get_imports':
+        response = await getImportsTool(sandbox, args);
+        return { response, ok: true, detail: String(response.path) };
+      default:
+        throw new ValidationError(`Unknown tool: ${name}`);
+    }
+  } catch (error) {
+    // Cancellation ends the analysis rather than becoming a tool error for the model
+    throwIfCancelled(sandbox.signal);
+    const message = error instanceof Error ? error.message : String(error);
+    return { response: { error: message }, ok: false, detail: message };
+  }
+}
+
+/**
+ * Add a response's token usage to the running total
+ */
+function addUsage(total: { promptTokenCount: number; candidatesTokenCount: number; totalTokenCount: number }, response: GeminiResponse): void {
+  const usage = response.usageMetadata || response.usage;
+  total.promptTokenCount += usage?.promptTokenCount || 0;
+  total.candidatesTokenCount += usage?.candidatesTokenCount || 0;
+  total.totalTokenCount += usage?.totalTokenCount || 0;
+}
+
+/**
+ * Format the trace for the text response
+ */
+function formatAgentTrace(trace: AgentTraceEntry[], filesRead: string[], turns: number, budgetExhausted: boolean): string {
+  let text = `## Agent Trace\n\n${turns} turns, ${trace.length} tool calls${budgetExhausted ? ' (budget exhausted before the model finished exploring)' : ''}.\n`;
+
+  if (filesRead.length > 0) {
+    text += `\nFiles read:\n${filesRead.map(file => `- ${file}`).join('\n')}\n`;
+  }
+
+  if (trace.length > 0) {
+    text += `\nTool calls:\n${trace.map(entry => `${entry.turn}. ${entry.tool} ${entry.ok ? '' : '(failed) '}${entry.detail}`).join('\n')}\n`;
+  }
+
+  return text;
+}
+
+/**
+ * Answer a repository question by letting Gemini explore the repository through function calls
+ */
+export async function runAgenticAnalysis(
+  repoDir: string,
+  options: RepositoryAnalysisOptions
+): Promise<McpCallbackResponse> {
+  const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  const maxTurns = options.agentMaxTurns || DEFAULT_MAX_TURNS;
+  const tokenBudget = options.agentTokenBudget || DEFAULT_TOKEN_BUDGET;
+  const repoRoot = path.resolve(repoDir);
+
+  logger.info(`Agentic analysis of ${repoRoot}`, { maxTurns, tokenBudget });
+
+  const scan = await scanRepository(repoRoot, { logger });
+  const sandbox: AgentSandbox = {
+    repoRoot,
+    realRoot: await fs.realpath(repoRoot),
+    files: new Map(scan.files.map(file => [file.path, file])),
+    directories: new Set(scan.directories),
+    logger,
+    signal: options.signal
+  };
+
+  const repoStructure = await extractRepositoryStructure(repoRoot, { maxDepth: 2, maxEntries: 100, logger });
+  const prompt = buildPrompt('AGENTIC_ANALYSIS', {
+    query: options.query,
+    analysisFocus: options.analysisType || 'general',
+    repoStructure
+  }, {
+    reasoningEffort: options.reasoningEffort,
+    model: options.model
+  });
+
+  const geminiOptions = {
+    model: options.model,
+    maxTokens: options.maxTokens,
+    temperature: options.temperature,
+    reasoningEffort: options.reasoningEffort,
+    provider: options.provider,
+    signal: options.signal,
+    logger
+  };
+
+  const contents: GeminiContent[] = [{ role: 'user', parts: [{ text: prompt }] }];
+  const usage = { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 };
+  const trace: AgentTraceEntry[] = [];
+  const filesRead = new Set<string>();
+  let finalResponse: GeminiResponse | undefined;
+  let turns = 0;
+
+  // Cancellation is checked before every model turn and tool call, not only inside requests
+  while (turns < maxTurns && usage.totalTokenCount < tokenBudget) {
+    throwIfCancelled(options.signal);
+    turns++;
+    const response = await callGeminiWithTools(contents, AGENT_TOOLS, 'AUTO', geminiOptions);
+    addUsage(usage, response);
+
+    const content = response.candidates[0].content;
+    const calls = (content?.parts || []).filter(part => part.functionCall);
+    if (calls.length === 0) {
+      finalResponse = response;
+      break;
+    }
+
+    contents.push({ role: 'model', parts: content.parts });
+
+    const results: GeminiPart[] = [];
+    for (const part of calls) {
+      const { name, args = {} } = part.functionCall!;
+      throwIfCancelled(options.signal);
+      const result = await executeAgentTool(sandbox, name, args);
+
+      trace.push({ turn: turns, tool: name, args, ok: result.ok, detail: result.detail });
+      if (name === 'read_file' && result.ok) {
+        filesRead.add(String(result.response.path));
+      }
+
+      logger.debug(`Agent turn ${turns}: ${name} ${result.detail}`);
+      await options.onProgress?.({ message: `[${name}: ${result.detail}]\n` });
+
+      results.push({ functionResponse: { name, response: result.response } });
+    }
+
+    contents.push({ role: 'user', parts: results });
+  }
+
+  // Out of turns or tokens: ask for an answer from what has been gathered
+  const budgetExhausted = !finalResponse;
+  if (!finalResponse) {
+    logger.warn(`Agentic analysis budget exhausted after ${turns} turns and ${usage.totalTokenCount} tokens`);
+    contents.push({
+      role: 'user',
+      parts: [{ text: 'The tool budget is exhausted. Answer the question now using the information gathered so far.' }]
+    });
+    finalResponse = await callGeminiWithTools(contents, AGENT_TOOLS, 'NONE', geminiOptions);
+    addUsage(usage, finalResponse);
+  }
+
+  finalResponse.usageMetadata = usage;
+  const parsedResponse = parseGeminiResponse(finalResponse, { includeUsageInfo: true, logger });
+
+  if (options.outputFormat === 'json') {
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          answer: parsedResponse.text,
+          filesRead: Array.from(filesRead),
+          trace,
+          turns,
+          budgetExhausted,
+          model: parsedResponse.model,
+          usage: parsedResponse.usage
+        }, null, 2)
+      }]
+    };
+  }
+
+  parsedResponse.text += `\n\n${formatAgentTrace(trace, Array.from(filesRead), turns, budgetExhausted)}`;
+  return formatResponseForMCP(parsedResponse, { includeMetadata: true, logger }) as McpCallbackResponse;
+}
@@ -0,0 +1,139 @@
+/**
+ * Record/replay of model calls
+ * In record mode each provider response is saved to a cassette file keyed by a hash of the
+ * normalized request. In replay mode responses are served from those files without network
+ * access, and a request with no cassette fails with a CassetteMissError.
+ */
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { CassetteMissError, ConfigurationError } from './errors.js';
+import { getConfigManager } from './config-manager.js';
+import { CassetteMode, Logger } from './types.js';
+
+// Part of every key; bump it when the request description changes so old cassettes stop matching
+const CASSETTE_VERSION = 1;
+
+/**
+ * Everything about a model request that can change its response
+ */
+export interface CassetteRequest {
+  kind: 'generate' | 'tools';
+  provider: string;
+  model: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Contents of a cassette file
+ */
+interface Cassette<T> {
+  version: number;
+  key: string;
+  request: unknown;
+  response: T;
+  recordedAt: string;
+}
+
+/**
+ * Current record/replay mode
+ */
+export function getCassetteMode(logger?: Logger): CassetteMode {
+  const { mode } = getConfigManager(logger).getCassetteSettings();
+  if (mode !== 'off' && mode !== 'record' && mode !== 'replay') {
+    throw new ConfigurationError(`Invalid cassette mode: ${mode}. Valid modes: off, record, replay`);
+  }
+  return mode;
+}
+
+/**
+ * Normalize a value so equivalent requests serialize identically
+ * Object keys are sorted, undefined fields dropped and line endings unified.
+ */
+function normalize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\r\n?/g, '\n');
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const field = (value as Record<string, unknown>)[key];
+      if (field !== undefined) {
+        result[key] = normalize(field);
+      }
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Hash of a normalized request
+ */
+function getCassetteKey(normalizedRequest: unknown): string {
+  return crypto.createHash('sha256')
+    .update(JSON.stringify({ version: CASSETTE_VERSION, request: normalizedRequest }))
+    .digest('hex');
+}
+
+/**
+ * Serve a request from its cassette, or make the call and record it, depending on the mode
+ * onReplay lets streaming callers relay a replayed response as progress.
+ */
+export async function withCassette<T>(
+  request: CassetteRequest,
+  call: () => Promise<T>,
+  logger?: Logger,
+  onReplay?: (response: T) => Promise<void>
+): Promise<T> {
+  const mode = getCassetteMode(logger);
+  if (mode === 'off') {
+    return call();
+  }
+
+  const { directory } = getConfigManager(logger).getCassetteSettings();
+  const normalizedRequest = normalize(request);
+  const key = getCassetteKey(normalizedRequest);
+  const cassettePath = path.join(directory, `${request.kind}-${key}.json`);
+
+  if (mode === 'replay') {
+    let cassette: Cassette<T>;
+    try {
+      cassette = JSON.parse(await fs.readFile(cassettePath, 'utf8')) as Cassette<T>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new CassetteMissError(
+          `No recorded response for ${request.kind} request to ${request.model} (${request.provider})`,
+          key,
+          cassettePath
+        );
+      }
+      throw new ConfigurationError(`Could not read cassette ${cassettePath}`, error);
+    }
+
+    logger?.debug(`Replaying cassette ${path.basename(cassettePath)}`);
+    await onReplay?.(cassette.response);
+    return cassette.response;
+  }
+
+  const response = await call();
+
+  const cassette: Cassette<T> = {
+    version: CASSETTE_VERSION,
+    key,
+    request: normalizedRequest,
+    response,
+    recordedAt: new Date().toISOString()
+  };
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(cassettePath, JSON.stringify(cassette, null, 2), 'utf8');
+  logger?.debug(`Recorded cassette ${path.basename(cassettePath)}`);
+
+  return response;
+}
@@ -0,0 +1,177 @@
+/**
+ * Server-side conversation store for multi-turn chat-with-gemini sessions
+ */
+import { ChatSession, ChatTurn, Logger } from './types.js';
+import { ValidationError } from './errors.js';
+import { estimateTokenCount } from './token-management.js';
+
+// Oldest sessions are evicted once this many are held in memory
+const MAX_SESSIONS = 100;
+
+const sessions = new Map<string, ChatSession>();
+
+/**
+ * Estimate the tokens used by a list of turns
+ */
+function countTurnTokens(turns: ChatTurn[], modelId?: string): number {
+  return turns.reduce((total, turn) => total + estimateTokenCount(turn.text, modelId), 0);
+}
+
+/**
+ * Drop the oldest turns until the history plus the next prompt fits the token budget
+ * History always starts with a user turn so roles keep alternating.
+ */
+export function trimChatHistory(
+  turns: ChatTurn[],
+  maxInputTokens: number,
+  nextPrompt: string = '',
+  modelId?: string
+): ChatTurn[] {
+  const budget = maxInputTokens - estimateTokenCount(nextPrompt, modelId);
+  let trimmed = [...turns];
+  
+  while (trimmed.length > 0 && countTurnTokens(trimmed, modelId) > budget) {
+    trimmed = trimmed.slice(1);
+  }
+  
+  while (trimmed.length > 0 && trimmed[0].role !== 'user') {
+    trimmed = trimmed.slice(1);
+  }
+  
+  return trimmed;
+}
+
+/**
+ * Get an existing session or create a new one
+ */
+export function getOrCreateChatSession(sessionId: string, modelId: string): ChatSession {
+  if (!sessionId.trim()) {
+    throw new ValidationError("sessionId must not be empty");
+  }
+  
+  let session = sessions.get(sessionId);
+  if (!session) {
+    const now = new Date().toISOString();
+    session = { id: sessionId, model: modelId, createdAt: now, updatedAt: now, turns: [] };
+    sessions.set(sessionId, session);
+    evictOldSessions();
+  }
+  
+  return session;
+}
+
+/**
+ * Return the stored history trimmed to fit the model's input window alongside the next prompt
+ */
+export function getChatHistory(
+  sessionId: string,
+  maxInputTokens: number,
+  nextPrompt: string,
+  modelId?: string
+): ChatTurn[] {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return [];
+  }
+  
+  return trimChatHistory(session.turns, maxInputTokens, nextPrompt, modelId);
+}
+
+/**
+ * Record a completed exchange and trim the stored history to the model's input window
+ */
+export function appendChatExchange(
+  sessionId: string,
+  userText: string,
+  modelText: string,
+  modelId: string,
+  maxInputTokens: number,
+  logger?: Logger
+): ChatSession {
+  const session = getOrCreateChatSession(sessionId, modelId);
+  const now = new Date().toISOString();
+  
+  session.turns.push(
+    { role: 'user', text: userText, timestamp: now },
+    { role: 'model', text: modelText, timestamp: now }
+  );
+  
+  const before = session.turns.length;
+  session.turns = trimChatHistory(session.turns, maxInputTokens, '', modelId);
+  session.model = modelId;
+  session.updatedAt = now;
+  
+  if (session.turns.length < before) {
+    logger?.debug(`Trimmed ${before - session.turns.length} old turns from chat session ${sessionId}`);
+  }
+  
+  return session;
+}
+
+/**
+ * Summaries of all stored sessions, most recently used first
+ */
+export function listChatSessions(): Array<{
+  id: string;
+  model: string;
+  turns: number;
+  estimatedTokens: number;
+  createdAt: string;
+  updatedAt: string;
+}> {
+  return [...sessions.values()]
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(session => ({
+      id: session.id,
+      model: session.model,
+      turns: session.turns.length,
+      estimatedTokens: countTurnTokens(session.turns, session.model),
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt
+    }));
+}
+
+/**
+ * Remove a session's history
+ * Returns false when the session did not exist.
+ */
+export function resetChatSession(sessionId: string): boolean {
+  return sessions.delete(sessionId);
+}
+
+/**
+ * Export a session transcript as JSON or markdown
+ */
+export function exportChatSession(sessionId: string, format: 'json' | 'markdown' = 'markdown'): string {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    throw new ValidationError(`Chat session '${sessionId}' not found`);
+  }
+  
+  if (format === 'json') {
+    return JSON.stringify(session, null, 2);
+  }
+  
+  let output = `# Chat session: ${session.id}\n\n`;
+  output += `Model: ${session.model}\nCreated: ${session.createdAt}\nUpdated: ${session.updatedAt}\n`;
+  
+  for (const turn of session.turns) {
+    output += `\n## ${turn.role === 'user' ? 'User' : 'Gemini'} (${turn.timestamp})\n\n${turn.text}\n`;
+  }
+  
+  return output;
+}
+
+/**
+ * Evict the least recently updated sessions once the store is full
+ */
+function evictOldSessions(): void {
+  if (sessions.size <= MAX_SESSIONS) {
+    return;
+  }
+  
+  const byAge = [...sessions.values()].sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+  for (const session of byAge.slice(0, sessions.size - MAX_SESSIONS)) {
+    sessions.delete(session.id);
+  }
+}
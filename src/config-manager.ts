@@ -1,4 +1,4 @@
-import { GEMINI_MODELS, DEFAULT_MODEL } from './gemini-config.js';
+import { DEFAULT_MODEL, isKnownModel, SAFETY_CATEGORIES, SAFETY_THRESHOLDS, PROVIDER_NAMES } from './gemini-config.js';
 import { promises as fsPromises, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import * as path from 'path';
 import os from 'os';
@@ -10,7 +10,17 @@ import {
   ServerConfig,
   ProfileConfig,
   Logger,
-  ConfigManagerInterface
+  ConfigManagerInterface,
+  GeminiSafetySetting,
+  ProviderName,
+  VertexProviderSettings,
+  OpenAICompatibleProviderSettings,
+  CassetteSettings,
+  ModelQuota,
+  RateLimitSettings,
+  SpendSettings,
+  RepomixMcpSettings,
+  PackagingCacheSettings
 } from './types.js';
 
 /**
@@ -44,7 +54,12 @@ class ConfigManager implements ConfigManagerInterface {
       gemini: {
         defaultModel: process.env.GEMINI_DEFAULT_MODEL || DEFAULT_MODEL,
         defaultTemperature: 0.7,
-        defaultMaxTokens: 8192
+        defaultMaxTokens: 8192,
+        fallbackModels: ['gemini-2.5-flash', 'gemini-1.5-flash'],
+        maxContinuations: 2,
+        contextCacheTtlSeconds: 3600,
+        includeThoughts: false,
+        provider: 'gemini'
       },
       repository: {
         maxSizeBytes: 150 * 1024 * 1024, // 150 MB
@@ -316,6 +331,13 @@ class ConfigManager implements ConfigManagerInterface {
     }
   }
 
+  /**
+   * Directory holding the configuration file and other persisted server state
+   */
+  getConfigDirectory(): string {
+    return path.dirname(this.configPath);
+  }
+
   // Getter methods based on active profile
   
   /**
@@ -342,6 +364,115 @@ class ConfigManager implements ConfigManagerInterface {
     return config.gemini.defaultMaxTokens;
   }
 
+  /**
+   * Get the model fallback chain for the active profile
+   */
+  getFallbackModels(): string[] {
+    const config = this.getEffectiveProfileConfig();
+    return config.gemini.fallbackModels || [];
+  }
+
+  /**
+   * Get how many continuation requests may follow a MAX_TOKENS stop
+   */
+  getMaxContinuations(): number {
+    const config = this.getEffectiveProfileConfig();
+    return config.gemini.maxContinuations ?? 2;
+  }
+
+  /**
+   * Get the safety thresholds sent with each request
+   */
+  getSafetySettings(): GeminiSafetySetting[] {
+    const config = this.getEffectiveProfileConfig();
+    return config.gemini.safetySettings || [];
+  }
+
+  /**
+   * Get the lifetime of cached repository context in seconds (0 disables caching)
+   */
+  getContextCacheTtl(): number {
+    const config = this.getEffectiveProfileConfig();
+    return config.gemini.contextCacheTtlSeconds ?? 3600;
+  }
+
+  /**
+   * Get whether thought summaries are requested from thinking models
+   */
+  getIncludeThoughts(): boolean {
+    const config = this.getEffectiveProfileConfig();
+    return config.gemini.includeThoughts ?? false;
+  }
+
+  /**
+   * Get the LLM provider used for requests
+   */
+  getProvider(): ProviderName {
+    const config = this.getEffectiveProfileConfig();
+    return config.gemini.provider || 'gemini';
+  }
+
+  /**
+   * Get Vertex AI settings (environment variables fill in missing values)
+   */
+  getVertexSettings(): VertexProviderSettings {
+    const config = this.getEffectiveProfileConfig();
+    const vertex = config.gemini.vertex || {};
+    return {
+      ...vertex,
+      project: vertex.project || process.env.GOOGLE_CLOUD_PROJECT,
+      location: vertex.location || process.env.GOOGLE_CLOUD_LOCATION || 'us-central1'
+    };
+  }
+
+  /**
+   * Get OpenAI-compatible server settings, if configured
+   */
+  getOpenAICompatibleSettings(): OpenAICompatibleProviderSettings | undefined {
+    const config = this.getEffectiveProfileConfig();
+    return config.gemini.openaiCompatible;
+  }
+
+  /**
+   * Get record/replay settings; GEMINI_CASSETTE_MODE and GEMINI_CASSETTE_DIR take precedence
+   */
+  getCassetteSettings(): Required<CassetteSettings> {
+    const config = this.getEffectiveProfileConfig();
+    const cassettes = config.gemini.cassettes;
+    const envMode = process.env.GEMINI_CASSETTE_MODE as CassetteSettings['mode'] | undefined;
+    return {
+      mode: envMode || cassettes?.mode || 'off',
+      directory: process.env.GEMINI_CASSETTE_DIR || cassettes?.directory || path.join(this.getConfigDirectory(), 'cassettes')
+    };
+  }
+
+  /**
+   * Get rate limiter quotas, with defaults for missing values
+   */
+  getRateLimitSettings(): Required<RateLimitSettings> {
+    const config = this.getEffectiveProfileConfig();
+    const rateLimits = config.gemini.rateLimits;
+    return {
+      default: rateLimits?.default ?? { requestsPerMinute: 10, inputTokensPerMinute: 1000000, maxConcurrentRequests: 2 },
+      models: rateLimits?.models ?? {},
+      maxWaitSeconds: rateLimits?.maxWaitSeconds ?? 120
+    };
+  }
+
+  /**
+   * Get spend budgets and price overrides, with defaults for missing values
+   */
+  getSpendSettings(): Required<SpendSettings> {
+    const config = this.getEffectiveProfileConfig();
+    const spend = config.gemini.spend;
+    return {
+      dailyBudgetUsd: spend?.dailyBudgetUsd ?? 0,
+      monthlyBudgetUsd: spend?.monthlyBudgetUsd ?? 0,
+      onBudgetExceeded: spend?.onBudgetExceeded ?? 'warn',
+      prices: spend?.prices ?? {}
+    };
+  }
+
   /**
    * Get repository configuration
    */
@@ -350,6 +481,34 @@ class ConfigManager implements ConfigManagerInterface {
     return config.repository;
   }
 
+  /**
+   * Get the Repomix MCP server command, with defaults for missing values
+   */
+  getRepomixMcpSettings(): Required<RepomixMcpSettings> {
+    const config = this.getEffectiveProfileConfig();
+    const repomixMcp = config.repository.repomixMcp;
+    return {
+      enabled: repomixMcp?.enabled ?? true,
+      command: repomixMcp?.command ?? 'npx',
+      args: repomixMcp?.args ?? ['-y', 'repomix', '--mcp'],
+      env: repomixMcp?.env ?? {},
+      timeoutSeconds: repomixMcp?.timeoutSeconds ?? 300
+    };
+  }
+
+  /**
+   * Get incremental packaging cache settings
+   */
+  getPackagingCacheSettings(): Required<PackagingCacheSettings> {
+    const config = this.getEffectiveProfileConfig();
+    const packagingCache = config.repository.packagingCache;
+    return {
+      enabled: packagingCache?.enabled ?? true,
+      directory: packagingCache?.directory || path.join(this.getConfigDirectory(), 'packaging-cache'),
+      maxRepositories: packagingCache?.maxRepositories ?? 20
+    };
+  }
+
   /**
    * Get GitHub configuration
    */
@@ -385,13 +544,184 @@ class ConfigManager implements ConfigManagerInterface {
    * Set default model
    */
   async setDefaultModel(model: string): Promise<void> {
-    if (!GEMINI_MODELS[model]) {
+    if (!isKnownModel(model)) {
       throw new Error(`Invalid model: ${model}`);
     }
     this.config.gemini.defaultModel = model;
     await this.saveConfig();
   }
 
+  /**
+   * Set the model fallback chain
+   */
+  async setFallbackModels(models: string[]): Promise<void> {
+    const unknownModels = models.filter(model => !isKnownModel(model));
+    if (unknownModels.length > 0) {
+      throw new Error(`Invalid fallback models: ${unknownModels.join(', ')}`);
+    }
+    this.config.gemini.fallbackModels = models;
+    await this.saveConfig();
+  }
+
+  /**
+   * Set how many continuation requests may follow a MAX_TOKENS stop
+   */
+  async setMaxContinuations(maxContinuations: number): Promise<void> {
+    if (!Number.isInteger(maxContinuations) || maxContinuations < 0 || maxContinuations > 10) {
+      throw new Error('Max continuations must be an integer between 0 and 10');
+    }
+    this.config.gemini.maxContinuations = maxContinuations;
+    await this.saveConfig();
+  }
+
+  /**
+   * Set the safety thresholds sent with each request
+   */
+  async setSafetySettings(settings: GeminiSafetySetting[]): Promise<void> {
+    for (const setting of settings) {
+      if (!SAFETY_CATEGORIES.includes(setting.category)) {
+        throw new Error(`Invalid safety category: ${setting.category}. Valid categories: ${SAFETY_CATEGORIES.join(', ')}`);
+      }
+      if (!SAFETY_THRESHOLDS.includes(setting.threshold)) {
+        throw new Error(`Invalid safety threshold: ${setting.threshold}. Valid thresholds: ${SAFETY_THRESHOLDS.join(', ')}`);
+      }
+    }
+    this.config.gemini.safetySettings = settings;
+    await this.saveConfig();
+  }
+
+  /**
+   * Set the lifetime of cached repository context
+   */
+  async setContextCacheTtl(ttlSeconds: number): Promise<void> {
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds < 0) {
+      throw new Error('Context cache TTL must be a non-negative number of seconds');
+    }
+    this.config.gemini.contextCacheTtlSeconds = ttlSeconds;
+    await this.saveConfig();
+  }
+
+  /**
+   * Set whether thought summaries are requested from thinking models
+   */
+  async setIncludeThoughts(includeThoughts: boolean): Promise<void> {
+    this.config.gemini.includeThoughts = includeThoughts;
+    await this.saveConfig();
+  }
+
+  /**
+   * Set the LLM provider used for requests
+   */
+  async setProvider(provider: ProviderName): Promise<void> {
+    if (!PROVIDER_NAMES.includes(provider)) {
+      throw new Error(`Invalid provider: ${provider}. Valid providers: ${PROVIDER_NAMES.join(', ')}`);
+    }
+    this.config.gemini.provider = provider;
+    await this.saveConfig();
+  }
+
+  /**
+   * Set Vertex AI settings
+   */
+  async setVertexSettings(settings: VertexProviderSettings): Promise<void> {
+    this.config.gemini.vertex = settings;
+    await this.saveConfig();
+  }
+
+  /**
+   * Set OpenAI-compatible server settings
+   */
+  async setOpenAICompatibleSettings(settings: OpenAICompatibleProviderSettings): Promise<void> {
+    if (!settings.baseUrl || !/^https?:\/\//.test(settings.baseUrl)) {
+      throw new Error('OpenAI-compatible settings require an http(s) baseUrl');
+    }
+    if (!settings.model) {
+      throw new Error('OpenAI-compatible settings require a model');
+    }
+    this.config.gemini.openaiCompatible = settings;
+    await this.saveConfig();
+  }
+
+  /**
+   * Set record/replay settings
+   */
+  async setCassetteSettings(settings: CassetteSettings): Promise<void> {
+    if (!['off', 'record', 'replay'].includes(settings.mode)) {
+      throw new Error(`Invalid cassette mode: ${settings.mode}. Valid modes: off, record, replay`);
+    }
+    this.config.gemini.cassettes = settings;
+    await this.saveConfig();
+  }
+
+  /**
+   * Set rate limiter quotas
+   */
+  async setRateLimitSettings(settings: RateLimitSettings): Promise<void> {
+    const quotas: ModelQuota[] = [
+      ...(settings.default ? [settings.default] : []),
+      ...Object.values(settings.models || {})
+    ];
+    for (const quota of quotas) {
+      if (!(quota.requestsPerMinute > 0) || !(quota.inputTokensPerMinute > 0)) {
+        throw new Error('Rate limit quotas require positive requestsPerMinute and inputTokensPerMinute');
+      }
+      if (quota.maxConcurrentRequests !== undefined && !(Number.isInteger(quota.maxConcurrentRequests) && quota.maxConcurrentRequests > 0)) {
+        throw new Error(`Invalid maxConcurrentRequests: ${quota.maxConcurrentRequests}. Must be a positive integer.`);
+      }
+    }
+    if (settings.maxWaitSeconds !== undefined && settings.maxWaitSeconds < 0) {
+      throw new Error('maxWaitSeconds cannot be negative');
+    }
+    this.config.gemini.rateLimits = settings;
+    await this.saveConfig();
+  }
+
+  /**
+   * Set spend budgets and price overrides
+   */
+  async setSpendSettings(settings: SpendSettings): Promise<void> {
+    for (const budget of [settings.dailyBudgetUsd, settings.monthlyBudgetUsd]) {
+      if (budget !== undefined && !(budget >= 0)) {
+        throw new Error(`Invalid budget: ${budget}. Budgets must be non-negative amounts in US dollars.`);
+      }
+    }
+    if (settings.onBudgetExceeded && !['warn', 'block'].includes(settings.onBudgetExceeded)) {
+      throw new Error(`Invalid onBudgetExceeded: ${settings.onBudgetExceeded}. Valid values: warn, block`);
+    }
+    for (const [model, price] of Object.entries(settings.prices || {})) {
+      if (!(price.inputPerMillion >= 0) || !(price.outputPerMillion >= 0)) {
+        throw new Error(`Invalid price for ${model}: inputPerMillion and outputPerMillion must be non-negative`);
+      }
+    }
+    this.config.gemini.spend = settings;
+    await this.saveConfig();
+  }
+
+  /**
+   * Set the Repomix MCP server command
+   */
+  async setRepomixMcpSettings(settings: RepomixMcpSettings): Promise<void> {
+    if (settings.command !== undefined && !settings.command.trim()) {
+      throw new Error('The Repomix MCP command cannot be empty');
+    }
+    if (settings.timeoutSeconds !== undefined && !(settings.timeoutSeconds > 0)) {
+      throw new Error(`Invalid timeoutSeconds: ${settings.timeoutSeconds}. Must be positive.`);
+    }
+    this.config.repository.repomixMcp = settings;
+    await this.saveConfig();
+  }
+
+  /**
+   * Set incremental packaging cache settings
+   */
+  async setPackagingCacheSettings(settings: PackagingCacheSettings): Promise<void> {
+    if (settings.maxRepositories !== undefined && (!Number.isInteger(settings.maxRepositories) || settings.maxRepositories < 1)) {
+      throw new Error(`Invalid maxRepositories: ${settings.maxRepositories}. Must be a positive integer.`);
+    }
+    this.config.repository.packagingCache = settings;
+    await this.saveConfig();
+  }
+
   /**
    * Set default temperature
    */
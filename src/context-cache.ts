@@ -0,0 +1,194 @@
+/**
+ * Context caching for packed repositories
+ * Large prompt prefixes are uploaded once with the Gemini cachedContents API and referenced
+ * by later requests. Entries are keyed by model and content hash and expire with their TTL.
+ */
+import crypto from 'crypto';
+import { callGeminiCreateCachedContent, callGeminiDeleteCachedContent } from './gemini-api.js';
+import { getConfigManager } from './config-manager.js';
+import { countTokens } from './token-counter.js';
+import { getCassetteMode } from './cassettes.js';
+import { throwIfCancelled } from './utils.js';
+import { Logger, ProviderName } from './types.js';
+
+// Gemini rejects cachedContents smaller than this
+const MIN_CACHE_TOKENS = 4096;
+
+// Maximum number of live cache entries tracked; the oldest is deleted when exceeded
+const MAX_CONTEXT_CACHES = 20;
+
+// Entries are treated as expired this long before the server drops them
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Stands in for the repository content in prompts when it is sent as cached context
+ */
+export const CACHED_CONTEXT_PLACEHOLDER = '(The packed repository is provided as context before this message.)';
+
+/**
+ * A cachedContents entry created by this server
+ */
+interface ContextCacheEntry {
+  name: string;
+  modelId: string;
+  tokenCount: number;
+  expiresAt: number;
+  hits: number;
+}
+
+/**
+ * Result of resolving content against the context cache
+ */
+export interface ContextCacheLookup {
+  name: string;          // cachedContents resource name to reference in generateContent
+  hit: boolean;          // false when the entry was created by this lookup
+  cachedTokens: number;
+}
+
+const contextCaches = new Map<string, ContextCacheEntry>();
+const pendingCreations = new Map<string, Promise<ContextCacheEntry | null>>();
+
+/**
+ * Cache key for a model/content pair
+ */
+function getCacheKey(content: string, modelId: string): string {
+  return crypto.createHash('sha256')
+    .update(modelId)
+    .update('\0')
+    .update(content)
+    .digest('hex');
+}
+
+/**
+ * Whether context caching applies to requests on a provider (default: the active profile's)
+ * Cassette runs send context inline so recorded prompts never reference server-side caches.
+ */
+export function isContextCachingEnabled(logger?: Logger, provider?: ProviderName): boolean {
+  const configManager = getConfigManager(logger);
+  return configManager.getContextCacheTtl() > 0 &&
+    (provider || configManager.getProvider()) === 'gemini' &&
+    getCassetteMode(logger) === 'off';
+}
+
+/**
+ * Forget entries whose TTL has passed
+ * Returns the number of entries removed.
+ */
+export function cleanupExpiredContextCaches(logger?: Logger): number {
+  const now = Date.now();
+  let removed = 0;
+
+  for (const [key, entry] of contextCaches) {
+    if (entry.expiresAt <= now) {
+      contextCaches.delete(key);
+      removed++;
+      logger?.debug(`Context cache ${entry.name} expired after ${entry.hits} hits`);
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Delete the oldest entry when too many are live
+ */
+function evictOldestContextCache(logger: Logger): void {
+  if (contextCaches.size < MAX_CONTEXT_CACHES) {
+    return;
+  }
+
+  const [oldestKey, oldest] = contextCaches.entries().next().value as [string, ContextCacheEntry];
+  contextCaches.delete(oldestKey);
+
+  callGeminiDeleteCachedContent(oldest.name, { logger }).catch(error => {
+    logger.warn(`Could not delete context cache ${oldest.name}: ${error instanceof Error ? error.message : String(error)}`);
+  });
+}
+
+/**
+ * Create a cachedContents entry, or return null when the content is too small or creation fails
+ */
+async function createContextCache(
+  content: string,
+  modelId: string,
+  ttlSeconds: number,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<ContextCacheEntry | null> {
+  const { tokens } = await countTokens(content, { modelId, logger });
+  if (tokens < MIN_CACHE_TOKENS) {
+    logger.debug(`Content has ${tokens} tokens, below the ${MIN_CACHE_TOKENS} token minimum for context caching`);
+    return null;
+  }
+
+  try {
+    const cached = await callGeminiCreateCachedContent(content, ttlSeconds, { model: modelId, logger, signal });
+    const expiresAt = cached.expireTime
+      ? new Date(cached.expireTime).getTime()
+      : Date.now() + ttlSeconds * 1000;
+
+    return {
+      name: cached.name,
+      modelId,
+      tokenCount: cached.usageMetadata?.totalTokenCount || tokens,
+      expiresAt: expiresAt - EXPIRY_MARGIN_MS,
+      hits: 0
+    };
+  } catch (error) {
+    logger.warn(`Context caching unavailable, sending content inline: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Find or create the context cache entry for content on a model
+ * Returns null when caching is disabled or not possible; callers then send the content inline.
+ * Concurrent lookups for the same content share one creation request, so a creation cancelled
+ * by its signal leaves the other callers to send the content inline.
+ */
+export async function getOrCreateContextCache(
+  content: string,
+  modelId: string,
+  logger?: Logger,
+  signal?: AbortSignal
+): Promise<ContextCacheLookup | null> {
+  const log = logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  const ttlSeconds = getConfigManager(logger).getContextCacheTtl();
+  if (ttlSeconds <= 0 || !content || getCassetteMode(logger) !== 'off') {
+    return null;
+  }
+
+  cleanupExpiredContextCaches(log);
+
+  const key = getCacheKey(content, modelId);
+  const existing = contextCaches.get(key);
+  if (existing) {
+    existing.hits++;
+    log.info(`Context cache hit for ${modelId}: reusing ${existing.tokenCount} cached tokens`);
+    return { name: existing.name, hit: true, cachedTokens: existing.tokenCount };
+  }
+
+  let pending = pendingCreations.get(key);
+  if (!pending) {
+    pending = createContextCache(content, modelId, ttlSeconds, log, signal);
+    pendingCreations.set(key, pending);
+  }
+
+  try {
+    const entry = await pending;
+    throwIfCancelled(signal);
+    if (!entry) {
+      return null;
+    }
+
+    if (!contextCaches.has(key)) {
+      evictOldestContextCache(log);
+      contextCaches.set(key, entry);
+      log.info(`Created context cache ${entry.name} with ${entry.tokenCount} tokens for ${modelId}`);
+    }
+
+    return { name: entry.name, hit: false, cachedTokens: entry.tokenCount };
+  } finally {
+    pendingCreations.delete(key);
+  }
+}
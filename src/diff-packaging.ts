@@ -0,0 +1,361 @@
+/**
+ * Diff-scoped packaging
+ * Packages only the files changed between two git refs, or between a ref and the working tree
+ * (staged, unstaged and untracked changes). Files that import a changed file can be added for
+ * context, and the packed output starts with a changes section listing every change and,
+ * optionally, the unified diff.
+ */
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CommandNotFoundError, ProcessError, RepositoryPackagingError, RequestCancelledError } from './errors.js';
+import { runProcess } from './process-runner.js';
+import { countTokens } from './token-counter.js';
+import { ChangedFile, ChangeStatus, Logger, PackageRepositoryOptions, PackageResult } from './types.js';
+import { throwIfCancelled } from './utils.js';
+
+// Time a single git command may take
+const GIT_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Repomix settings in the repository root that change how files are rendered
+const REPOMIX_CONFIG_FILES = ['repomix.config.json'];
+
+// Extensions dropped when matching import specifiers to files
+const MODULE_EXTENSIONS = /\.(?:[cm]?[jt]sx?|py)$/;
+
+// Letters of git diff --name-status
+const STATUS_LETTERS: Record<string, ChangeStatus> = {
+  A: 'added',
+  M: 'modified',
+  T: 'modified',
+  U: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied'
+};
+
+/**
+ * Packaging callbacks supplied by enhancedPackageRepository
+ */
+export interface DiffPackagingCallbacks {
+  // Import specifiers of the repository's source files, keyed by file path
+  findImports: (dir: string) => Promise<Record<string, string[]>>;
+  // Package the listed files of a directory of copied files with the usual strategy order
+  packageDirectory: (dir: string, outputFile: string, filePaths: string[]) => Promise<PackageResult>;
+}
+
+/**
+ * Run git and return its output
+ */
+async function git(args: string[], cwd: string, options: PackageRepositoryOptions, logger: Logger): Promise<string> {
+  try {
+    const { stdout } = await runProcess('git', args, {
+      cwd,
+      timeoutMs: GIT_TIMEOUT_MS,
+      signal: options.signal,
+      logger
+    });
+    return stdout;
+  } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      throw error;
+    }
+    if (error instanceof CommandNotFoundError) {
+      throw new RepositoryPackagingError('git was not found; diff-scoped packaging needs git', error);
+    }
+    const detail = error instanceof ProcessError && error.stderr ? error.stderr.trim() : (error instanceof Error ? error.message : String(error));
+    throw new RepositoryPackagingError(`git ${args[0]} failed: ${detail}`, error);
+  }
+}
+
+/**
+ * Resolve a ref to a commit hash
+ */
+async function resolveRef(ref: string, repoDir: string, options: PackageRepositoryOptions, logger: Logger): Promise<string> {
+  try {
+    return (await git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], repoDir, options, logger)).trim();
+  } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      throw error;
+    }
+    throw new RepositoryPackagingError(`Unknown git ref: ${ref}`, error);
+  }
+}
+
+function refLabel(ref: string, commit: string): string {
+  return ref === commit ? commit.slice(0, 12) : `${ref} (${commit.slice(0, 12)})`;
+}
+
+/**
+ * Parse git diff --name-status -z output
+ */
+function parseNameStatus(output: string): ChangedFile[] {
+  const fields = output.split('\0').filter(Boolean);
+  const changes: ChangedFile[] = [];
+
+  for (let i = 0; i < fields.length; i++) {
+    const status = STATUS_LETTERS[fields[i][0]] || 'modified';
+    if (status === 'renamed' || status === 'copied') {
+      changes.push({ path: fields[i + 2], status, previousPath: fields[i + 1] });
+      i += 2;
+    } else {
+      changes.push({ path: fields[i + 1], status });
+      i += 1;
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Files changed between the refs, or between the base ref and the working tree
+ * Paths are relative to repoDir, and only changes inside it are listed.
+ */
+async function listChanges(
+  repoDir: string,
+  base: string,
+  head: string | undefined,
+  options: PackageRepositoryOptions,
+  logger: Logger
+): Promise<ChangedFile[]> {
+  const pathspec = options.componentPath ? ['--', options.componentPath] : [];
+  const diffArgs = ['diff', '--name-status', '-z', '--find-renames', '--relative', base, ...(head ? [head] : []), ...pathspec];
+  const changes = parseNameStatus(await git(diffArgs, repoDir, options, logger));
+
+  if (!head) {
+    const untracked = await git(['ls-files', '--others', '--exclude-standard', '-z', ...pathspec], repoDir, options, logger);
+    for (const filePath of untracked.split('\0').filter(Boolean)) {
+      changes.push({ path: filePath, status: 'added', untracked: true });
+    }
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Module names a path can be imported as: without its extension, and as its directory for index files
+ */
+function moduleKeys(filePath: string): string[] {
+  const key = filePath.replace(MODULE_EXTENSIONS, '');
+  return path.posix.basename(key) === 'index' || path.posix.basename(key) === '__init__'
+    ? [key, path.posix.dirname(key)]
+    : [key];
+}
+
+/**
+ * Module a specifier refers to: relative JavaScript/TypeScript paths and Python module names
+ */
+function resolveSpecifier(importer: string, specifier: string): string | undefined {
+  if (specifier.startsWith('./') || specifier.startsWith('../')) {
+    return path.posix.normalize(path.posix.join(path.posix.dirname(importer), specifier)).replace(MODULE_EXTENSIONS, '');
+  }
+  if (importer.endsWith('.py') && /^[\w]+(\.[\w]+)*$/.test(specifier)) {
+    return specifier.replace(/\./g, '/');
+  }
+  return undefined;
+}
+
+/**
+ * Files that directly import one of the changed files, including deleted and renamed-away ones
+ */
+async function findImporters(
+  sourceDir: string,
+  changes: ChangedFile[],
+  callbacks: DiffPackagingCallbacks
+): Promise<string[]> {
+  const changedPaths = new Set(changes.map(change => change.path));
+  const targets = new Set(changes.flatMap(change => [
+    ...moduleKeys(change.path),
+    ...(change.status === 'renamed' && change.previousPath ? moduleKeys(change.previousPath) : [])
+  ]));
+
+  const imports = await callbacks.findImports(sourceDir);
+  return Object.entries(imports)
+    .map(([filePath, specifiers]) => [filePath.replace(/\\/g, '/'), specifiers] as const)
+    .filter(([filePath, specifiers]) => !changedPaths.has(filePath) && specifiers.some(specifier => {
+      const resolved = resolveSpecifier(filePath, specifier);
+      return resolved !== undefined && targets.has(resolved);
+    }))
+    .map(([filePath]) => filePath)
+    .sort();
+}
+
+/**
+ * Build the changes section placed before the packed files
+ */
+function formatChangesSection(
+  baseLabel: string,
+  headLabel: string,
+  changes: ChangedFile[],
+  importers: string[],
+  diff: string | undefined
+): string {
+  const lines = [`<changes base="${baseLabel}" head="${headLabel}">`];
+
+  if (changes.length === 0) {
+    lines.push(`No files changed between ${baseLabel} and ${headLabel}.`);
+  } else {
+    lines.push(`Files changed between ${baseLabel} and ${headLabel}. Only these files${importers.length > 0 ? ' and their importers' : ''} are included below.`, '');
+    for (const change of changes) {
+      const target = change.previousPath ? `${change.previousPath} -> ${change.path}` : change.path;
+      lines.push(`${change.status}: ${target}${change.untracked ? ' (untracked)' : ''}`);
+    }
+  }
+
+  if (importers.length > 0) {
+    lines.push('', 'Files that import a changed file, included for context:', ...importers);
+  }
+
+  if (diff) {
+    lines.push('', '<diff>', diff.trimEnd(), '</diff>');
+  }
+
+  lines.push('</changes>');
+  return lines.join('\n');
+}
+
+/**
+ * Check out a ref in a temporary worktree
+ */
+async function addWorktree(
+  repoDir: string,
+  commit: string,
+  options: PackageRepositoryOptions,
+  logger: Logger
+): Promise<string> {
+  const worktreeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'diff-worktree-'));
+  await git(['worktree', 'add', '--detach', '--force', worktreeDir, commit], repoDir, options, logger);
+  return worktreeDir;
+}
+
+async function removeWorktree(repoDir: string, worktreeDir: string, logger: Logger): Promise<void> {
+  try {
+    await runProcess('git', ['worktree', 'remove', '--force', worktreeDir], { cwd: repoDir, timeoutMs: GIT_TIMEOUT_MS, logger });
+  } catch (error) {
+    logger.warn(`Could not remove git worktree ${worktreeDir}: ${error instanceof Error ? error.message : String(error)}`);
+    await fs.rm(worktreeDir, { recursive: true, force: true });
+    await runProcess('git', ['worktree', 'prune'], { cwd: repoDir, timeoutMs: GIT_TIMEOUT_MS, logger }).catch(() => {});
+  }
+}
+
+/**
+ * Copy the selected files to a temporary directory and package it
+ */
+async function packageSelectedFiles(
+  sourceDir: string,
+  filePaths: string[],
+  callbacks: DiffPackagingCallbacks,
+  logger: Logger
+): Promise<{ output: string; result: PackageResult }> {
+  const stageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'diff-packaging-'));
+  const staged: string[] = [];
+
+  try {
+    for (const filePath of [...filePaths, ...REPOMIX_CONFIG_FILES]) {
+      // Submodules and missing optional files are skipped
+      const source = path.join(sourceDir, filePath);
+      const stats = await fs.stat(source).catch(() => null);
+      if (!stats?.isFile()) {
+        if (filePaths.includes(filePath)) {
+          logger.debug(`Skipping ${filePath}: not a regular file`);
+        }
+        continue;
+      }
+
+      const target = path.join(stageDir, filePath);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.copyFile(source, target);
+      if (filePaths.includes(filePath)) {
+        staged.push(filePath);
+      }
+    }
+
+    // The staged files are passed as includes so default include patterns cannot drop any of them
+    const stageOutput = path.join(stageDir, '.diff-packaging-output');
+    const result = await callbacks.packageDirectory(stageDir, stageOutput, staged);
+    return { output: await fs.readFile(stageOutput, 'utf8'), result };
+  } finally {
+    await fs.rm(stageDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Package only the files changed since options.baseRef
+ * With options.headRef the files are taken from that ref, checked out in a temporary worktree;
+ * otherwise they come from the working tree, so uncommitted and untracked changes are included.
+ */
+export async function packageChangedFiles(
+  repoDir: string,
+  outputFile: string,
+  options: PackageRepositoryOptions,
+  callbacks: DiffPackagingCallbacks,
+  logger: Logger
+): Promise<PackageResult> {
+  const baseRef = options.baseRef!;
+
+  let topLevel: string;
+  try {
+    topLevel = (await git(['rev-parse', '--show-toplevel'], repoDir, options, logger)).trim();
+  } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      throw error;
+    }
+    throw new RepositoryPackagingError(`${repoDir} is not a git repository; baseRef needs one`, error);
+  }
+
+  const base = await resolveRef(baseRef, repoDir, options, logger);
+  const head = options.headRef ? await resolveRef(options.headRef, repoDir, options, logger) : undefined;
+  const baseLabel = refLabel(baseRef, base);
+  const headLabel = options.headRef && head ? refLabel(options.headRef, head) : 'working tree';
+
+  const changes = await listChanges(repoDir, base, head, options, logger);
+  logger.info(`Packaging ${changes.length} files changed between ${baseLabel} and ${headLabel}`);
+
+  const diff = options.includeDiff
+    ? await git(['diff', '--find-renames', '--relative', base, ...(head ? [head] : []), ...(options.componentPath ? ['--', options.componentPath] : [])], repoDir, options, logger)
+    : undefined;
+  throwIfCancelled(options.signal);
+
+  // Files of the head ref come from a worktree; repoDir may be a subdirectory of the repository
+  let worktreeDir: string | undefined;
+  let sourceDir = repoDir;
+  if (head) {
+    worktreeDir = await addWorktree(repoDir, head, options, logger);
+    sourceDir = path.join(worktreeDir, path.relative(topLevel, await fs.realpath(repoDir)));
+  }
+
+  try {
+    const importers = options.includeImporters && changes.length > 0
+      ? await findImporters(sourceDir, changes, callbacks)
+      : [];
+    if (importers.length > 0) {
+      logger.info(`Adding ${importers.length} files that import changed files`);
+    }
+
+    const filePaths = [
+      ...changes.filter(change => change.status !== 'deleted').map(change => change.path),
+      ...importers
+    ];
+    const packed = filePaths.length > 0
+      ? await packageSelectedFiles(sourceDir, filePaths, callbacks, logger)
+      : { output: '', result: { totalFiles: 0, totalTokens: 0, filePaths: [] } as PackageResult };
+
+    const changesSection = formatChangesSection(baseLabel, headLabel, changes, importers, diff);
+    const output = packed.output ? `${changesSection}\n\n${packed.output}` : `${changesSection}\n`;
+    await fs.writeFile(outputFile, output, 'utf-8');
+
+    const { tokens: totalTokens } = await countTokens(output, { logger });
+    logger.info(`Packaged ${packed.result.totalFiles} changed and importing files, ${totalTokens} tokens`);
+
+    return {
+      ...packed.result,
+      totalTokens,
+      filePaths,
+      changes
+    };
+  } finally {
+    if (worktreeDir) {
+      await removeWorktree(repoDir, worktreeDir, logger);
+    }
+  }
+}
@@ -7,7 +7,6 @@ import { packageRepository } from './repository-packaging.js';
 import { analyzeRepository } from './repository-analysis.js';
 import { performHierarchicalAnalysis } from './hierarchical-analysis.js';
 import { 
-  parseGeminiResponse, 
   formatResponseForMCP, 
   buildResponseFromAnalysis 
 } from './response-handler.js';
@@ -18,7 +17,12 @@ import {
   McpContentItem,
   Logger 
 } from './types.js';
-import { callGemini } from './gemini-api.js';
+import { callGeminiParsed } from './gemini-api.js';
+import { formatErrorForResponse, logErrorDetails } from './errors.js';
+import { runStructuredAnalysis } from './structured-output.js';
+import { runAgenticAnalysis } from './agentic-analysis.js';
+import { runSelfConsistentAnalysis } from './self-consistency.js';
+import { isContextCachingEnabled, CACHED_CONTEXT_PLACEHOLDER } from './context-cache.js';
 import { selectBestTemplate, buildPrompt } from './prompt-templates.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -38,11 +42,16 @@ export async function enhancedRepositoryAnalysis(
     maxTokens, 
     temperature, 
     reasoningEffort, 
+    provider,
     outputFormat, 
     analysisType, 
     analysisLevel, 
     component, 
     previousAnalysis,
+    onProgress,
+    samples,
+    samplingStrategy,
+    signal,
     logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} }
   } = options;
   
@@ -53,13 +62,35 @@ export async function enhancedRepositoryAnalysis(
       analysisLevel
     });
     
+    if (samples && samples > 1 && (analysisLevel || options.analysisMode === 'agentic')) {
+      logger.warn(`Self-consistency sampling is not available for ${analysisLevel ? 'hierarchical' : 'agentic'} analysis; using one sample`);
+    }
+    
+    // Agentic mode: Gemini reads files through function calls instead of a packed repository
+    if (options.analysisMode === 'agentic') {
+      if (options.baseRef) {
+        logger.warn('baseRef applies to packed analysis only; agentic analysis reads the whole repository');
+      }
+      return await runAgenticAnalysis(repoDir, options);
+    }
+    
+    // With context caching the packed repository is sent once and reused by follow-up questions.
+    // Hierarchical drill-downs then package the whole repository so every level shares one cache entry.
+    const useContextCache = isContextCachingEnabled(logger, provider);
+    
     // Step 1: Package the repository
     const packageResult = await packageRepository(repoDir, {
       query, 
       analysisType,
-      componentPath: component,
+      componentPath: analysisLevel && useContextCache ? undefined : component,
       maxTokens,
-      logger
+      logger,
+      onProgress,
+      signal,
+      baseRef: options.baseRef,
+      headRef: options.headRef,
+      includeDiff: options.includeDiff,
+      includeImporters: options.includeImporters
     });
     
     // If using hierarchical analysis
@@ -79,8 +110,11 @@ export async function enhancedRepositoryAnalysis(
         maxTokens: maxTokens || 4096,
         temperature: temperature || 0.7,
         reasoningEffort,
+        provider,
         analysisType,
-        logger
+        logger,
+        onProgress,
+        signal
       });
       
       // Return the MCP response directly from hierarchical analysis
@@ -110,37 +144,60 @@ export async function enhancedRepositoryAnalysis(
     const prompt = buildPrompt(templateKey, {
       query,
       repoStructure: packageResult.structure,
-      repoContent,
+      repoContent: useContextCache ? CACHED_CONTEXT_PLACEHOLDER : repoContent,
       analysisResult: JSON.stringify(analysisResult, null, 2)
     }, {
-      reasoningEffort
+      reasoningEffort,
+      model
     });
     
+    // Several samples with findings merged by agreement
+    if (samples && samples > 1) {
+      return await runSelfConsistentAnalysis(prompt, query, analysisType, {
+        model,
+        maxTokens,
+        temperature,
+        logger,
+        onProgress,
+        cachedContext: useContextCache ? repoContent : undefined,
+        reasoningEffort,
+        provider,
+        signal,
+        samples,
+        samplingStrategy,
+        outputFormat
+      });
+    }
+    
+    // Schema-enforced JSON findings for machine consumption
+    if (outputFormat === 'json') {
+      return await runStructuredAnalysis(prompt, query, analysisType, {
+        model,
+        maxTokens,
+        temperature,
+        logger,
+        onProgress,
+        cachedContext: useContextCache ? repoContent : undefined,
+        reasoningEffort,
+        provider,
+        signal
+      });
+    }
+    
     // Call Gemini
     logger.info("Calling Gemini with repository analysis prompt");
-    const geminiResponseText = await callGemini(prompt, {
+    const parsedResponse = await callGeminiParsed(prompt, {
       model,
       maxTokens,
       temperature,
-      logger
+      logger,
+      onProgress,
+      cachedContext: useContextCache ? repoContent : undefined,
+      reasoningEffort,
+      provider,
+      signal
     });
     
-    // Parse the response
-    const parsedResponse = parseGeminiResponse(
-      { 
-        candidates: [{ 
-          content: { 
-            parts: [{ text: geminiResponseText }] 
-          },
-          finishReason: "STOP"
-        }]
-      }, 
-      {
-        includeUsageInfo: true,
-        logger
-      }
-    );
-    
     // Return MCP response
     // Convert to correct MCP format
     const responseData = buildResponseFromAnalysis(
@@ -165,17 +222,9 @@ export async function enhancedRepositoryAnalysis(
     };
     
   } catch (error) {
-    logger.error(`Enhanced repository analysis failed: ${error instanceof Error ? error.message : String(error)}`);
-    
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error performing repository analysis: ${error instanceof Error ? error.message : String(error)}`
-        }
-      ],
-      isError: true
-    };
+    // Typed errors carry their own advice (blocked content, quotas, budgets, failed commands)
+    logErrorDetails(error, logger);
+    return formatErrorForResponse(error);
   } finally {
     // Clean up if needed
   }
@@ -195,7 +244,12 @@ export async function enhancedFileAnalysis(
     maxTokens, 
     temperature, 
     reasoningEffort, 
+    provider,
     outputFormat,
+    onProgress,
+    samples,
+    samplingStrategy,
+    signal,
     logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} }
   } = options;
   
@@ -249,34 +303,54 @@ export async function enhancedFileAnalysis(
       query,
       fileContent
     }, {
-      reasoningEffort
+      reasoningEffort,
+      model
     });
     
+    // Several samples with findings merged by agreement
+    if (samples && samples > 1) {
+      return await runSelfConsistentAnalysis(prompt, query, undefined, {
+        model,
+        maxTokens,
+        temperature,
+        logger,
+        onProgress,
+        reasoningEffort,
+        provider,
+        signal,
+        samples,
+        samplingStrategy,
+        outputFormat
+      });
+    }
+    
+    // Schema-enforced JSON findings for machine consumption
+    if (outputFormat === 'json') {
+      return await runStructuredAnalysis(prompt, query, undefined, {
+        model,
+        maxTokens,
+        temperature,
+        logger,
+        onProgress,
+        reasoningEffort,
+        provider,
+        signal
+      });
+    }
+    
     // Call Gemini
     logger.info("Calling Gemini with file analysis prompt");
-    const geminiResponseText = await callGemini(prompt, {
+    const parsedResponse = await callGeminiParsed(prompt, {
       model,
       maxTokens,
       temperature,
-      logger
+      logger,
+      onProgress,
+      reasoningEffort,
+      provider,
+      signal
     });
     
-    // Parse the response
-    const parsedResponse = parseGeminiResponse(
-      { 
-        candidates: [{ 
-          content: { 
-            parts: [{ text: geminiResponseText }] 
-          },
-          finishReason: "STOP"
-        }]
-      }, 
-      {
-        includeUsageInfo: true,
-        logger
-      }
-    );
-    
     // Create proper MCP response
     const responseData = formatResponseForMCP(parsedResponse, {
       includeMetadata: true,
@@ -295,16 +369,8 @@ export async function enhancedFileAnalysis(
     };
     
   } catch (error) {
-    logger.error(`Enhanced file analysis failed: ${error instanceof Error ? error.message : String(error)}`);
-    
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error performing file analysis: ${error instanceof Error ? error.message : String(error)}`
-        }
-      ],
-      isError: true
-    };
+    // Typed errors carry their own advice (blocked content, quotas, budgets, failed commands)
+    logErrorDetails(error, logger);
+    return formatErrorForResponse(error);
   }
 }
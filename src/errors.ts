@@ -71,6 +71,66 @@ export class NetworkError extends BaseError {
   }
 }
 
+/**
+ * Error for work abandoned because the client cancelled the request
+ */
+export class RequestCancelledError extends BaseError {
+  constructor(message: string = 'Request was cancelled', cause?: unknown) {
+    super(message, cause);
+  }
+  
+  formatUserMessage(): string {
+    return `Cancelled: ${this.message}`;
+  }
+}
+
+/**
+ * Error for a child process that exited unsuccessfully
+ * stderr holds the end of the process's error output.
+ */
+export class ProcessError extends BaseError {
+  constructor(
+    message: string,
+    public readonly command: string,
+    public readonly exitCode?: number | null,
+    public readonly stderr?: string,
+    cause?: unknown
+  ) {
+    super(message, cause);
+  }
+  
+  formatUserMessage(): string {
+    const output = this.stderr?.trim() ? `\n\n${this.stderr.trim().split('\n').slice(-10).join('\n')}` : '';
+    return `Process Error: ${this.message}${output}`;
+  }
+}
+
+/**
+ * Error for a child process stopped after running past its time limit
+ */
+export class ProcessTimeoutError extends ProcessError {
+  constructor(message: string, command: string, public readonly timeoutMs: number, stderr?: string, cause?: unknown) {
+    super(message, command, null, stderr, cause);
+  }
+  
+  formatUserMessage(): string {
+    return `Process Timeout: ${this.message}\n\nThe process was stopped. Try a smaller repository, a component path or narrower include patterns.`;
+  }
+}
+
+/**
+ * Error for a command that is not installed or not on the PATH
+ */
+export class CommandNotFoundError extends ProcessError {
+  constructor(message: string, command: string, cause?: unknown) {
+    super(message, command, null, undefined, cause);
+  }
+  
+  formatUserMessage(): string {
+    return `Command Not Found: ${this.message}\n\nInstall ${this.command} and make sure it is on the PATH of the MCP server.`;
+  }
+}
+
 /**
  * Error related to file system access
  */
@@ -125,21 +185,61 @@ export class TokenLimitError extends BaseError {
 
 /**
  * Error related to rate limiting
+ * statusCode is set when the API throttled the request (429, or 503 when overloaded) and
+ * unset when the local rate limiter gave up waiting.
  */
-export class RateLimitError extends BaseError {
-  constructor(message: string, retryAfterSeconds?: number) {
-    super(message);
+export class RateLimitError extends NetworkError {
+  constructor(message: string, retryAfterSeconds?: number, statusCode?: number, cause?: unknown) {
+    super(message, cause, statusCode);
     this.retryAfterSeconds = retryAfterSeconds;
   }
   
-  readonly retryAfterSeconds?: number;
+  readonly retryAfterSeconds?: number;  // Server-suggested delay before retrying
   
   formatUserMessage(): string {
     const retryMessage = this.retryAfterSeconds 
       ? `\n\nPlease try again after ${this.retryAfterSeconds} seconds.` 
       : '\n\nPlease try again later.';
+    const label = this.statusCode === 503 ? 'Service Unavailable' : 'Rate Limit Error';
       
-    return `Rate Limit Error: ${this.message}${retryMessage}`;
+    return `${label}: ${this.message}${retryMessage}`;
+  }
+}
+
+/**
+ * Error for an exhausted daily (or longer) quota
+ * Unlike per-minute throttling, retrying before the quota resets cannot succeed.
+ */
+export class QuotaExhaustedError extends RateLimitError {
+  constructor(message: string, public readonly quotaId?: string, retryAfterSeconds?: number, cause?: unknown) {
+    super(message, retryAfterSeconds, 429, cause);
+  }
+  
+  formatUserMessage(): string {
+    const quota = this.quotaId ? ` (${this.quotaId})` : '';
+    return `Quota Exhausted: ${this.message}\n\nThe daily quota${quota} is used up and requests are not retried until it resets. ` +
+      `Configure fallbackModels to use other models meanwhile, or raise the quota in your Google Cloud project.`;
+  }
+}
+
+/**
+ * Error for a model request refused because the profile's spend budget is used up
+ */
+export class BudgetExceededError extends BaseError {
+  constructor(
+    message: string,
+    public readonly period: 'daily' | 'monthly',
+    public readonly spentUsd: number,
+    public readonly budgetUsd: number,
+    cause?: unknown
+  ) {
+    super(message, cause);
+  }
+  
+  formatUserMessage(): string {
+    return `Budget Exceeded: ${this.message}\n\nThe ${this.period} budget of $${this.budgetUsd.toFixed(2)} is used up ` +
+      `($${this.spentUsd.toFixed(2)} spent). Raise the budget in the profile's spend settings, ` +
+      `set onBudgetExceeded to 'warn', or wait for the next ${this.period === 'daily' ? 'day' : 'month'}.`;
   }
 }
 
@@ -171,6 +271,70 @@ export class ModelFallbackError extends BaseError {
   }
 }
 
+/**
+ * Error for a request with no recorded response while replaying cassettes
+ */
+export class CassetteMissError extends BaseError {
+  constructor(
+    message: string,
+    public readonly cassetteKey: string,
+    public readonly cassettePath: string,
+    cause?: unknown
+  ) {
+    super(message, cause);
+  }
+  
+  formatUserMessage(): string {
+    return `Cassette Miss: ${this.message}\n\nExpected cassette: ${this.cassettePath}\n` +
+      `The request differs from every recorded one (model, prompt or generation settings changed). ` +
+      `Re-record with GEMINI_CASSETTE_MODE=record to refresh the cassettes.`;
+  }
+}
+
+/**
+ * Error for prompts or responses blocked by Gemini's safety filters
+ */
+export class ContentBlockedError extends BaseError {
+  constructor(
+    message: string,
+    public readonly blockReason: string,
+    public readonly safetyRatings: Array<{ category: string; probability: string; blocked?: boolean }> = [],
+    cause?: unknown
+  ) {
+    super(message, cause);
+  }
+  
+  /**
+   * Categories that caused the block (explicitly blocked, or rated MEDIUM or HIGH)
+   */
+  getTriggeredCategories(): Array<{ category: string; probability: string }> {
+    const blocked = this.safetyRatings.filter(rating => rating.blocked);
+    const triggered = blocked.length > 0
+      ? blocked
+      : this.safetyRatings.filter(rating => rating.probability === 'MEDIUM' || rating.probability === 'HIGH');
+    return triggered.map(({ category, probability }) => ({ category, probability }));
+  }
+  
+  formatUserMessage(): string {
+    const triggered = this.getTriggeredCategories();
+    let message = `Content Blocked: ${this.message}\n\nBlock reason: ${this.blockReason}`;
+    
+    if (triggered.length > 0) {
+      message += `\nTriggered categories: ${triggered.map(t => `${t.category} (${t.probability})`).join(', ')}`;
+      // BLOCK_ONLY_HIGH still blocks content rated HIGH
+      const example = JSON.stringify(triggered.map(t => ({
+        category: t.category,
+        threshold: t.probability === 'HIGH' ? 'BLOCK_NONE' : 'BLOCK_ONLY_HIGH'
+      })));
+      message += `\n\nTo allow this content, raise the threshold for these categories in the profile's gemini.safetySettings, for example with manage-configuration action="set" and settings={"safetySettings": ${example}}.`;
+    } else {
+      message += `\n\nNo category ratings were returned, so the block cannot be adjusted with safetySettings. Try narrowing the request or excluding the files that triggered it.`;
+    }
+    
+    return message;
+  }
+}
+
 /**
  * Error for invalid configuration
  */
@@ -248,6 +412,78 @@ export class GitHubCloneError extends BaseError {
   }
 }
 
+/**
+ * Subset of a Google API error body read when classifying throttling
+ */
+interface GoogleApiErrorBody {
+  error?: {
+    message?: string;
+    code?: number | string;  // OpenAI-compatible servers use string codes such as insufficient_quota
+    status?: string;
+    details?: Array<{
+      '@type'?: string;
+      retryDelay?: string;
+      violations?: Array<{ quotaId?: string; quotaMetric?: string }>;
+    }>;
+  };
+}
+
+/**
+ * Seconds from a Retry-After header (delay seconds or an HTTP date)
+ */
+function parseRetryAfterHeader(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Build a typed error for a 429 or 503 response
+ * The delay comes from the Retry-After header or the RetryInfo detail of a Google error body.
+ * QuotaFailure violations of a per-day quota (or an OpenAI insufficient_quota code) mean the
+ * quota is exhausted rather than throttled.
+ */
+export function createThrottlingError(
+  source: string,
+  status: number,
+  headers: Headers,
+  body: string
+): RateLimitError {
+  let parsed: GoogleApiErrorBody = {};
+  try {
+    parsed = JSON.parse(body) as GoogleApiErrorBody;
+  } catch {
+    // Plain-text error body
+  }
+  
+  const details = parsed.error?.details || [];
+  const retryInfo = details.find(detail => detail['@type']?.endsWith('google.rpc.RetryInfo'));
+  const retryDelay = retryInfo?.retryDelay ? parseFloat(retryInfo.retryDelay) : NaN;
+  const retryAfterSeconds = parseRetryAfterHeader(headers.get('retry-after')) ??
+    (Number.isFinite(retryDelay) ? Math.ceil(retryDelay) : undefined);
+  
+  const message = `${source} error (${status}): ${parsed.error?.message || body}`;
+  
+  const dailyViolation = details
+    .filter(detail => detail['@type']?.endsWith('google.rpc.QuotaFailure'))
+    .flatMap(detail => detail.violations || [])
+    .find(violation => /per_?day|daily/i.test(`${violation.quotaId || ''} ${violation.quotaMetric || ''}`));
+  
+  if (dailyViolation || parsed.error?.code === 'insufficient_quota') {
+    return new QuotaExhaustedError(message, dailyViolation?.quotaId, retryAfterSeconds);
+  }
+  
+  return new RateLimitError(message, retryAfterSeconds, status);
+}
+
 /**
  * Create an appropriate error from any error type
  */
@@ -317,7 +553,11 @@ export function logErrorDetails(
       stack: error.stack,
       ...(error instanceof ModelError ? { modelId: error.modelId } : {}),
       ...(error instanceof RateLimitError ? { retryAfterSeconds: error.retryAfterSeconds } : {}),
-      ...(error instanceof ValidationError ? { fieldErrors: error.fieldErrors } : {})
+      ...(error instanceof QuotaExhaustedError ? { quotaId: error.quotaId } : {}),
+      ...(error instanceof ProcessError ? { command: error.command, exitCode: error.exitCode } : {}),
+      ...(error instanceof BudgetExceededError ? { period: error.period, spentUsd: error.spentUsd, budgetUsd: error.budgetUsd } : {}),
+      ...(error instanceof ValidationError ? { fieldErrors: error.fieldErrors } : {}),
+      ...(error instanceof ContentBlockedError ? { blockReason: error.blockReason, safetyRatings: error.safetyRatings } : {})
     });
   } else if (error instanceof Error) {
     logger.error(`Error: ${error.message}`, {
@@ -1,17 +1,35 @@
-import { ApiKeyMissingError, NetworkError } from './errors.js';
-import { retryWithBackoff } from './utils.js';
+import { ApiKeyMissingError, NetworkError, ModelError, ModelFallbackError, ContentBlockedError, ConfigurationError, CassetteMissError, RateLimitError, QuotaExhaustedError, createThrottlingError, TokenLimitError } from './errors.js';
+import { retryWithBackoff, readServerSentEvents, throwIfCancelled } from './utils.js';
 import { execSync } from 'child_process';
 import fs from 'fs/promises';
 import path from 'path';
 import { existsSync } from 'fs';
-import { Logger, GeminiOptions } from './types.js';
+import { Logger, GeminiOptions, GeminiAuth, GeminiFunctionDeclaration, ProgressCallback, ProviderName } from './types.js';
+import { GeminiContent, GeminiPart, GeminiResponse, GeminiUsageMetadata, ParsedGeminiResponse, parseGeminiResponse, throwIfContentBlocked } from './response-handler.js';
+
+// Import OAuth helpers for service account authentication
+import {
+  loadServiceAccountFile,
+  getServiceAccountAccessToken,
+  getApplicationDefaultAccessToken,
+  clearAccessTokenCache
+} from './gemini-auth.js';
 
 // Import Gemini configuration
-import { DEFAULT_MODEL, getModelConfig, getModelApiUrl } from './gemini-config.js';
+import { DEFAULT_MODEL, getModelConfig, getThinkingBudget, supportsThinking, getModelApiUrl, getModelStreamApiUrl, getModelCountTokensUrl, getModelsListUrl, getCachedContentsUrl } from './gemini-config.js';
 
 // Import configuration manager
 import { getConfigManager } from './config-manager.js';
 
+// Import token helpers used to fit prompts into smaller fallback models
+import { estimateTokenCount, trimContentToTokenLimit } from './token-management.js';
+import { countTokens } from './token-counter.js';
+import { getOrCreateContextCache, ContextCacheLookup } from './context-cache.js';
+import { LlmProvider, getLlmProvider } from './llm-provider.js';
+import { CassetteRequest, withCassette } from './cassettes.js';
+import { acquireModelCapacity, releaseModelCapacity, settleInputTokens } from './rate-limiter.js';
+import { enforceSpendBudget, recordUsage } from './usage-ledger.js';
+
 // API endpoints are now dynamic based on the model configuration
 
 // GeminiOptions is now imported from types.js
@@ -25,26 +43,123 @@ function validateApiKey(apiKey: string): boolean {
 }
 
 /**
- * Check if it's a JSON service account file
+ * Build request URL and headers for the given credentials
  */
-async function isValidServiceAccountFile(filePath: string): Promise<boolean> {
-  try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const json = JSON.parse(content);
-    return !!(json.private_key && json.client_email);
-  } catch (error) {
-    return false;
+function buildAuthorizedRequest(baseUrl: string, auth: GeminiAuth): { url: string; headers: Record<string, string> } {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  
+  if (auth.type === 'bearer') {
+    headers["Authorization"] = `Bearer ${auth.accessToken}`;
+    return { url: baseUrl, headers };
+  }
+  
+  // The streaming endpoint already carries a query string (?alt=sse)
+  const separator = baseUrl.includes('?') ? '&' : '?';
+  return { url: `${baseUrl}${separator}key=${auth.apiKey}`, headers };
+}
+
+/**
+ * Output length and thinking settings for generationConfig
+ * On thinking models reasoningEffort selects the thinking budget, and because thinking tokens
+ * count against maxOutputTokens the budget is added on top of the requested answer length.
+ */
+function buildOutputConfig(options: GeminiOptions, logger: Logger): Record<string, unknown> {
+  const configManager = getConfigManager(logger);
+  const modelId = options.model || configManager.getDefaultModel();
+  const maxOutputTokens = options.maxTokens || configManager.getDefaultMaxTokens();
+  
+  if (!supportsThinking(modelId)) {
+    return { maxOutputTokens };
+  }
+  
+  const thinkingBudget = options.reasoningEffort ? getThinkingBudget(modelId, options.reasoningEffort) : undefined;
+  const includeThoughts = options.includeThoughts ?? configManager.getIncludeThoughts();
+  
+  if (thinkingBudget === undefined && !includeThoughts) {
+    return { maxOutputTokens };
+  }
+  
+  return {
+    maxOutputTokens: thinkingBudget === undefined
+      ? maxOutputTokens
+      : Math.min(maxOutputTokens + thinkingBudget, getModelConfig(modelId).maxOutputTokens),
+    thinkingConfig: {
+      ...(thinkingBudget !== undefined ? { thinkingBudget } : {}),
+      ...(includeThoughts ? { includeThoughts: true } : {})
+    }
+  };
+}
+
+/**
+ * Build the JSON request body shared by generateContent and streamGenerateContent
+ */
+function buildRequestBody(prompt: string, options: GeminiOptions, logger: Logger): string {
+  const configManager = getConfigManager(logger);
+  
+  // Earlier turns of a chat session are replayed ahead of the new user message
+  const contents = [
+    ...(options.history || []).map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+    { role: 'user', parts: [{ text: prompt }] }
+  ];
+  
+  const safetySettings = options.safetySettings ?? configManager.getSafetySettings();
+  
+  return JSON.stringify({
+    ...(options.cachedContentName ? { cachedContent: options.cachedContentName } : {}),
+    contents,
+    ...(safetySettings.length > 0 ? { safetySettings } : {}),
+    generationConfig: {
+      ...buildOutputConfig(options, logger),
+      temperature: options.temperature || configManager.getDefaultTemperature(),
+      ...(options.candidateCount && options.candidateCount > 1 ? { candidateCount: options.candidateCount } : {}),
+      ...(options.responseMimeType ? { responseMimeType: options.responseMimeType } : {}),
+      ...(options.responseSchema ? { responseSchema: options.responseSchema } : {})
+    }
+  });
+}
+
+/**
+ * Send a request to Gemini and throw a NetworkError for non-2xx responses (a RateLimitError for 429/503)
+ * Aborting the signal aborts the fetch, including a response body still being streamed.
+ */
+async function postToGemini(baseUrl: string, body: string, auth: GeminiAuth, signal?: AbortSignal): Promise<Response> {
+  const { url, headers } = buildAuthorizedRequest(baseUrl, auth);
+  
+  const response = await fetch(url, {
+    method: "POST",
+    headers,
+    body,
+    signal
+  });
+  
+  if (!response.ok) {
+    const errorText = await response.text();
+    
+    // An expired or revoked access token should not be reused
+    if (response.status === 401 && auth.type === 'bearer') {
+      clearAccessTokenCache();
+    }
+    
+    if (response.status === 429 || response.status === 503) {
+      throw createThrottlingError('Gemini API', response.status, response.headers, errorText);
+    }
+    
+    throw new NetworkError(`Gemini API error (${response.status}): ${errorText}`, undefined, response.status);
   }
+  
+  return response;
 }
 
 /**
- * Direct access to Gemini API with an API key
+ * Direct access to a generateContent endpoint with an API key or OAuth access token
+ * Returns the full response so finish reason, usage and safety data are preserved.
  */
 async function callGeminiApi(
+  url: string,
   prompt: string, 
-  apiKey: string, 
+  auth: GeminiAuth, 
   options: GeminiOptions
-): Promise<string> {
+): Promise<GeminiResponse> {
   const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
   const configManager = getConfigManager(logger);
   
@@ -54,49 +169,548 @@ async function callGeminiApi(
   logger.debug(`Calling Gemini API (${modelConfig.displayName}) directly`);
   
   try {
-    const url = `${getModelApiUrl(modelId)}?key=${apiKey}`;
+    const response = await postToGemini(url, buildRequestBody(prompt, options, logger), auth, options.signal);
     
-    const response = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: {
-          maxOutputTokens: options.maxTokens || configManager.getDefaultMaxTokens(),
-          temperature: options.temperature || configManager.getDefaultTemperature()
-        }
-      })
+    const data = await response.json() as GeminiResponse;
+    
+    logger.debug("Received response from Gemini API", {
+      finishReason: data.candidates?.[0]?.finishReason,
+      totalTokens: data.usageMetadata?.totalTokenCount
     });
     
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new NetworkError(`Gemini API error (${response.status}): ${errorText}`);
+    throwIfContentBlocked(data);
+    
+    if (!data.candidates || data.candidates.length === 0) {
+      throw new NetworkError("No candidates returned from Gemini");
     }
     
-    const data = await response.json();
+    return data;
+  } catch (error) {
+    throwIfCancelled(options.signal);
+    if (error instanceof NetworkError || error instanceof ContentBlockedError) {
+      throw error;
+    }
+    throw new NetworkError(`Error calling Gemini API: ${error instanceof Error ? error.message : String(error)}`, error);
+  }
+}
+
+/**
+ * Merge one streamed chunk into the response assembled so far
+ * Returns the new text carried by the chunk.
+ */
+function mergeStreamChunk(assembled: GeminiResponse, chunk: any): string {
+  if (chunk.promptFeedback) {
+    assembled.promptFeedback = chunk.promptFeedback;
+  }
+  
+  if (chunk.usageMetadata) {
+    assembled.usageMetadata = chunk.usageMetadata;
+  }
+  
+  const candidate = chunk.candidates?.[0];
+  if (!candidate) {
+    return '';
+  }
+  
+  if (assembled.candidates.length === 0) {
+    assembled.candidates.push({ content: { parts: [{ text: '' }], role: 'model' }, finishReason: '' });
+  }
+  const target = assembled.candidates[0];
+  
+  if (candidate.finishReason) {
+    target.finishReason = candidate.finishReason;
+  }
+  if (candidate.safetyRatings) {
+    target.safetyRatings = candidate.safetyRatings;
+  }
+  
+  const parts: GeminiPart[] = candidate.content?.parts || [];
+  
+  // Thought summaries are collected in their own part and not relayed as answer text
+  const thoughtDelta = parts.filter(part => part.thought).map(part => part.text || '').join('');
+  if (thoughtDelta) {
+    const thoughtPart = target.content.parts.find(part => part.thought);
+    if (thoughtPart) {
+      thoughtPart.text = (thoughtPart.text || '') + thoughtDelta;
+    } else {
+      target.content.parts.unshift({ text: thoughtDelta, thought: true });
+    }
+  }
+  
+  const delta = parts.filter(part => !part.thought).map(part => part.text || '').join('');
+  const answerPart = target.content.parts[target.content.parts.length - 1];
+  answerPart.text = (answerPart.text || '') + delta;
+  
+  return delta;
+}
+
+/**
+ * Streaming access to a streamGenerateContent endpoint (server-sent events)
+ * Partial text is relayed through options.onProgress as it arrives.
+ */
+async function callGeminiApiStream(
+  url: string,
+  prompt: string,
+  auth: GeminiAuth,
+  options: GeminiOptions
+): Promise<GeminiResponse> {
+  const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  const configManager = getConfigManager(logger);
+  
+  const modelId = options.model || configManager.getDefaultModel();
+  const modelConfig = getModelConfig(modelId);
+  logger.debug(`Streaming from Gemini API (${modelConfig.displayName})`);
+  
+  try {
+    const response = await postToGemini(url, buildRequestBody(prompt, options, logger), auth, options.signal);
     
-    logger.debug("Received response from Gemini API");
+    if (!response.body) {
+      throw new NetworkError("Gemini API returned an empty stream");
+    }
     
-    if (!data.candidates || data.candidates.length === 0) {
+    const assembled: GeminiResponse = { candidates: [] };
+    const chunkCount = await readServerSentEvents(response.body, async payload => {
+      const delta = mergeStreamChunk(assembled, JSON.parse(payload));
+      
+      if (delta && options.onProgress) {
+        await options.onProgress({ message: delta });
+      }
+    });
+    
+    logger.debug(`Received ${chunkCount} streamed chunks from Gemini API`);
+    
+    throwIfContentBlocked(assembled);
+    
+    if (assembled.candidates.length === 0) {
       throw new NetworkError("No candidates returned from Gemini");
     }
     
-    return data.candidates[0].content.parts[0].text;
+    return assembled;
   } catch (error) {
+    throwIfCancelled(options.signal);
+    if (error instanceof NetworkError || error instanceof ContentBlockedError) {
+      throw error;
+    }
+    throw new NetworkError(`Error streaming from Gemini API: ${error instanceof Error ? error.message : String(error)}`, error);
+  }
+}
+
+/**
+ * Resolve GEMINI_API_KEY into credentials for a request
+ * Supports direct API keys, service account JSON files and ADC.
+ */
+async function resolveGeminiAuth(apiKeySetting: string, logger: Logger): Promise<GeminiAuth> {
+  // Service account files are checked first since their paths can look like long keys
+  if (apiKeySetting.endsWith('.json')) {
+    if (!existsSync(apiKeySetting)) {
+      throw new ApiKeyMissingError(`Service account file not found: ${apiKeySetting}`);
+    }
+    
+    const credentials = await loadServiceAccountFile(apiKeySetting);
+    const accessToken = await getServiceAccountAccessToken(credentials, logger);
+    
+    return { type: 'bearer', accessToken, source: 'service-account', sourceDetail: apiKeySetting };
+  }
+  
+  if (apiKeySetting.toLowerCase() === 'adc') {
+    const { accessToken, source, sourceDetail } = await getApplicationDefaultAccessToken(logger);
+    return { type: 'bearer', accessToken, source, sourceDetail };
+  }
+  
+  if (validateApiKey(apiKeySetting)) {
+    return { type: 'apiKey', apiKey: apiKeySetting, source: 'api-key' };
+  }
+  
+  // If we get here, it's an unrecognized format
+  throw new ApiKeyMissingError(
+    "Unrecognized API key format. Please use a valid Gemini API key, a path to a service account JSON file, or 'adc'."
+  );
+}
+
+/**
+ * URLs and credentials of an endpoint that speaks the Gemini generateContent protocol
+ */
+export interface GoogleModelEndpoint {
+  generateUrl(modelId: string): string;
+  streamUrl(modelId: string): string;
+  countTokensUrl(modelId: string): string;
+  resolveAuth(logger: Logger): Promise<GeminiAuth>;
+}
+
+/**
+ * Count tokens for text with a countTokens endpoint
+ */
+async function callCountTokensEndpoint(url: string, text: string, auth: GeminiAuth, signal?: AbortSignal): Promise<number> {
+  const body = JSON.stringify({
+    contents: [{ role: 'user', parts: [{ text }] }]
+  });
+  
+  try {
+    const response = await postToGemini(url, body, auth, signal);
+    const data = await response.json() as { totalTokens?: number };
+    
+    if (typeof data.totalTokens !== 'number') {
+      throw new NetworkError("countTokens response did not include totalTokens");
+    }
+    
+    return data.totalTokens;
+  } catch (error) {
+    throwIfCancelled(signal);
     if (error instanceof NetworkError) {
       throw error;
     }
-    throw new NetworkError(`Error calling Gemini API: ${error instanceof Error ? error.message : String(error)}`);
+    throw new NetworkError(`Error counting tokens: ${error instanceof Error ? error.message : String(error)}`, error);
   }
 }
 
 /**
- * Main function to call Gemini API with improved error handling and retry logic
+ * Build a provider for a Gemini-protocol endpoint
+ * The Gemini API and Vertex AI share request and response formats and differ only in URLs and credentials.
  */
-export async function callGemini(
-  prompt: string, 
+export function createGoogleProvider(
+  name: ProviderName,
+  endpoint: GoogleModelEndpoint,
+  capabilities: { isConfigured: () => boolean; supportsContextCaching: boolean }
+): LlmProvider {
+  const resolve = async (options: GeminiOptions) => {
+    const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+    const modelId = options.model || getConfigManager(logger).getDefaultModel();
+    // Credentials are resolved per request so refreshed tokens are picked up
+    const auth = await endpoint.resolveAuth(logger);
+    return { logger, modelId, auth };
+  };
+  
+  return {
+    name,
+    usesGeminiModels: true,
+    supportsContextCaching: capabilities.supportsContextCaching,
+    isConfigured: capabilities.isConfigured,
+    
+    resolveModel(options) {
+      return options.model || getConfigManager(options.logger).getDefaultModel();
+    },
+    
+    async generate(prompt, options) {
+      const { modelId, auth } = await resolve(options);
+      return callGeminiApi(endpoint.generateUrl(modelId), prompt, auth, options);
+    },
+    
+    async stream(prompt, options) {
+      const { modelId, auth } = await resolve(options);
+      return callGeminiApiStream(endpoint.streamUrl(modelId), prompt, auth, options);
+    },
+    
+    async countTokens(text, options) {
+      const { modelId, auth } = await resolve(options);
+      return callCountTokensEndpoint(endpoint.countTokensUrl(modelId), text, auth, options.signal);
+    },
+    
+    async generateWithTools(contents, functionDeclarations, toolMode, options) {
+      const { logger, modelId, auth } = await resolve(options);
+      const configManager = getConfigManager(logger);
+      const safetySettings = options.safetySettings ?? configManager.getSafetySettings();
+      
+      const body = JSON.stringify({
+        contents,
+        tools: [{ functionDeclarations }],
+        toolConfig: { functionCallingConfig: { mode: toolMode } },
+        ...(safetySettings.length > 0 ? { safetySettings } : {}),
+        generationConfig: {
+          ...buildOutputConfig({ ...options, model: modelId }, logger),
+          temperature: options.temperature || configManager.getDefaultTemperature()
+        }
+      });
+      
+      try {
+        const httpResponse = await postToGemini(endpoint.generateUrl(modelId), body, auth, options.signal);
+        const data = await httpResponse.json() as GeminiResponse;
+        
+        throwIfContentBlocked(data);
+        if (!data.candidates || data.candidates.length === 0) {
+          throw new NetworkError("No candidates returned from Gemini");
+        }
+        
+        return data;
+      } catch (error) {
+        throwIfCancelled(options.signal);
+        if (error instanceof NetworkError || error instanceof ContentBlockedError) {
+          throw error;
+        }
+        throw new NetworkError(`Error calling Gemini API: ${error instanceof Error ? error.message : String(error)}`, error);
+      }
+    }
+  };
+}
+
+/**
+ * The Gemini API, authenticated with GEMINI_API_KEY (API key, service account file or ADC)
+ */
+export const geminiApiProvider: LlmProvider = createGoogleProvider('gemini', {
+  generateUrl: getModelApiUrl,
+  streamUrl: getModelStreamApiUrl,
+  countTokensUrl: getModelCountTokensUrl,
+  resolveAuth: async logger => {
+    const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+    if (!GEMINI_API_KEY) {
+      throw new ApiKeyMissingError("GEMINI_API_KEY is not defined");
+    }
+    return resolveGeminiAuth(GEMINI_API_KEY, logger);
+  }
+}, {
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+  supportsContextCaching: true
+});
+
+/**
+ * Describe the credential source currently used for Gemini requests
+ * Resolves credentials (fetching a token if needed) without calling the model.
+ */
+export async function getGeminiCredentialSource(logger?: Logger): Promise<{
+  source: GeminiAuth['source'];
+  sourceDetail?: string;
+}> {
+  const log = logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  
+  const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+  if (!GEMINI_API_KEY) {
+    throw new ApiKeyMissingError("GEMINI_API_KEY is not defined");
+  }
+  
+  const auth = await resolveGeminiAuth(GEMINI_API_KEY, log);
+  return { source: auth.source, sourceDetail: auth.sourceDetail };
+}
+
+// Socket and DNS failures that usually clear up on their own; undici reports them as
+// "fetch failed" with the code on error.cause
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN',
+  'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT'
+]);
+
+/**
+ * Whether an error or any error in its cause chain carries a transient network error code
+ */
+function hasTransientNetworkCode(error: unknown): boolean {
+  const seen = new Set<unknown>();
+  let current = error;
+  while (current && typeof current === 'object' && !seen.has(current)) {
+    seen.add(current);
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === 'string' && TRANSIENT_NETWORK_CODES.has(code)) {
+      return true;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return false;
+}
+
+/**
+ * Check whether a failed Gemini request is worth retrying
+ */
+function isRetryableGeminiError(error: unknown): boolean {
+  // A missing cassette will not appear on retry, and a daily quota stays exhausted until it resets
+  if (error instanceof CassetteMissError || error instanceof QuotaExhaustedError) {
+    return false;
+  }
+  
+  // API throttling (429/503) is retried after the suggested delay; the local limiter has already waited its maximum
+  if (error instanceof RateLimitError) {
+    return error.statusCode !== undefined;
+  }
+  
+  // Retry on connection failures, but not auth errors
+  const errorMsg = String(error);
+  return hasTransientNetworkCode(error) ||
+         errorMsg.includes('ETIMEDOUT') || 
+         errorMsg.includes('ECONNRESET');
+}
+
+/**
+ * Serve options.cachedContext from a context cache for the model, or inline it ahead of the prompt
+ */
+async function resolveCachedContext(
+  prompt: string,
+  modelId: string,
+  provider: LlmProvider,
+  options: GeminiOptions,
+  logger: Logger
+): Promise<{ prompt: string; contextCache?: ContextCacheLookup }> {
+  if (!options.cachedContext) {
+    return { prompt };
+  }
+  
+  const contextCache = provider.supportsContextCaching
+    ? await getOrCreateContextCache(options.cachedContext, modelId, logger, options.signal)
+    : null;
+  if (contextCache) {
+    return { prompt, contextCache };
+  }
+  
+  return { prompt: `${options.cachedContext}\n\n${prompt}` };
+}
+
+/**
+ * Generation settings that go into cassette keys
+ * Defaults are resolved so a changed profile setting does not replay a stale response.
+ */
+function describeGenerationConfig(options: GeminiOptions, logger: Logger): Record<string, unknown> {
+  const configManager = getConfigManager(logger);
+  
+  return {
+    maxTokens: options.maxTokens || configManager.getDefaultMaxTokens(),
+    temperature: options.temperature || configManager.getDefaultTemperature(),
+    candidateCount: options.candidateCount,
+    responseMimeType: options.responseMimeType,
+    responseSchema: options.responseSchema,
+    reasoningEffort: options.reasoningEffort,
+    includeThoughts: options.includeThoughts ?? configManager.getIncludeThoughts(),
+    safetySettings: options.safetySettings ?? configManager.getSafetySettings()
+  };
+}
+
+/**
+ * Describe a generate request for cassette keys
+ * Chat turn timestamps are left out because they never affect the answer.
+ */
+function describeGenerateRequest(
+  provider: LlmProvider,
+  prompt: string,
+  options: GeminiOptions,
+  logger: Logger
+): CassetteRequest {
+  return {
+    kind: 'generate',
+    provider: provider.name,
+    model: options.model || getConfigManager(logger).getDefaultModel(),
+    prompt,
+    history: (options.history || []).map(turn => ({ role: turn.role, text: turn.text })),
+    generationConfig: describeGenerationConfig(options, logger)
+  };
+}
+
+/**
+ * Model and token usage reported by a request, for the rate limiter and the usage ledger
+ */
+interface ReportedUsage {
+  model?: string;
+  usageMetadata?: GeminiUsageMetadata;
+}
+
+/**
+ * Usage reported by a generateContent response
+ * Servers report the model that actually answered, which can differ from an alias that was requested.
+ */
+function getResponseUsage(response: GeminiResponse): ReportedUsage {
+  return { model: response.model || response.modelVersion, usageMetadata: response.usageMetadata };
+}
+
+/**
+ * Run a model request once the provider's limiter for the model has capacity for it
+ * The input token estimate is replaced with the API's count once the response arrives.
+ */
+async function withRateLimit<T>(
+  provider: LlmProvider,
+  inputText: string,
+  options: GeminiOptions,
+  logger: Logger,
+  call: () => Promise<T>,
+  getUsage: (result: T) => ReportedUsage
+): Promise<T> {
+  const modelId = provider.resolveModel({ ...options, logger });
+  const lease = await acquireModelCapacity(provider.name, modelId, estimateTokenCount(inputText, modelId), {
+    logger,
+    onProgress: options.onProgress,
+    signal: options.signal
+  });
+  
+  try {
+    const result = await call();
+    settleInputTokens(lease, getUsage(result).usageMetadata?.promptTokenCount);
+    return result;
+  } finally {
+    releaseModelCapacity(lease);
+  }
+}
+
+/**
+ * Run a model request within the profile's spend budget and record its usage in the ledger
+ */
+async function withSpendTracking<T>(
+  provider: LlmProvider,
+  options: GeminiOptions,
+  logger: Logger,
+  call: () => Promise<T>,
+  getUsage: (result: T) => ReportedUsage
+): Promise<T> {
+  const modelId = provider.resolveModel({ ...options, logger });
+  await enforceSpendBudget(provider.name, modelId, logger, options.onProgress);
+  
+  const result = await call();
+  const usage = getUsage(result);
+  await recordUsage(provider.name, usage.model || modelId, usage.usageMetadata, logger);
+  return result;
+}
+
+/**
+ * Whether streamed answer text of a request has reached the client
+ */
+interface StreamRelayState {
+  relayed: boolean;
+}
+
+/**
+ * Generate or stream through the provider, recording or replaying the response when cassettes are on
+ * Replayed responses do not count against the rate limiter or the spend ledger.
+ */
+function generateWithProvider(
+  provider: LlmProvider,
+  prompt: string,
+  options: GeminiOptions,
+  logger: Logger,
+  relay: StreamRelayState
+): Promise<GeminiResponse> {
+  const onProgress = options.onProgress;
+  const relayStreamText: ProgressCallback | undefined = onProgress
+    ? async update => {
+        relay.relayed = true;
+        await onProgress(update);
+      }
+    : undefined;
+  
+  return withCassette(
+    describeGenerateRequest(provider, prompt, options, logger),
+    () => withSpendTracking(provider, options, logger, () => withRateLimit(
+      provider,
+      [...(options.history || []).map(turn => turn.text), prompt].join('\n'),
+      options,
+      logger,
+      () => relayStreamText
+        ? provider.stream(prompt, { ...options, onProgress: relayStreamText })
+        : provider.generate(prompt, options),
+      getResponseUsage
+    ), getResponseUsage),
+    logger,
+    async replayed => {
+      const text = getResponseText(replayed);
+      if (text && options.onProgress) {
+        await options.onProgress({ message: text });
+      }
+    }
+  );
+}
+
+/**
+ * Call the selected provider once (with retries) and return the full response object
+ * along with the prompt sent to the model that answered (cached context inlined, possibly trimmed).
+ * When options.onProgress is set the response is streamed and partial text relayed.
+ * If the model is unavailable (404, quota, overload) the profile's fallback chain is tried in order.
+ * A stream that fails after relaying text is neither retried nor moved to a fallback model, since
+ * the client already holds that text and would receive it a second time.
+ */
+async function callGeminiWithFallback(
+  prompt: string,
   options: GeminiOptions = {}
-): Promise<string> {
+): Promise<{ response: GeminiResponse; prompt: string }> {
   const logger = options.logger || {
     debug: () => {},
     info: () => {},
@@ -104,63 +718,492 @@ export async function callGemini(
     error: () => {}
   };
   
-  logger.debug("Preparing to call Gemini API", { promptLength: prompt.length });
+  const provider = getLlmProvider(options.provider, logger);
+  logger.debug(`Preparing to call ${provider.name} provider`, { promptLength: prompt.length, streaming: !!options.onProgress });
   
-  const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-  if (!GEMINI_API_KEY) {
-    throw new ApiKeyMissingError("GEMINI_API_KEY is not defined");
+  const configManager = getConfigManager(logger);
+  const requestedModel = options.model || configManager.getDefaultModel();
+  // Fallback chains name Gemini models, which other backends do not serve
+  const fallbackModels = provider.usesGeminiModels
+    ? options.fallbackModels ?? configManager.getFallbackModels()
+    : [];
+  const modelChain = [requestedModel, ...fallbackModels.filter(model => model !== requestedModel)];
+  
+  const attemptedModels: string[] = [];
+  const relay: StreamRelayState = { relayed: false };
+  let lastError: unknown;
+  
+  for (const [index, modelId] of modelChain.entries()) {
+    attemptedModels.push(modelId);
+    
+    try {
+      // Cache entries are per model, so the context is resolved for each model tried
+      const resolved = await resolveCachedContext(prompt, modelId, provider, options, logger);
+      
+      // Fallback models may have a smaller context window than the requested one
+      const modelPrompt = modelId === requestedModel || resolved.contextCache
+        ? resolved.prompt
+        : await fitPromptToModel(resolved.prompt, modelId, options, logger);
+      const modelOptions = { ...options, model: modelId, cachedContentName: resolved.contextCache?.name ?? options.cachedContentName };
+      
+      // Use retry with backoff for API calls to handle transient errors
+      const response = await retryWithBackoff(
+        () => generateWithProvider(provider, modelPrompt, modelOptions, logger, relay),
+        3,  // maxRetries
+        1000,  // initialDelay
+        error => !relay.relayed && isRetryableGeminiError(error),
+        logger,
+        options.signal
+      );
+      
+      // OpenAI-compatible servers report the model they actually ran
+      response.model = response.model || modelId;
+      response.provider = provider.name;
+      response.attemptedModels = attemptedModels;
+      if (resolved.contextCache) {
+        response.contextCache = resolved.contextCache;
+      }
+      return { response, prompt: modelPrompt };
+    } catch (error) {
+      if (relay.relayed || !isModelUnavailableError(error)) {
+        throw error;
+      }
+      
+      lastError = error;
+      const nextModel = modelChain[index + 1];
+      
+      if (nextModel) {
+        logger.warn(`Model ${modelId} unavailable, falling back to ${nextModel}: ${error instanceof Error ? error.message : String(error)}`);
+        await options.onProgress?.({ message: `\n[${modelId} unavailable, falling back to ${nextModel}]\n` });
+      }
+    }
+  }
+  
+  if (attemptedModels.length === 1) {
+    throw lastError;
   }
+  
+  throw new ModelFallbackError(
+    `All models in the fallback chain failed: ${lastError instanceof Error ? lastError.message : String(lastError)}`,
+    attemptedModels,
+    lastError
+  );
+}
 
-  // Check if it's a regular API key (simplest case)
-  if (validateApiKey(GEMINI_API_KEY)) {
-    // Use retry with backoff for API calls to handle transient errors
-    return await retryWithBackoff(
-      async () => callGeminiApi(prompt, GEMINI_API_KEY, options),
-      3,  // maxRetries
-      1000,  // initialDelay
-      (error) => {
-        // Retry on network errors and rate limits, but not auth errors
-        const errorMsg = String(error);
-        return errorMsg.includes('ETIMEDOUT') || 
-               errorMsg.includes('ECONNRESET') || 
-               errorMsg.includes('rate limit') ||
-               errorMsg.includes('quota') ||
-               errorMsg.includes('429') ||
-               errorMsg.includes('503');
-      },
-      logger
-    );
-  } 
+// Prompt sent as the user turn of each continuation request
+const CONTINUATION_PROMPT = 'Your previous response was cut off by the output token limit. ' +
+  'Continue exactly where you left off, without repeating or summarizing earlier text.';
+
+/**
+ * Text of the first candidate of a response
+ */
+function getResponseText(response: GeminiResponse): string {
+  return response.candidates?.[0]?.content?.parts
+    ?.filter(part => !part.thought)
+    .map(part => part.text || '')
+    .join('') || '';
+}
+
+/**
+ * Append a continuation response to the stitched response
+ * Text is concatenated, token usage summed and the latest finish reason kept.
+ */
+function appendContinuation(stitched: GeminiResponse, continuation: GeminiResponse): void {
+  const candidate = stitched.candidates[0];
+  const nextCandidate = continuation.candidates?.[0];
   
-  // For service account files or ADC, give clear error messages for now
-  // We'll implement these in a future update
-  if (GEMINI_API_KEY.endsWith('.json')) {
-    // Service account file validation
-    if (!existsSync(GEMINI_API_KEY)) {
-      throw new ApiKeyMissingError(`Service account file not found: ${GEMINI_API_KEY}`);
+  candidate.content.parts = [
+    ...candidate.content.parts.filter(part => part.thought),
+    { text: getResponseText(stitched) + getResponseText(continuation) }
+  ];
+  candidate.finishReason = nextCandidate?.finishReason;
+  if (nextCandidate?.safetyRatings) {
+    candidate.safetyRatings = nextCandidate.safetyRatings;
+  }
+  
+  const usage = stitched.usageMetadata || stitched.usage;
+  const nextUsage = continuation.usageMetadata || continuation.usage;
+  if (usage && nextUsage) {
+    stitched.usageMetadata = {
+      ...usage,
+      promptTokenCount: (usage.promptTokenCount || 0) + (nextUsage.promptTokenCount || 0),
+      candidatesTokenCount: (usage.candidatesTokenCount || 0) + (nextUsage.candidatesTokenCount || 0),
+      totalTokenCount: (usage.totalTokenCount || 0) + (nextUsage.totalTokenCount || 0)
+    };
+  }
+}
+
+/**
+ * Call Gemini and return the full response object with retry logic
+ * Keeps usageMetadata, finishReason, safetyRatings and promptFeedback intact.
+ * When the answer stops at MAX_TOKENS, continuation requests carrying the partial answer
+ * as a prior model turn are issued (up to the configured cap) and the pieces stitched together.
+ * JSON-mode answers are never continued; a truncated one raises a TokenLimitError.
+ */
+export async function callGeminiRaw(
+  prompt: string,
+  options: GeminiOptions = {}
+): Promise<GeminiResponse> {
+  const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  
+  const { response, prompt: sentPrompt } = await callGeminiWithFallback(prompt, options);
+  
+  // A continuation in JSON mode starts a new document, so a truncated one cannot be completed
+  if (options.responseMimeType === 'application/json') {
+    if (response.candidates?.[0]?.finishReason === 'MAX_TOKENS' && (options.candidateCount || 1) === 1) {
+      throw new TokenLimitError(
+        `The JSON response from ${response.model || options.model || 'the model'} was truncated at ${options.maxTokens || getConfigManager(logger).getDefaultMaxTokens()} output tokens; raise maxTokens and try again`
+      );
     }
+    return response;
+  }
+  
+  const maxContinuations = options.maxContinuations ?? getConfigManager(logger).getMaxContinuations();
+  
+  let rounds = 0;
+  while (response.candidates?.[0]?.finishReason === 'MAX_TOKENS' && rounds < maxContinuations) {
+    throwIfCancelled(options.signal);
+    rounds++;
+    logger.info(`Response truncated at MAX_TOKENS, requesting continuation ${rounds}/${maxContinuations}`);
     
-    const isValid = await isValidServiceAccountFile(GEMINI_API_KEY);
-    if (!isValid) {
-      throw new ApiKeyMissingError(`Invalid service account file: ${GEMINI_API_KEY}`);
-    }
+    const timestamp = new Date().toISOString();
+    const { response: continuation } = await callGeminiWithFallback(CONTINUATION_PROMPT, {
+      ...options,
+      // Stay on the model that produced the partial answer
+      model: response.model,
+      fallbackModels: [],
+      // The context was resolved by the first request: the replayed user turn carries it inline,
+      // or the continuation references the same cache entry
+      cachedContext: undefined,
+      cachedContentName: response.contextCache?.name,
+      history: [
+        ...(options.history || []),
+        { role: 'user', text: sentPrompt, timestamp },
+        { role: 'model', text: getResponseText(response), timestamp }
+      ]
+    });
     
-    throw new ApiKeyMissingError(
-      "Service account authentication is planned for a future update. " +
-      "Please use a direct API key for now."
-    );
+    appendContinuation(response, continuation);
   }
   
-  if (GEMINI_API_KEY.toLowerCase() === 'adc') {
-    throw new ApiKeyMissingError(
-      "Application Default Credentials (ADC) support is planned for a future update. " +
-      "Please use a direct API key for now."
-    );
+  if (rounds > 0) {
+    response.continuationRounds = rounds;
   }
   
-  // If we get here, it's an unrecognized format
-  throw new ApiKeyMissingError(
-    "Unrecognized API key format. Please use a valid Gemini API key. " +
-    "Service account and ADC support is coming in a future update."
+  return response;
+}
+
+/**
+ * Call Gemini and parse the response, including token usage and safety information
+ */
+export async function callGeminiParsed(
+  prompt: string,
+  options: GeminiOptions = {}
+): Promise<ParsedGeminiResponse> {
+  const rawResponse = await callGeminiRaw(prompt, options);
+  
+  return parseGeminiResponse(rawResponse, {
+    includeUsageInfo: true,
+    includeSafetyInfo: true,
+    logger: options.logger
+  });
+}
+
+/**
+ * Check whether a failure means the model itself is unavailable (missing, out of quota or overloaded)
+ * These errors move on to the next model in the fallback chain.
+ */
+function isModelUnavailableError(error: unknown): boolean {
+  if (error instanceof ModelError) {
+    return true;
+  }
+  
+  if (error instanceof NetworkError && error.statusCode !== undefined) {
+    return [404, 429, 503].includes(error.statusCode);
+  }
+  
+  const errorMsg = String(error);
+  return errorMsg.includes('RESOURCE_EXHAUSTED') ||
+         errorMsg.includes('overloaded') ||
+         errorMsg.includes('UNAVAILABLE');
+}
+
+/**
+ * Trim a prompt so it fits a fallback model's input window
+ */
+async function fitPromptToModel(
+  prompt: string,
+  modelId: string,
+  options: GeminiOptions,
+  logger: Logger
+): Promise<string> {
+  let modelConfig;
+  try {
+    modelConfig = getModelConfig(modelId);
+  } catch (error) {
+    throw new ModelError(`Unknown fallback model: ${modelId}`, modelId, error);
+  }
+  
+  const historyText = (options.history || []).map(turn => turn.text).join('\n');
+  const budget = modelConfig.maxInputTokens - estimateTokenCount(historyText, modelId);
+  
+  // Cheap check first; only ask the API when the estimate is over budget
+  if (estimateTokenCount(prompt, modelId) <= budget) {
+    return prompt;
+  }
+  
+  const { tokens } = await countTokens(prompt, { modelId, logger });
+  if (tokens <= budget) {
+    return prompt;
+  }
+  
+  logger.warn(`Trimming prompt from ${tokens} to ${budget} tokens to fit ${modelConfig.displayName}`);
+  
+  return trimContentToTokenLimit(prompt, {
+    maxTokens: budget,
+    modelId,
+    tokenCounter: text => Math.ceil(text.length * tokens / prompt.length),
+    logger
+  });
+}
+
+/**
+ * Main function to call Gemini API with improved error handling and retry logic
+ * Returns only the response text; use callGeminiRaw or callGeminiParsed for metadata.
+ */
+export async function callGemini(
+  prompt: string, 
+  options: GeminiOptions = {}
+): Promise<string> {
+  const parsedResponse = await callGeminiParsed(prompt, options);
+  return parsedResponse.text;
+}
+
+/**
+ * Call Gemini with an explicit conversation and function tools
+ * Used by the agentic analysis loop; the caller handles functionCall parts and sends back
+ * functionResponse parts. toolMode NONE forces a text answer.
+ */
+export async function callGeminiWithTools(
+  contents: GeminiContent[],
+  functionDeclarations: GeminiFunctionDeclaration[],
+  toolMode: 'AUTO' | 'NONE',
+  options: GeminiOptions = {}
+): Promise<GeminiResponse> {
+  const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  const modelId = options.model || getConfigManager(logger).getDefaultModel();
+  
+  const provider = getLlmProvider(options.provider, logger);
+  const generateWithTools = provider.generateWithTools;
+  if (!generateWithTools) {
+    throw new ConfigurationError(`The ${provider.name} provider does not support function calling; use analysisMode 'packed' instead`);
+  }
+  
+  const response = await retryWithBackoff(
+    () => withCassette(
+      {
+        kind: 'tools',
+        provider: provider.name,
+        model: modelId,
+        contents,
+        functionDeclarations,
+        toolMode,
+        generationConfig: describeGenerationConfig(options, logger)
+      },
+      () => withSpendTracking(provider, { ...options, model: modelId }, logger, () => withRateLimit(
+        provider,
+        JSON.stringify(contents),
+        { ...options, model: modelId },
+        logger,
+        () => generateWithTools(contents, functionDeclarations, toolMode, { ...options, model: modelId }),
+        getResponseUsage
+      ), getResponseUsage),
+      logger
+    ),
+    3,  // maxRetries
+    1000,  // initialDelay
+    isRetryableGeminiError,
+    logger,
+    options.signal
   );
+  
+  response.model = modelId;
+  response.provider = provider.name;
+  return response;
+}
+
+/**
+ * Count tokens for text with the selected provider's tokenizer
+ * No retries: callers are expected to fall back to an estimate on failure.
+ */
+export async function callGeminiCountTokens(
+  text: string,
+  options: GeminiOptions = {}
+): Promise<number> {
+  return getLlmProvider(options.provider, options.logger).countTokens(text, options);
+}
+
+/**
+ * Raw model entry returned by the models.list endpoint
+ */
+export interface GeminiApiModel {
+  name: string;
+  displayName?: string;
+  description?: string;
+  inputTokenLimit?: number;
+  outputTokenLimit?: number;
+  supportedGenerationMethods?: string[];
+  temperature?: number;
+  thinking?: boolean;
+}
+
+/**
+ * List all models available to the configured credentials (follows pagination)
+ */
+export async function callGeminiListModels(
+  options: GeminiOptions = {}
+): Promise<GeminiApiModel[]> {
+  const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  
+  const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+  if (!GEMINI_API_KEY) {
+    throw new ApiKeyMissingError("GEMINI_API_KEY is not defined");
+  }
+  
+  const auth = await resolveGeminiAuth(GEMINI_API_KEY, logger);
+  const models: GeminiApiModel[] = [];
+  let pageToken: string | undefined;
+  
+  try {
+    do {
+      const baseUrl = `${getModelsListUrl()}?pageSize=1000${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`;
+      const { url, headers } = buildAuthorizedRequest(baseUrl, auth);
+      
+      const response = await fetch(url, { method: "GET", headers, signal: options.signal });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new NetworkError(`Gemini models.list error (${response.status}): ${errorText}`, undefined, response.status);
+      }
+      
+      const data = await response.json() as { models?: GeminiApiModel[]; nextPageToken?: string };
+      models.push(...(data.models || []));
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+  } catch (error) {
+    throwIfCancelled(options.signal);
+    if (error instanceof NetworkError) {
+      throw error;
+    }
+    throw new NetworkError(`Error listing Gemini models: ${error instanceof Error ? error.message : String(error)}`, error);
+  }
+  
+  logger.debug(`models.list returned ${models.length} models`);
+  return models;
+}
+
+/**
+ * cachedContents entry returned by the Gemini API
+ */
+export interface GeminiCachedContent {
+  name: string;               // e.g. cachedContents/abc123
+  model?: string;
+  expireTime?: string;
+  usageMetadata?: {
+    totalTokenCount?: number;
+  };
+}
+
+/**
+ * Create a cachedContents entry holding text that later requests can reference
+ * The upload is billed as input tokens, so it goes through the model's rate limiter and the spend budget.
+ */
+export async function callGeminiCreateCachedContent(
+  text: string,
+  ttlSeconds: number,
+  options: GeminiOptions = {}
+): Promise<GeminiCachedContent> {
+  const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  const configManager = getConfigManager(logger);
+  const modelId = options.model || configManager.getDefaultModel();
+  
+  const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+  if (!GEMINI_API_KEY) {
+    throw new ApiKeyMissingError("GEMINI_API_KEY is not defined");
+  }
+  
+  const auth = await resolveGeminiAuth(GEMINI_API_KEY, logger);
+  const body = JSON.stringify({
+    model: `models/${modelId}`,
+    contents: [{ role: 'user', parts: [{ text }] }],
+    ttl: `${ttlSeconds}s`
+  });
+  
+  const getCacheUsage = (cached: GeminiCachedContent): ReportedUsage => {
+    const tokens = cached.usageMetadata?.totalTokenCount;
+    return { usageMetadata: tokens === undefined ? undefined : { promptTokenCount: tokens, totalTokenCount: tokens } };
+  };
+  
+  const create = async (): Promise<GeminiCachedContent> => {
+    try {
+      const response = await postToGemini(getCachedContentsUrl(), body, auth, options.signal);
+      const data = await response.json() as GeminiCachedContent;
+      
+      if (!data.name) {
+        throw new NetworkError("cachedContents response did not include a name");
+      }
+      
+      logger.debug(`Created context cache ${data.name} for ${modelId}`, { expireTime: data.expireTime });
+      return data;
+    } catch (error) {
+      throwIfCancelled(options.signal);
+      if (error instanceof NetworkError) {
+        throw error;
+      }
+      throw new NetworkError(`Error creating context cache: ${error instanceof Error ? error.message : String(error)}`, error);
+    }
+  };
+  
+  const modelOptions = { ...options, model: modelId };
+  return withSpendTracking(geminiApiProvider, modelOptions, logger, () => withRateLimit(
+    geminiApiProvider,
+    text,
+    modelOptions,
+    logger,
+    create,
+    getCacheUsage
+  ), getCacheUsage);
+}
+
+/**
+ * Delete a cachedContents entry
+ */
+export async function callGeminiDeleteCachedContent(
+  name: string,
+  options: GeminiOptions = {}
+): Promise<void> {
+  const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  
+  const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+  if (!GEMINI_API_KEY) {
+    throw new ApiKeyMissingError("GEMINI_API_KEY is not defined");
+  }
+  
+  const auth = await resolveGeminiAuth(GEMINI_API_KEY, logger);
+  const { url, headers } = buildAuthorizedRequest(getCachedContentsUrl(name), auth);
+  
+  let response: Response;
+  try {
+    response = await fetch(url, { method: "DELETE", headers, signal: options.signal });
+  } catch (error) {
+    throwIfCancelled(options.signal);
+    throw new NetworkError(`Error deleting context cache: ${error instanceof Error ? error.message : String(error)}`, error);
+  }
+  
+  // Entries past their TTL are already gone
+  if (!response.ok && response.status !== 404) {
+    const errorText = await response.text();
+    throw new NetworkError(`Gemini cachedContents delete error (${response.status}): ${errorText}`, undefined, response.status);
+  }
+  
+  logger.debug(`Deleted context cache ${name}`);
 }
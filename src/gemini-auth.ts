@@ -0,0 +1,395 @@
+/**
+ * Google OAuth support for the Gemini API
+ * Exchanges service account credentials, gcloud user credentials or
+ * metadata server identities for short-lived access tokens
+ */
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import os from 'os';
+import { ApiKeyMissingError, NetworkError } from './errors.js';
+import {
+  Logger,
+  ServiceAccountCredentials,
+  AuthorizedUserCredentials,
+  GeminiCredentialSource
+} from './types.js';
+
+/**
+ * Default Google OAuth token endpoint
+ * Can be overridden with GEMINI_TOKEN_ENDPOINT (e.g. to point at a local stand-in)
+ */
+export const DEFAULT_TOKEN_ENDPOINT = 'https://oauth2.googleapis.com/token';
+
+/**
+ * OAuth scopes requested for Gemini API access
+ */
+export const GEMINI_OAUTH_SCOPES = [
+  'https://www.googleapis.com/auth/cloud-platform',
+  'https://www.googleapis.com/auth/generative-language'
+];
+
+/**
+ * Default metadata server host (override with GCE_METADATA_HOST)
+ */
+export const DEFAULT_METADATA_HOST = '169.254.169.254';
+
+/**
+ * How long to wait for the metadata server before giving up on it
+ */
+const METADATA_TIMEOUT_MS = 3000;
+
+/**
+ * Lifetime of the signed JWT assertion in seconds (Google allows at most one hour)
+ */
+const JWT_LIFETIME_SECONDS = 3600;
+
+/**
+ * Refresh cached tokens this long before they expire
+ */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Cached access token with its expiry time
+ */
+interface CachedAccessToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// In-memory token cache keyed by credential type, identity and endpoint
+const tokenCache = new Map<string, CachedAccessToken>();
+
+// In-flight token requests, so concurrent callers share a single exchange
+const pendingTokenRequests = new Map<string, Promise<CachedAccessToken>>();
+
+/**
+ * Resolve the token endpoint to use for the given credentials
+ */
+export function getTokenEndpoint(credentials?: ServiceAccountCredentials): string {
+  return process.env.GEMINI_TOKEN_ENDPOINT || credentials?.token_uri || DEFAULT_TOKEN_ENDPOINT;
+}
+
+/**
+ * Read a JSON credentials file
+ */
+async function readCredentialsFile(filePath: string): Promise<any> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return JSON.parse(content);
+  } catch (error) {
+    throw new ApiKeyMissingError(`Unable to read credentials file: ${filePath}`, error);
+  }
+}
+
+/**
+ * Load and validate a service account JSON file
+ */
+export async function loadServiceAccountFile(filePath: string): Promise<ServiceAccountCredentials> {
+  const json = await readCredentialsFile(filePath);
+
+  if (!json.private_key || !json.client_email) {
+    throw new ApiKeyMissingError(`Invalid service account file (missing private_key or client_email): ${filePath}`);
+  }
+
+  return json as ServiceAccountCredentials;
+}
+
+/**
+ * Encode a value as base64url without padding
+ */
+function base64UrlEncode(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Create a signed RS256 JWT assertion for the OAuth JWT bearer grant
+ */
+export function createSignedJwt(
+  credentials: ServiceAccountCredentials,
+  audience: string,
+  scopes: string[] = GEMINI_OAUTH_SCOPES,
+  now: number = Date.now()
+): string {
+  const issuedAt = Math.floor(now / 1000);
+
+  const header = {
+    alg: 'RS256',
+    typ: 'JWT',
+    ...(credentials.private_key_id ? { kid: credentials.private_key_id } : {})
+  };
+
+  const claims = {
+    iss: credentials.client_email,
+    sub: credentials.client_email,
+    scope: scopes.join(' '),
+    aud: audience,
+    iat: issuedAt,
+    exp: issuedAt + JWT_LIFETIME_SECONDS
+  };
+
+  const unsignedToken = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(claims))}`;
+
+  try {
+    const signer = crypto.createSign('RSA-SHA256');
+    signer.update(unsignedToken);
+    signer.end();
+    const signature = signer.sign(credentials.private_key);
+
+    return `${unsignedToken}.${base64UrlEncode(signature)}`;
+  } catch (error) {
+    throw new ApiKeyMissingError(`Failed to sign JWT with service account key for ${credentials.client_email}`, error);
+  }
+}
+
+/**
+ * Parse an OAuth token response into a cached token
+ */
+async function parseTokenResponse(response: Response, endpoint: string): Promise<CachedAccessToken> {
+  if (!response.ok) {
+    const errorText = await response.text();
+
+    // 400/401 from the token endpoint means the credentials were rejected
+    if (response.status === 400 || response.status === 401) {
+      throw new ApiKeyMissingError(`Token request to ${endpoint} was rejected (${response.status}): ${errorText}`);
+    }
+
+    throw new NetworkError(`OAuth token endpoint error (${response.status}): ${errorText}`, undefined, response.status);
+  }
+
+  const data = await response.json() as { access_token?: string; expires_in?: number };
+
+  if (!data.access_token) {
+    throw new NetworkError(`Token response from ${endpoint} did not include an access_token`);
+  }
+
+  const expiresInSeconds = typeof data.expires_in === 'number' ? data.expires_in : JWT_LIFETIME_SECONDS;
+
+  return {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + expiresInSeconds * 1000
+  };
+}
+
+/**
+ * POST a form-encoded grant to an OAuth token endpoint
+ */
+async function requestToken(
+  tokenEndpoint: string,
+  params: Record<string, string>,
+  logger: Logger
+): Promise<CachedAccessToken> {
+  logger.debug(`Requesting OAuth access token from ${tokenEndpoint}`);
+
+  let response: Response;
+  try {
+    response = await fetch(tokenEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(params).toString()
+    });
+  } catch (error) {
+    throw new NetworkError(`Failed to reach OAuth token endpoint ${tokenEndpoint}`, error);
+  }
+
+  return parseTokenResponse(response, tokenEndpoint);
+}
+
+/**
+ * Return a cached token for the key, or fetch a new one
+ * Concurrent callers for the same key share a single request.
+ */
+async function getCachedToken(
+  cacheKey: string,
+  fetchToken: () => Promise<CachedAccessToken>,
+  logger: Logger
+): Promise<string> {
+  const cached = tokenCache.get(cacheKey);
+  if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return cached.accessToken;
+  }
+
+  let pending = pendingTokenRequests.get(cacheKey);
+  if (!pending) {
+    pending = fetchToken().finally(() => pendingTokenRequests.delete(cacheKey));
+    pendingTokenRequests.set(cacheKey, pending);
+  }
+
+  const token = await pending;
+  tokenCache.set(cacheKey, token);
+
+  logger.debug(`OAuth access token valid until ${new Date(token.expiresAt).toISOString()}`);
+
+  return token.accessToken;
+}
+
+/**
+ * Get an access token for a service account, using the cache when possible
+ * Tokens are refreshed shortly before they expire.
+ */
+export async function getServiceAccountAccessToken(
+  credentials: ServiceAccountCredentials,
+  logger?: Logger
+): Promise<string> {
+  const log: Logger = logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  const tokenEndpoint = getTokenEndpoint(credentials);
+
+  return getCachedToken(`service_account|${credentials.client_email}|${tokenEndpoint}`, () => {
+    log.info(`Obtaining OAuth access token for service account ${credentials.client_email}`);
+    return requestToken(tokenEndpoint, {
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: createSignedJwt(credentials, tokenEndpoint)
+    }, log);
+  }, log);
+}
+
+/**
+ * Get an access token for gcloud user credentials via the refresh token grant
+ */
+export async function getAuthorizedUserAccessToken(
+  credentials: AuthorizedUserCredentials,
+  logger?: Logger
+): Promise<string> {
+  const log: Logger = logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  const tokenEndpoint = getTokenEndpoint();
+
+  return getCachedToken(`authorized_user|${credentials.client_id}|${tokenEndpoint}`, () => {
+    log.info('Refreshing OAuth access token for gcloud user credentials');
+    return requestToken(tokenEndpoint, {
+      grant_type: 'refresh_token',
+      client_id: credentials.client_id,
+      client_secret: credentials.client_secret,
+      refresh_token: credentials.refresh_token
+    }, log);
+  }, log);
+}
+
+/**
+ * Get the metadata server host (GCE_METADATA_HOST allows a local stand-in)
+ */
+export function getMetadataHost(): string {
+  return process.env.GCE_METADATA_HOST || DEFAULT_METADATA_HOST;
+}
+
+/**
+ * Get an access token for the default service account from the metadata server
+ */
+export async function getMetadataServerAccessToken(logger?: Logger): Promise<string> {
+  const log: Logger = logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  const host = getMetadataHost();
+  const url = `http://${host}/computeMetadata/v1/instance/service-accounts/default/token`;
+
+  return getCachedToken(`metadata|${host}`, async () => {
+    log.info(`Requesting access token from metadata server at ${host}`);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { 'Metadata-Flavor': 'Google' },
+        signal: AbortSignal.timeout(METADATA_TIMEOUT_MS)
+      });
+    } catch (error) {
+      throw new ApiKeyMissingError(`Metadata server at ${host} is not reachable`, error);
+    }
+
+    return parseTokenResponse(response, url);
+  }, log);
+}
+
+/**
+ * Get the path of the gcloud application default credentials file
+ */
+export function getWellKnownCredentialsPath(): string {
+  if (process.env.CLOUDSDK_CONFIG) {
+    return path.join(process.env.CLOUDSDK_CONFIG, 'application_default_credentials.json');
+  }
+
+  const configDir = process.platform === 'win32' && process.env.APPDATA
+    ? path.join(process.env.APPDATA, 'gcloud')
+    : path.join(os.homedir(), '.config', 'gcloud');
+
+  return path.join(configDir, 'application_default_credentials.json');
+}
+
+/**
+ * Get an access token for a credentials file of either supported type
+ */
+async function getAccessTokenForCredentialsFile(filePath: string, logger: Logger): Promise<string> {
+  const json = await readCredentialsFile(filePath);
+
+  if (json.type === 'authorized_user') {
+    if (!json.client_id || !json.client_secret || !json.refresh_token) {
+      throw new ApiKeyMissingError(`Invalid authorized_user credentials file: ${filePath}`);
+    }
+    return getAuthorizedUserAccessToken(json as AuthorizedUserCredentials, logger);
+  }
+
+  if (!json.private_key || !json.client_email) {
+    throw new ApiKeyMissingError(`Unsupported credentials file (expected service_account or authorized_user): ${filePath}`);
+  }
+
+  return getServiceAccountAccessToken(json as ServiceAccountCredentials, logger);
+}
+
+/**
+ * Resolve Application Default Credentials into an access token
+ * Checks GOOGLE_APPLICATION_CREDENTIALS, then the gcloud well-known file,
+ * then the metadata server.
+ */
+export async function getApplicationDefaultAccessToken(logger?: Logger): Promise<{
+  accessToken: string;
+  source: GeminiCredentialSource;
+  sourceDetail: string;
+}> {
+  const log: Logger = logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+  // 1. Explicit credentials file from the environment
+  const envPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  if (envPath) {
+    if (!existsSync(envPath)) {
+      throw new ApiKeyMissingError(`GOOGLE_APPLICATION_CREDENTIALS points to a missing file: ${envPath}`);
+    }
+
+    log.debug(`Using ADC from GOOGLE_APPLICATION_CREDENTIALS: ${envPath}`);
+    return {
+      accessToken: await getAccessTokenForCredentialsFile(envPath, log),
+      source: 'adc:environment',
+      sourceDetail: envPath
+    };
+  }
+
+  // 2. gcloud well-known file
+  const wellKnownPath = getWellKnownCredentialsPath();
+  if (existsSync(wellKnownPath)) {
+    log.debug(`Using ADC from gcloud well-known file: ${wellKnownPath}`);
+    return {
+      accessToken: await getAccessTokenForCredentialsFile(wellKnownPath, log),
+      source: 'adc:gcloud',
+      sourceDetail: wellKnownPath
+    };
+  }
+
+  // 3. Metadata server
+  try {
+    return {
+      accessToken: await getMetadataServerAccessToken(log),
+      source: 'adc:metadata',
+      sourceDetail: getMetadataHost()
+    };
+  } catch (error) {
+    throw new ApiKeyMissingError(
+      'Application Default Credentials could not be found. ' +
+      'Set GOOGLE_APPLICATION_CREDENTIALS, run "gcloud auth application-default login", ' +
+      'or run on a host with a metadata server.',
+      error
+    );
+  }
+}
+
+/**
+ * Clear all cached access tokens (e.g. after a 401 from the Gemini API)
+ */
+export function clearAccessTokenCache(): void {
+  tokenCache.clear();
+}
@@ -1,37 +1,30 @@
 // Gemini configuration file with model specifications and parameters
-import { GeminiModelConfig } from './types.js';
+import { GeminiModelConfig, HarmBlockThreshold, ModelPrice, ProviderName, ReasoningEffort } from './types.js';
 
 /**
- * Available Gemini models
+ * Static model table
+ * Entries override the values discovered from the models.list endpoint.
  */
 export const GEMINI_MODELS: Record<string, GeminiModelConfig> = {
-  "gemini-2.5-pro-exp-03-25": {
-    id: "gemini-2.5-pro-exp-03-25",
-    displayName: "Gemini 2.5 Pro Experimental",
-    maxInputTokens: 1000000,
-    maxOutputTokens: 8192,
-    description: "Experimental model with enhanced code analysis capabilities",
-    contextWindow: 1000000,
-    defaultTemp: 0.7,
-    isPreview: true
-  },
   "gemini-2.5-pro": {
     id: "gemini-2.5-pro",
     displayName: "Gemini 2.5 Pro",
     maxInputTokens: 1000000,
-    maxOutputTokens: 8192,
+    maxOutputTokens: 65536,  // Includes thinking tokens
     description: "Most capable model with thinking capabilities",
     contextWindow: 1000000,
-    defaultTemp: 0.7
+    defaultTemp: 0.7,
+    thinkingBudgets: { low: 1024, medium: 8192, high: 32768 }
   },
   "gemini-2.5-flash": {
     id: "gemini-2.5-flash", 
     displayName: "Gemini 2.5 Flash",
     maxInputTokens: 1000000,
-    maxOutputTokens: 8192,
+    maxOutputTokens: 65536,  // Includes thinking tokens
     description: "Efficient model with dynamic compute capabilities", 
     contextWindow: 1000000,
-    defaultTemp: 0.7
+    defaultTemp: 0.7,
+    thinkingBudgets: { low: 1024, medium: 8192, high: 24576 }
   },
   "gemini-2.0-flash": {
     id: "gemini-2.0-flash", 
@@ -59,44 +52,125 @@ export const GEMINI_MODELS: Record<string, GeminiModelConfig> = {
     description: "Fast, efficient model for shorter responses", 
     contextWindow: 1000000,
     defaultTemp: 0.7
-  },
-  "gemini-1.0-pro": {
-    id: "gemini-1.0-pro",
-    displayName: "Gemini 1.0 Pro",
-    maxInputTokens: 30720,
-    maxOutputTokens: 2048,
-    description: "Original Gemini Pro model",
-    contextWindow: 32768,
-    defaultTemp: 0.7
-  },
-  "gemini-1.0-pro-vision": {
-    id: "gemini-1.0-pro-vision",
-    displayName: "Gemini 1.0 Pro Vision",
-    maxInputTokens: 12288,
-    maxOutputTokens: 4096,
-    description: "Vision-capable model for image analysis",
-    contextWindow: 16384,
-    defaultTemp: 0.7
   }
 };
 
+/**
+ * List prices in US dollars per million tokens, for prompts up to 200k tokens
+ * Used by the usage ledger; profiles can override them in spend.prices.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gemini-2.5-pro": { inputPerMillion: 1.25, outputPerMillion: 10.00, cachedInputPerMillion: 0.31 },
+  "gemini-2.5-flash": { inputPerMillion: 0.30, outputPerMillion: 2.50, cachedInputPerMillion: 0.075 },
+  "gemini-2.0-flash": { inputPerMillion: 0.10, outputPerMillion: 0.40, cachedInputPerMillion: 0.025 },
+  "gemini-1.5-pro": { inputPerMillion: 1.25, outputPerMillion: 5.00, cachedInputPerMillion: 0.3125 },
+  "gemini-1.5-flash": { inputPerMillion: 0.075, outputPerMillion: 0.30, cachedInputPerMillion: 0.01875 }
+};
+
+/**
+ * Thinking budgets for discovered thinking models without a static entry
+ */
+export const DEFAULT_THINKING_BUDGETS: Record<ReasoningEffort, number> = {
+  low: 1024,
+  medium: 8192,
+  high: 24576
+};
+
+/**
+ * Harm categories accepted in safetySettings
+ */
+export const SAFETY_CATEGORIES = [
+  "HARM_CATEGORY_HARASSMENT",
+  "HARM_CATEGORY_HATE_SPEECH",
+  "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+  "HARM_CATEGORY_DANGEROUS_CONTENT",
+  "HARM_CATEGORY_CIVIC_INTEGRITY"
+];
+
+/**
+ * Block thresholds accepted in safetySettings, from most to least permissive
+ */
+export const SAFETY_THRESHOLDS: HarmBlockThreshold[] = [
+  "OFF",
+  "BLOCK_NONE",
+  "BLOCK_ONLY_HIGH",
+  "BLOCK_MEDIUM_AND_ABOVE",
+  "BLOCK_LOW_AND_ABOVE"
+];
+
+/**
+ * LLM providers that can be selected per profile or per call
+ */
+export const PROVIDER_NAMES: ProviderName[] = ["gemini", "vertex", "openai-compatible"];
+
 /**
  * Default model to use if none specified
  * Uses environment variable GEMINI_DEFAULT_MODEL if set, otherwise defaults to gemini-2.5-pro
  */
-export const DEFAULT_MODEL = process.env.GEMINI_DEFAULT_MODEL || "gemini-2.5-pro-exp-03-25";
+export const DEFAULT_MODEL = process.env.GEMINI_DEFAULT_MODEL || "gemini-2.5-pro";
+
+/**
+ * Models discovered from the API (populated by model-registry.ts)
+ */
+let discoveredModels: Record<string, GeminiModelConfig> = {};
+
+/**
+ * Replace the set of models discovered from the API
+ */
+export function setDiscoveredModels(models: GeminiModelConfig[]): void {
+  discoveredModels = {};
+  for (const model of models) {
+    discoveredModels[model.id] = model;
+  }
+}
+
+/**
+ * All known models: discovered models merged with the static table
+ */
+export function getAllModelConfigs(): Record<string, GeminiModelConfig> {
+  const merged: Record<string, GeminiModelConfig> = { ...discoveredModels };
+  
+  for (const [id, staticConfig] of Object.entries(GEMINI_MODELS)) {
+    merged[id] = discoveredModels[id]
+      ? { ...discoveredModels[id], ...staticConfig, supportedMethods: discoveredModels[id].supportedMethods }
+      : staticConfig;
+  }
+  
+  return merged;
+}
+
+/**
+ * Check whether a model ID is known to the registry
+ */
+export function isKnownModel(modelId: string): boolean {
+  return !!(GEMINI_MODELS[modelId] || discoveredModels[modelId]);
+}
 
 /**
  * Get model configuration by ID
  */
 export function getModelConfig(modelId: string): GeminiModelConfig {
-  const config = GEMINI_MODELS[modelId];
+  const config = getAllModelConfigs()[modelId];
   if (!config) {
     throw new Error(`Unknown Gemini model: ${modelId}`);
   }
   return config;
 }
 
+/**
+ * Check whether a model accepts thinkingConfig
+ */
+export function supportsThinking(modelId?: string): boolean {
+  return !!(modelId && getAllModelConfigs()[modelId]?.thinkingBudgets);
+}
+
+/**
+ * Get the thinking budget for a reasoning effort, or undefined for models without thinking support
+ */
+export function getThinkingBudget(modelId: string, reasoningEffort: ReasoningEffort): number | undefined {
+  return getAllModelConfigs()[modelId]?.thinkingBudgets?.[reasoningEffort];
+}
+
 /**
  * Get base API URL for a given model
  */
@@ -105,11 +179,50 @@ export function getModelApiUrl(modelId: string): string {
   return `https://generativelanguage.googleapis.com/v1beta/models/${modelId}:generateContent`;
 }
 
+/**
+ * Get streaming (server-sent events) API URL for a given model
+ */
+export function getModelStreamApiUrl(modelId: string): string {
+  return `https://generativelanguage.googleapis.com/v1beta/models/${modelId}:streamGenerateContent?alt=sse`;
+}
+
+/**
+ * Get the models.list API URL
+ */
+export function getModelsListUrl(): string {
+  return "https://generativelanguage.googleapis.com/v1beta/models";
+}
+
+/**
+ * Get token counting API URL for a given model
+ */
+export function getModelCountTokensUrl(modelId: string): string {
+  return `https://generativelanguage.googleapis.com/v1beta/models/${modelId}:countTokens`;
+}
+
+/**
+ * Get the cachedContents API URL (create), or the URL of one cache entry
+ */
+export function getCachedContentsUrl(name?: string): string {
+  return name
+    ? `https://generativelanguage.googleapis.com/v1beta/${name}`
+    : "https://generativelanguage.googleapis.com/v1beta/cachedContents";
+}
+
+/**
+ * Get the Vertex AI URL of a model method (generateContent, streamGenerateContent, countTokens)
+ * The global location has no regional host prefix.
+ */
+export function getVertexModelUrl(project: string, location: string, modelId: string, method: string): string {
+  const host = location === 'global' ? 'aiplatform.googleapis.com' : `${location}-aiplatform.googleapis.com`;
+  return `https://${host}/v1/projects/${project}/locations/${location}/publishers/google/models/${modelId}:${method}`;
+}
+
 /**
  * Get list of available models for display
  */
 export function getAvailableModels(): {id: string, displayName: string, description: string}[] {
-  return Object.values(GEMINI_MODELS).map(model => ({
+  return Object.values(getAllModelConfigs()).map(model => ({
     id: model.id,
     displayName: model.displayName,
     description: model.description
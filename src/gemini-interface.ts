@@ -7,8 +7,8 @@
 
 import * as fs from 'fs/promises';
 import { Logger } from './types.js';
-import { callGemini } from './gemini-api.js';
-import { parseGeminiResponse, formatResponseForMCP } from './response-handler.js';
+import { callGeminiParsed } from './gemini-api.js';
+import { formatResponseForMCP } from './response-handler.js';
 import { RepositoryAnalysisResult } from './repository-analysis.js';
 import { TOKEN_LIMITS } from './token-management.js';
 
@@ -40,30 +40,18 @@ export async function generateResponse(
   const prompt = buildPrompt(packagedCode, analysisResults, options);
   
   // Call Gemini API
-  const geminiResponseText = await callGemini(prompt, {
+  const parsedResponse = await callGeminiParsed(prompt, {
     model: options.model || 'gemini-1.5-pro',
     maxTokens: options.maxTokens || TOKEN_LIMITS.MAX_RESPONSE_TOKENS,
     temperature: options.temperature || 0.2, // Lower temperature for more focused responses
     logger
   });
+  const geminiResponseText = parsedResponse.text;
   
-  logger.info(`Generated response with ${geminiResponseText.length} characters`);
-  
-  // Parse the response
-  const parsedResponse = parseGeminiResponse(
-    { 
-      candidates: [{ 
-        content: { 
-          parts: [{ text: geminiResponseText }] 
-        },
-        finishReason: "STOP"
-      }]
-    }, 
-    {
-      includeUsageInfo: true,
-      logger
-    }
-  );
+  logger.info(`Generated response with ${geminiResponseText.length} characters`, {
+    finishReason: parsedResponse.finishReason,
+    totalTokens: parsedResponse.usage?.totalTokens
+  });
   
   // Format the response based on the output format
   return formatResponse(geminiResponseText, outputFormat, analysisResults, options);
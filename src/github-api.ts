@@ -4,18 +4,23 @@
 import fetch, { HeadersInit, RequestInit } from 'node-fetch';
 import fs from 'fs/promises';
 import path from 'path';
-import { execSync } from 'child_process';
-import { createSecureTempDir, cleanupTempFiles } from './utils.js';
+import { createSecureTempDir, cleanupTempFiles, throwIfCancelled } from './utils.js';
 import { getConfigManager } from './config-manager.js';
+import { runProcess } from './process-runner.js';
+import { GitHubCloneError, RequestCancelledError } from './errors.js';
 // Import shared types
 import {
   GitHubAuthConfig, 
   GitHubRepoInfo,
   GitHubApiOptions,
   Logger,
-  GitHubRepositoryContext
+  GitHubRepositoryContext,
+  ProgressCallback
 } from './types.js';
 
+// Time a clone may take before git is stopped
+const CLONE_TIMEOUT_MS = 10 * 60 * 1000;
+
 /**
  * GitHub API client implementation
  */
@@ -212,6 +217,8 @@ export class GitHubApiClient {
       branch?: string;
       depth?: number;
       path?: string;
+      onProgress?: ProgressCallback;  // Receives git's transfer progress
+      signal?: AbortSignal;  // Kills git and removes the partial clone
     } = {}
   ): Promise<string> {
     // Get default branch if not specified
@@ -235,7 +242,8 @@ export class GitHubApiClient {
       
       // Determine clone URL and auth
       let cloneUrl = `https://github.com/${owner}/${repo}.git`;
-      let cloneCommand = `git clone --branch ${branch}`;
+      // --progress makes git report transfer progress even though stderr is not a terminal
+      const cloneArgs = ['clone', '--progress', '--branch', branch];
       
       // Add authentication if available
       if (this.authConfig.type === 'token' && this.authConfig.token) {
@@ -244,12 +252,19 @@ export class GitHubApiClient {
       
       // Add depth for shallow clone
       if (options.depth) {
-        cloneCommand += ` --depth ${options.depth}`;
+        cloneArgs.push('--depth', String(options.depth));
       }
       
       // Execute git clone
-      cloneCommand += ` "${cloneUrl}" "${repoPath}"`;
-      execSync(cloneCommand, { stdio: 'ignore' });
+      cloneArgs.push(cloneUrl, repoPath);
+      await runProcess('git', cloneArgs, {
+        timeoutMs: CLONE_TIMEOUT_MS,
+        signal: options.signal,
+        logger: this.logger,
+        onProgress: options.onProgress,
+        progressLabel: 'git clone',
+        redact: this.authConfig.token ? [this.authConfig.token] : []
+      });
       
       return repoPath;
     } catch (error) {
@@ -258,7 +273,15 @@ export class GitHubApiClient {
         await cleanupTempFiles('', tempDir, this.logger);
       }
       
-      throw new Error(`Failed to clone repository: ${error instanceof Error ? error.message : String(error)}`);
+      throwIfCancelled(options.signal);
+      if (error instanceof RequestCancelledError) {
+        throw error;
+      }
+      throw new GitHubCloneError(
+        `Failed to clone repository: ${error instanceof Error ? error.message : String(error)}`,
+        `${owner}/${repo}`,
+        error
+      );
     }
   }
 
@@ -57,7 +57,9 @@ export async function processGitHubRepository(
       options.repo,
       {
         branch: options.branch,
-        depth: options.depth || 1
+        depth: options.depth || 1,
+        onProgress: options.onProgress,
+        signal: options.signal
       }
     );
     
@@ -69,7 +71,10 @@ export async function processGitHubRepository(
         query: options.query,
         analysisType: options.analysisType,
         maxTokens: options.maxTokens || SIZE_LIMITS.MAX_TOKEN_COUNT,
-        smartFiltering: options.smartFiltering !== false
+        smartFiltering: options.smartFiltering !== false,
+        useCache: false,
+        onProgress: options.onProgress,
+        signal: options.signal
       },
       logger
     );
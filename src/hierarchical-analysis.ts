@@ -1,8 +1,9 @@
 import { z } from "zod";
-import { Logger, AnalysisLevel, AnalysisType, ReasoningEffort } from "./types.js";
+import { Logger, AnalysisLevel, AnalysisType, ReasoningEffort, ProgressCallback, ProviderName } from "./types.js";
 import { buildPrompt, selectBestTemplate } from "./prompt-templates.js";
-import { callGemini } from "./gemini-api.js";
-import { parseGeminiResponse, formatResponseForMCP } from "./response-handler.js";
+import { callGeminiParsed } from "./gemini-api.js";
+import { isContextCachingEnabled, CACHED_CONTEXT_PLACEHOLDER } from "./context-cache.js";
+import { formatResponseForMCP } from "./response-handler.js";
 import { McpCallbackResponse } from "./types.js";
 import { enhancedPackageRepository } from "./repomix-utils.js";
 import path from "path";
@@ -148,8 +149,11 @@ export async function performHierarchicalAnalysis({
   maxTokens,
   temperature,
   reasoningEffort,
+  provider,
   analysisType,
-  logger
+  logger,
+  onProgress,
+  signal
 }: {
   repoContent: string;
   repoStructure: string;
@@ -161,8 +165,11 @@ export async function performHierarchicalAnalysis({
   maxTokens: number;
   temperature: number;
   reasoningEffort?: ReasoningEffort;
+  provider?: ProviderName;
   analysisType?: AnalysisType;
   logger: Logger;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
 }): Promise<{
   analysis: string;
   componentMap: Record<string, string>;
@@ -179,11 +186,16 @@ export async function performHierarchicalAnalysis({
   const templateKey = selectHierarchicalTemplate(level, analysisType);
   logger.info(`Selected template: ${templateKey}`);
   
+  // With context caching every level and drill-down reuses the same cached repository
+  const useContextCache = isContextCachingEnabled(logger, provider);
+  
   // Build context for the prompt
   const contextData: Record<string, string> = {
     query,
     repoStructure,
-    repoContent: component ? extractComponentContent(repoContent, component) : repoContent,
+    repoContent: useContextCache
+      ? (component ? `${CACHED_CONTEXT_PLACEHOLDER} Focus on the files under ${component}.` : CACHED_CONTEXT_PLACEHOLDER)
+      : (component ? extractComponentContent(repoContent, component) : repoContent),
   };
   
   // Add previous analysis if available for context
@@ -199,38 +211,28 @@ export async function performHierarchicalAnalysis({
   // Build the prompt
   const prompt = buildPrompt(templateKey, contextData, {
     reasoningEffort,
-    analysisLevel: level
+    analysisLevel: level,
+    model
   });
   
   // Call Gemini
   logger.info(`Calling Gemini for ${level} analysis`);
-  const geminiResponseText = await callGemini(prompt, {
+  const parsedResponse = await callGeminiParsed(prompt, {
     model,
     maxTokens,
     temperature,
-    logger
+    logger,
+    onProgress,
+    cachedContext: useContextCache ? repoContent : undefined,
+    reasoningEffort,
+    provider,
+    signal
   });
   
-  // Parse response
-  const parsedResponse = parseGeminiResponse(
-    { 
-      candidates: [{ 
-        content: { 
-          parts: [{ text: geminiResponseText }] 
-        },
-        finishReason: "STOP"
-      }]
-    }, 
-    {
-      includeUsageInfo: true,
-      logger
-    }
-  );
-  
   // Extract component recommendations if overview analysis
   const componentMap: Record<string, string> = {};
   if (level === "overview") {
-    const extractedComponents = extractComponentSuggestions(geminiResponseText);
+    const extractedComponents = extractComponentSuggestions(parsedResponse.text);
     Object.assign(componentMap, extractedComponents);
     logger.info(`Extracted ${Object.keys(componentMap).length} components from overview analysis`);
   }
@@ -242,7 +244,7 @@ export async function performHierarchicalAnalysis({
   }) as McpCallbackResponse;
   
   return {
-    analysis: geminiResponseText,
+    analysis: parsedResponse.text,
     componentMap,
     mcpResponse
   };
@@ -12,20 +12,39 @@ import dotenv from 'dotenv';
 import os from 'os';
 
 // Import Gemini configuration
-import { getAvailableModels, getModelConfig, DEFAULT_MODEL } from './gemini-config.js';
+import { getAvailableModels, DEFAULT_MODEL, isKnownModel } from './gemini-config.js';
+import {
+  initializeModelRegistry,
+  validateModel,
+  getModelRegistrySnapshot
+} from './model-registry.js';
 
 // Import configuration manager
 import { getConfigManager } from './config-manager.js';
 
 // Import our new enhanced modules
 import { 
-  checkRateLimit, 
-  releaseRateLimit, 
   SIZE_LIMITS 
 } from './validation.js';
 import { 
-  callGemini 
+  callGeminiParsed,
+  getGeminiCredentialSource
 } from './gemini-api.js';
+import { createProgressReporter } from './progress.js';
+import { runStructuredAnalysis } from './structured-output.js';
+import { runSelfConsistentAnalysis } from './self-consistency.js';
+import { getRateLimitUsage } from './rate-limiter.js';
+import { getBudgetStatus, querySpend, withUsageContext } from './usage-ledger.js';
+import { isContextCachingEnabled, CACHED_CONTEXT_PLACEHOLDER } from './context-cache.js';
+import { getLlmProvider, isLlmProviderConfigured } from './llm-provider.js';
+import { stopAllProcesses } from './process-runner.js';
+import {
+  getChatHistory,
+  appendChatExchange,
+  listChatSessions,
+  resetChatSession,
+  exportChatSession
+} from './chat-sessions.js';
 import {
   enhancedRepositoryAnalysis,
   enhancedFileAnalysis
@@ -43,7 +62,6 @@ import {
   PathAccessError
 } from './errors.js';
 import {
-  parseGeminiResponse,
   formatResponseForMCP,
   createStructuredOutput
 } from './response-handler.js';
@@ -69,7 +87,18 @@ import {
   AnalysisType,
   ReasoningEffort,
   OutputFormat,
-  ConfigManagerInterface
+  ConfigManagerInterface,
+  ProgressCallback,
+  GeminiSafetySetting,
+  ProviderName,
+  VertexProviderSettings,
+  OpenAICompatibleProviderSettings,
+  CassetteSettings,
+  RateLimitSettings,
+  SpendSettings,
+  RepomixMcpSettings,
+  PackagingCacheSettings,
+  SamplingStrategy
 } from './types.js';
 
 // Load environment variables with profile support
@@ -143,9 +172,10 @@ const logger: Logger = {
 // Initialize configuration manager
 const configManager = getConfigManager(logger);
 
-// Check for Gemini API key
+// Check for Gemini API key (other providers carry their own credentials; replayed runs need none)
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-if (!GEMINI_API_KEY) {
+const requiresGeminiApiKey = configManager.getProvider() === 'gemini' && configManager.getCassetteSettings().mode !== 'replay';
+if (!GEMINI_API_KEY && requiresGeminiApiKey) {
   logger.error("GEMINI_API_KEY environment variable is required. Please set it in your environment or .env file.");
   process.exit(1);
 }
@@ -164,6 +194,7 @@ server.resource(
             defaultTemperature: configManager.getDefaultTemperature(),
             defaultMaxTokens: configManager.getDefaultMaxTokens(),
             availableModels: getAvailableModels(),
+            registry: getModelRegistrySnapshot(),
             currentSettings: {
               model: configManager.getDefaultModel(),
               temperature: configManager.getDefaultTemperature(),
@@ -186,6 +217,52 @@ server.resource(
   }
 );
 
+// Rate limiter usage per model
+server.resource(
+  "rate-limits",
+  "usage://rate-limits",
+  async (uri) => {
+    const settings = configManager.getRateLimitSettings();
+    return {
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify({
+          defaultQuota: settings.default,
+          maxWaitSeconds: settings.maxWaitSeconds,
+          models: getRateLimitUsage(logger)
+        }, null, 2)
+      }]
+    };
+  }
+);
+
+// Spend recorded in the usage ledger, with the active profile's budgets
+server.resource(
+  "spend",
+  "usage://spend",
+  async (uri) => {
+    const today = new Date().toISOString().slice(0, 10);
+    const [budgets, todaySpend, monthByModel, lastThirtyDays] = await Promise.all([
+      getBudgetStatus(logger),
+      querySpend({ since: today }, logger),
+      querySpend({ groupBy: 'model', since: `${today.slice(0, 7)}-01` }, logger),
+      querySpend({ groupBy: 'day', since: new Date(Date.now() - 29 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10) }, logger)
+    ]);
+    return {
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify({
+          profile: configManager.getActiveProfile(),
+          budgets,
+          today: todaySpend.totals,
+          thisMonth: { totals: monthByModel.totals, models: monthByModel.rows },
+          lastThirtyDays: lastThirtyDays.rows
+        }, null, 2)
+      }]
+    };
+  }
+);
+
 // Configuration resource to access all settings
 server.resource(
   "config",
@@ -281,12 +358,29 @@ server.resource(
   }
 );
 
+/**
+ * Repository name for the usage ledger: owner/repo for GitHub repositories, else the resolved path
+ */
+function usageRepositoryLabel(repository?: string): string {
+  if (repository && !existsSync(repository)) {
+    try {
+      const repoInfo = parseGitHubRepository(repository);
+      return `${repoInfo.owner}/${repoInfo.repo}`;
+    } catch {
+      // Not a GitHub repository; fall through to the path
+    }
+  }
+  return path.resolve(repository || process.cwd());
+}
+
 // Shared function for GitHub Analysis Logic
 async function _handleAnalyzeGithubRepository(
-  { repository, query, branch, subdir, model, maxTokens, temperature, reasoningEffort, outputFormat, analysisType }: 
-  { repository: string; query: string; branch?: string; subdir?: string; model?: string; maxTokens?: number; temperature?: number; reasoningEffort?: ReasoningEffort; outputFormat?: OutputFormat; analysisType?: AnalysisType },
+  { repository, query, branch, subdir, model, maxTokens, temperature, reasoningEffort, provider, outputFormat, analysisType, samples, samplingStrategy }: 
+  { repository: string; query: string; branch?: string; subdir?: string; model?: string; maxTokens?: number; temperature?: number; reasoningEffort?: ReasoningEffort; provider?: ProviderName; outputFormat?: OutputFormat; analysisType?: AnalysisType; samples?: number; samplingStrategy?: SamplingStrategy },
   configManager: ConfigManagerInterface,
-  logger: Logger
+  logger: Logger,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
 ): Promise<McpCallbackResponse> {
   let tempFile: string | null = null;
   let tempDir: string | null = null;
@@ -311,7 +405,9 @@ async function _handleAnalyzeGithubRepository(
       analysisType,
       maxTokens: maxTokens || configManager.getDefaultMaxTokens(),
       smartFiltering: true,
-      logger
+      logger,
+      onProgress,
+      signal
     });
 
     tempFile = processedRepo.tempFile;
@@ -342,49 +438,75 @@ ${context.repository.lastUpdated ? `Last Updated: ${context.repository.lastUpdat
 Branch: ${context.repository.branch}
 `.trim();
     
+    // With context caching the packed repository is sent once and reused by follow-up questions
+    const useContextCache = isContextCachingEnabled(logger, provider);
+    
     // Build prompt with GitHub context
     const prompt = buildPrompt(templateKey, {
       query: query,
       repoStructure: repoStructure,
-      repoContent: repoContent,
+      repoContent: useContextCache ? CACHED_CONTEXT_PLACEHOLDER : repoContent,
       githubContext: githubContext
     }, {
-      reasoningEffort: reasoningEffort
+      reasoningEffort: reasoningEffort,
+      model: model || configManager.getDefaultModel()
     });
     
+    // Several samples with findings merged by agreement
+    if (samples && samples > 1) {
+      return await runSelfConsistentAnalysis(prompt, query, analysisType, {
+        model: model || configManager.getDefaultModel(),
+        maxTokens: maxTokens || configManager.getDefaultMaxTokens(),
+        temperature: temperature || configManager.getDefaultTemperature(),
+        logger,
+        onProgress,
+        cachedContext: useContextCache ? repoContent : undefined,
+        reasoningEffort,
+        provider,
+        signal,
+        samples,
+        samplingStrategy,
+        outputFormat
+      });
+    }
+    
+    // Schema-enforced JSON findings for machine consumption
+    if (outputFormat === 'json') {
+      return await runStructuredAnalysis(prompt, query, analysisType, {
+        model: model || configManager.getDefaultModel(),
+        maxTokens: maxTokens || configManager.getDefaultMaxTokens(),
+        temperature: temperature || configManager.getDefaultTemperature(),
+        logger,
+        onProgress,
+        cachedContext: useContextCache ? repoContent : undefined,
+        reasoningEffort,
+        provider,
+        signal
+      });
+    }
+    
     // Call Gemini
     logger.info("Calling Gemini with GitHub repository analysis prompt");
-    const geminiResponseText = await callGemini(prompt, {
+    const parsedResponse = await callGeminiParsed(prompt, {
       model: model || configManager.getDefaultModel(),
       maxTokens: maxTokens || configManager.getDefaultMaxTokens(),
       temperature: temperature || configManager.getDefaultTemperature(),
-      logger
+      logger,
+      onProgress,
+      cachedContext: useContextCache ? repoContent : undefined,
+      reasoningEffort,
+      provider,
+      signal
     });
     
     logger.info("Received response from Gemini");
     
-    // Parse the response for better handling
-    const parsedResponse = parseGeminiResponse(
-      { 
-        candidates: [{ 
-          content: { 
-            parts: [{ text: geminiResponseText }] 
-          },
-          finishReason: "STOP"
-        }]
-      }, 
-      {
-        includeUsageInfo: true,
-        logger
-      }
-    );
-    
     // Format response
     if (outputFormat) {
       return createStructuredOutput(parsedResponse, query, {
         includePrompt: false,
         includeMetadata: true,
-        outputFormat: outputFormat === 'json' ? 'json' : 'text',
+        outputFormat: 'text',
         logger
       }) as McpCallbackResponse;
     }
@@ -412,29 +534,31 @@ server.tool(
   {
     query: z.string().describe("Question or request about the repository"),
     directory: z.string().optional().describe("Path to the repository directory or GitHub URL (owner/repo)"),
-    model: z.string().optional().describe("Gemini model to use: gemini-1.5-pro, gemini-1.5-flash, gemini-1.0-pro, or gemini-1.0-pro-vision"),
+    model: z.string().optional().describe("Gemini model to use (see config://gemini/models for the available models)"),
     maxTokens: z.number().optional().describe("Maximum tokens for Gemini response"),
     temperature: z.number().min(0).max(1).optional().describe("Temperature for generation (0.0 to 1.0)"),
     reasoningEffort: z.enum(["low", "medium", "high"]).optional().describe("Depth of reasoning"),
+    provider: z.enum(["gemini", "vertex", "openai-compatible"]).optional().describe("LLM provider to use (defaults to the active profile's provider)"),
     outputFormat: z.enum(["text", "json", "markdown"]).optional().describe("Response output format"),
     analysisType: z.enum(["architecture", "security", "performance", "documentation", "testing", "comprehensive", "bug"]).optional().describe("Type of analysis to perform"),
     analysisLevel: z.enum(["overview", "component", "detail"]).optional().describe("Level of analysis in hierarchical approach"),
     component: z.string().optional().describe("Specific component to analyze in component/detail level"),
     previousAnalysisId: z.string().optional().describe("ID of previous analysis to build upon for component/detail level"),
-    branch: z.string().optional().describe("Branch to analyze when directory is a GitHub URL")
+    branch: z.string().optional().describe("Branch to analyze when directory is a GitHub URL"),
+    analysisMode: z.enum(["packed", "agentic"]).optional().describe("packed (default) sends a packaged repository; agentic lets Gemini read files itself through function calls"),
+    agentMaxTurns: z.number().int().min(1).max(50).optional().describe("Maximum function-calling turns in agentic mode (default 12)"),
+    agentTokenBudget: z.number().int().min(1000).optional().describe("Maximum total tokens across all turns in agentic mode (default 400000)"),
+    samples: z.number().int().min(1).max(8).optional().describe("Independent samples to draw (default 1); above 1, findings from all samples are merged and scored by how many agree"),
+    samplingStrategy: z.enum(["candidates", "parallel"]).optional().describe("How samples are drawn: candidates of one request (default for Gemini models) or parallel requests"),
+    baseRef: z.string().optional().describe("Git ref to compare against; only files changed since it are analyzed, including uncommitted and untracked changes unless headRef is set"),
+    headRef: z.string().optional().describe("Git ref whose changes from baseRef are analyzed instead of the working tree"),
+    includeDiff: z.boolean().optional().describe("With baseRef, also send the unified diff (default false)"),
+    includeImporters: z.boolean().optional().describe("With baseRef, also send files that directly import a changed file (default false)")
   },
-  async (args): Promise<McpCallbackResponse> => {
-    const { query, directory, model, maxTokens, temperature, reasoningEffort, outputFormat, analysisType, analysisLevel, component, previousAnalysisId, branch } = args;
-    // Check rate limit before processing
-    if (!checkRateLimit()) {
-      return {
-        content: [{ 
-          type: "text", 
-          text: "Rate limit exceeded. Please try again later." 
-        }],
-        isError: true
-      };
-    }
+  async (args, extra): Promise<McpCallbackResponse> => {
+    const { query, directory, model, maxTokens, temperature, reasoningEffort, provider, outputFormat, analysisType, analysisLevel, component, previousAnalysisId, branch, analysisMode, agentMaxTurns, agentTokenBudget, samples, samplingStrategy, baseRef, headRef, includeDiff, includeImporters } = args;
+    const onProgress = createProgressReporter(extra, logger);
+    const usageContext = { tool: "analyze-repository", repository: usageRepositoryLabel(directory) };
     
     try {
       // Check if directory looks like a GitHub URL
@@ -447,7 +571,7 @@ server.tool(
           logger.info(`Detected GitHub repository, delegating analysis: ${repoInfo.owner}/${repoInfo.repo}`);
           
           // Replace server.callInternalTool with direct function call
-          return await _handleAnalyzeGithubRepository({
+          return await withUsageContext(usageContext, () => _handleAnalyzeGithubRepository({
             repository: directory,
             query,
             branch: branch || repoInfo.branch,
@@ -456,9 +580,12 @@ server.tool(
             maxTokens,
             temperature,
             reasoningEffort,
+            provider,
             outputFormat,
-            analysisType
-          }, configManager, logger);
+            analysisType,
+            samples,
+            samplingStrategy
+          }, configManager, logger, onProgress, extra.signal));
 
         } catch (error) {
           // Not a GitHub repo, continue with local analysis
@@ -479,29 +606,38 @@ server.tool(
         }
       }
 
-      return await enhancedRepositoryAnalysis({
+      return await withUsageContext(usageContext, () => enhancedRepositoryAnalysis({
         query,
         directory,
         model: model || configManager.getDefaultModel(),
         maxTokens: maxTokens || configManager.getDefaultMaxTokens(),
         temperature: temperature || configManager.getDefaultTemperature(),
         reasoningEffort,
+        provider,
         outputFormat,
         analysisType,
         analysisLevel,
         component,
         previousAnalysis,
         logger,
+        onProgress,
+        signal: extra.signal,
         includeStructure: true,
         includeImports: true,
-        smartFiltering: true
-      } as RepositoryAnalysisOptions);
+        smartFiltering: true,
+        analysisMode,
+        agentMaxTurns,
+        agentTokenBudget,
+        samples,
+        samplingStrategy,
+        baseRef,
+        headRef,
+        includeDiff,
+        includeImporters
+      } as RepositoryAnalysisOptions));
     } catch (error) {
       logErrorDetails(error, logger);
       return formatErrorForResponse(error);
-    } finally {
-      // Always release the rate limit when done
-      releaseRateLimit();
     }
   }
 );
@@ -513,27 +649,19 @@ server.tool(
     query: z.string().describe("Question or request about the files"),
     files: z.array(z.string()).describe("List of file paths to analyze"),
     directory: z.string().optional().describe("Base directory for the files (defaults to current directory)"),
-    model: z.string().optional().describe("Gemini model to use: gemini-1.5-pro, gemini-1.5-flash, gemini-1.0-pro, or gemini-1.0-pro-vision"),
+    model: z.string().optional().describe("Gemini model to use (see config://gemini/models for the available models)"),
     maxTokens: z.number().optional().describe("Maximum tokens for Gemini response"),
     temperature: z.number().min(0).max(1).optional().describe("Temperature for generation (0.0 to 1.0)"),
     reasoningEffort: z.enum(["low", "medium", "high"]).optional().describe("Depth of reasoning"),
-    outputFormat: z.enum(["text", "json", "markdown"]).optional().describe("Response output format")
+    provider: z.enum(["gemini", "vertex", "openai-compatible"]).optional().describe("LLM provider to use (defaults to the active profile's provider)"),
+    outputFormat: z.enum(["text", "json", "markdown"]).optional().describe("Response output format"),
+    samples: z.number().int().min(1).max(8).optional().describe("Independent samples to draw (default 1); above 1, findings from all samples are merged and scored by how many agree"),
+    samplingStrategy: z.enum(["candidates", "parallel"]).optional().describe("How samples are drawn: candidates of one request (default for Gemini models) or parallel requests")
   },
-  async ({ query, files, directory, model, maxTokens, temperature, reasoningEffort, outputFormat }): Promise<McpCallbackResponse> => {
-    // Check rate limit before processing
-    if (!checkRateLimit()) {
-      return {
-        content: [{ 
-          type: "text", 
-          text: "Rate limit exceeded. Please try again later." 
-        }],
-        isError: true
-      };
-    }
-    
+  async ({ query, files, directory, model, maxTokens, temperature, reasoningEffort, provider, outputFormat, samples, samplingStrategy }, extra): Promise<McpCallbackResponse> => {
     try {
       // Use imported type for enhancedFileAnalysis options
-      return await enhancedFileAnalysis({
+      return await withUsageContext({ tool: "analyze-files", repository: usageRepositoryLabel(directory) }, () => enhancedFileAnalysis({
         query,
         files,
         directory,
@@ -541,15 +669,17 @@ server.tool(
         maxTokens: maxTokens || configManager.getDefaultMaxTokens(),
         temperature: temperature || configManager.getDefaultTemperature(),
         reasoningEffort,
+        provider,
         outputFormat,
-        logger
-      } as FileAnalysisOptions);
+        samples,
+        samplingStrategy,
+        logger,
+        onProgress: createProgressReporter(extra, logger),
+        signal: extra.signal
+      } as FileAnalysisOptions));
     } catch (error) {
       logErrorDetails(error, logger);
       return formatErrorForResponse(error);
-    } finally {
-      // Always release the rate limit when done
-      releaseRateLimit();
     }
   }
 );
@@ -566,27 +696,18 @@ server.tool(
     maxTokens: z.number().optional().describe("Maximum tokens for Gemini response"),
     temperature: z.number().min(0).max(1).optional().describe("Temperature for generation (0.0 to 1.0)"),
     reasoningEffort: z.enum(["low", "medium", "high"]).optional().describe("Depth of reasoning"),
+    provider: z.enum(["gemini", "vertex", "openai-compatible"]).optional().describe("LLM provider to use (defaults to the active profile's provider)"),
     outputFormat: z.enum(["text", "json", "markdown"]).optional().describe("Response output format"),
-    analysisType: z.enum(["architecture", "security", "performance", "documentation", "testing", "comprehensive", "bug"]).optional().describe("Type of analysis to perform")
+    analysisType: z.enum(["architecture", "security", "performance", "documentation", "testing", "comprehensive", "bug"]).optional().describe("Type of analysis to perform"),
+    samples: z.number().int().min(1).max(8).optional().describe("Independent samples to draw (default 1); above 1, findings from all samples are merged and scored by how many agree"),
+    samplingStrategy: z.enum(["candidates", "parallel"]).optional().describe("How samples are drawn: candidates of one request (default for Gemini models) or parallel requests")
   },
   // Call the shared function directly
-  async (args): Promise<McpCallbackResponse> => {
-    // Check rate limit before processing
-    if (!checkRateLimit()) {
-      return {
-        content: [{ 
-          type: "text", 
-          text: "Rate limit exceeded. Please try again later." 
-        }],
-        isError: true
-      };
-    }
-    try {
-        return await _handleAnalyzeGithubRepository(args, configManager, logger);
-    } finally {
-        // Always release the rate limit when done
-        releaseRateLimit();
-    }    
+  async (args, extra): Promise<McpCallbackResponse> => {
+    return await withUsageContext(
+      { tool: "analyze-github-repository", repository: usageRepositoryLabel(args.repository) },
+      () => _handleAnalyzeGithubRepository(args, configManager, logger, createProgressReporter(extra, logger), extra.signal)
+    );
   }
 );
 
@@ -603,6 +724,16 @@ server.tool(
       const tempTest = await fs.mkdtemp(path.join(os.tmpdir(), 'health-check-'));
       await fs.rmdir(tempTest);
       
+      const provider = configManager.getProvider();
+      if (provider !== 'gemini') {
+        return isLlmProviderConfigured(provider, logger)
+          ? { content: [{ type: "text", text: `Gemini Bridge is healthy and running! All systems operational.\nProvider: ${provider}` }] }
+          : {
+              content: [{ type: "text", text: `Warning: the ${provider} provider is not configured. Check the active profile's settings.` }],
+              isError: true
+            };
+      }
+      
       // Check if API key is available (but don't validate it completely for performance)
       if (!GEMINI_API_KEY) {
         return {
@@ -614,10 +745,25 @@ server.tool(
         };
       }
       
+      // Resolve credentials so we can report where they came from
+      let credentialInfo: string;
+      try {
+        const { source, sourceDetail } = await getGeminiCredentialSource(logger);
+        credentialInfo = `Credential source: ${source}${sourceDetail ? ` (${sourceDetail})` : ''}`;
+      } catch (error) {
+        return {
+          content: [{ 
+            type: "text", 
+            text: `Warning: Gemini credentials could not be resolved: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+      
       return {
         content: [{ 
           type: "text", 
-          text: "Gemini Bridge is healthy and running! All systems operational." 
+          text: `Gemini Bridge is healthy and running! All systems operational.\n${credentialInfo}` 
         }]
       };
     } catch (error) {
@@ -638,64 +784,56 @@ server.tool(
   "chat-with-gemini",
   {
     prompt: z.string().describe("The message or question to send to Gemini"),
-    model: z.string().optional().describe("Gemini model to use: gemini-1.5-pro, gemini-1.5-flash, gemini-1.0-pro, or gemini-1.0-pro-vision"),
+    model: z.string().optional().describe("Gemini model to use (see config://gemini/models for the available models)"),
     maxTokens: z.number().optional().describe("Maximum tokens for Gemini response"),
-    temperature: z.number().min(0).max(1).optional().describe("Temperature for generation (0.0 to 1.0)")
+    temperature: z.number().min(0).max(1).optional().describe("Temperature for generation (0.0 to 1.0)"),
+    sessionId: z.string().optional().describe("Conversation ID; earlier turns of this session are sent to Gemini as context"),
+    provider: z.enum(["gemini", "vertex", "openai-compatible"]).optional().describe("LLM provider to use (defaults to the active profile's provider)")
   },
-  async ({ prompt, model, maxTokens, temperature }): Promise<McpCallbackResponse> => {
-    // Check rate limit before processing
-    if (!checkRateLimit()) {
-      return {
-        content: [{
-          type: "text",
-          text: "Rate limit exceeded. Please try again later."
-        }],
-        isError: true
-      };
-    }
-
+  async ({ prompt, model, maxTokens, temperature, sessionId, provider }, extra): Promise<McpCallbackResponse> => {
     try {
       // Normalize model selection
       const selectedModel = model || configManager.getDefaultModel();
       
-      // Validate model selection
+      // OpenAI-compatible servers take their own model names; the default Gemini model then sets the history window
+      const usesGeminiModels = getLlmProvider(provider, logger).usesGeminiModels || isKnownModel(selectedModel);
+      
+      // Validate model selection against the model registry
+      let modelConfig;
       try {
-        const modelConfig = getModelConfig(selectedModel);
-        logger.info(`Gemini chat requested using ${modelConfig.displayName}`, { promptLength: prompt.length });
+        modelConfig = await validateModel(usesGeminiModels ? selectedModel : configManager.getDefaultModel(), logger);
+        logger.info(`Gemini chat requested using ${modelConfig.displayName}`, { promptLength: prompt.length, sessionId });
       } catch (error) {
         return {
           content: [{
             type: "text",
-            text: `Error: Invalid model '${selectedModel}'. Available models: ${getAvailableModels().map(m => m.id).join(', ')}`
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`
           }],
           isError: true
         };
       }
 
+      // Replay earlier turns of the session, trimmed to the model's input window
+      const history = sessionId
+        ? getChatHistory(sessionId, modelConfig.maxInputTokens, prompt, selectedModel)
+        : [];
+
       // Call Gemini directly with the user's prompt
-      const geminiResponseText = await callGemini(prompt, {
+      const parsedResponse = await withUsageContext({ tool: "chat-with-gemini" }, () => callGeminiParsed(prompt, {
         model: selectedModel,
         maxTokens: maxTokens || configManager.getDefaultMaxTokens(),
         temperature: temperature || configManager.getDefaultTemperature(),
-        logger
-      });
-      logger.info("Received chat response from Gemini");
+        logger,
+        onProgress: createProgressReporter(extra, logger),
+        history,
+        provider,
+        signal: extra.signal
+      }));
+      logger.info("Received chat response from Gemini", { historyTurns: history.length });
 
-      // Parse the response for better handling
-      const parsedResponse = parseGeminiResponse(
-        { 
-          candidates: [{ 
-            content: { 
-              parts: [{ text: geminiResponseText }] 
-            },
-            finishReason: "STOP"
-          }]
-        }, 
-        {
-          includeUsageInfo: true,
-          logger
-        }
-      );
+      if (sessionId) {
+        appendChatExchange(sessionId, prompt, parsedResponse.text, selectedModel, modelConfig.maxInputTokens, logger);
+      }
 
       // Format for MCP
       return formatResponseForMCP(parsedResponse, {
@@ -706,9 +844,111 @@ server.tool(
     } catch (error: any) {
       logErrorDetails(error, logger);
       return formatErrorForResponse(error);
-    } finally {
-      // Always release the rate limit when done
-      releaseRateLimit();
+    }
+  }
+);
+
+// List stored chat sessions
+server.tool(
+  "list-chat-sessions",
+  {},
+  async (): Promise<McpCallbackResponse> => {
+    const sessions = listChatSessions();
+    
+    if (sessions.length === 0) {
+      return {
+        content: [{ type: "text", text: "No chat sessions stored." }]
+      };
+    }
+    
+    const lines = sessions.map(session => 
+      `- ${session.id}: ${session.turns} turns (~${session.estimatedTokens} tokens), model ${session.model}, last used ${session.updatedAt}`
+    );
+    
+    return {
+      content: [{ type: "text", text: `Chat sessions:\n${lines.join('\n')}` }]
+    };
+  }
+);
+
+// Clear the history of a chat session
+server.tool(
+  "reset-chat-session",
+  {
+    sessionId: z.string().describe("ID of the chat session to reset")
+  },
+  async ({ sessionId }): Promise<McpCallbackResponse> => {
+    const removed = resetChatSession(sessionId);
+    
+    return {
+      content: [{
+        type: "text",
+        text: removed ? `Chat session '${sessionId}' has been reset.` : `Chat session '${sessionId}' not found.`
+      }],
+      isError: !removed
+    };
+  }
+);
+
+// Export the transcript of a chat session
+server.tool(
+  "export-chat-session",
+  {
+    sessionId: z.string().describe("ID of the chat session to export"),
+    format: z.enum(["markdown", "json"]).optional().default("markdown").describe("Transcript format")
+  },
+  async ({ sessionId, format }): Promise<McpCallbackResponse> => {
+    try {
+      return {
+        content: [{ type: "text", text: exportChatSession(sessionId, format) }]
+      };
+    } catch (error) {
+      logErrorDetails(error, logger);
+      return formatErrorForResponse(error);
+    }
+  }
+);
+
+// Query spend recorded in the usage ledger
+server.tool(
+  "query-usage",
+  {
+    groupBy: z.enum(["day", "month", "model", "repository", "tool", "profile"]).optional().default("day").describe("How to group the spend"),
+    since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("First UTC day to include (YYYY-MM-DD)"),
+    until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("Last UTC day to include (YYYY-MM-DD)"),
+    model: z.string().optional().describe("Only include requests to this model"),
+    repository: z.string().optional().describe("Only include requests for this repository (owner/repo or local path)"),
+    tool: z.string().optional().describe("Only include requests made by this tool"),
+    profile: z.string().optional().describe("Only include requests made under this profile")
+  },
+  async (query): Promise<McpCallbackResponse> => {
+    try {
+      const { rows, totals } = await querySpend(query, logger);
+      
+      if (totals.requests === 0) {
+        return {
+          content: [{ type: "text", text: "No usage recorded for this query." }]
+        };
+      }
+      
+      const lines = rows.map(row =>
+        `- ${row.key}: $${row.costUsd.toFixed(4)}, ${row.requests} requests, ${row.inputTokens} input tokens ` +
+        `(${row.cachedInputTokens} cached), ${row.outputTokens} output tokens`
+      );
+      const unpriced = totals.unpricedRequests > 0
+        ? `\n${totals.unpricedRequests} requests went to models without a known price and are counted at $0.`
+        : '';
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Spend by ${query.groupBy}:\n${lines.join('\n')}\n\n` +
+            `Total: $${totals.costUsd.toFixed(4)} across ${totals.requests} requests${unpriced}`
+        }]
+      };
+    } catch (error) {
+      logErrorDetails(error, logger);
+      return formatErrorForResponse(error);
     }
   }
 );
@@ -731,8 +971,8 @@ server.tool(
       
       if (defaultModel !== undefined) {
         try {
-          // Validate the model
-          getModelConfig(defaultModel);
+          // Validate the model against the model registry
+          await validateModel(defaultModel, logger);
           await configManager.setDefaultModel(defaultModel);
           updated = true;
           changes.push(`Default model set to ${defaultModel}`);
@@ -740,7 +980,7 @@ server.tool(
           return {
             content: [{
               type: "text", 
-              text: `Error: Invalid model '${defaultModel}'. Available models: ${getAvailableModels().map(m => m.id).join(', ')}`
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`
             }],
             isError: true
           };
@@ -868,6 +1108,45 @@ server.tool(
               case "defaultMaxTokens":
                 await configManager.setDefaultMaxTokens(value as number);
                 break;
+              case "fallbackModels":
+                await configManager.setFallbackModels(value as string[]);
+                break;
+              case "maxContinuations":
+                await configManager.setMaxContinuations(value as number);
+                break;
+              case "safetySettings":
+                await configManager.setSafetySettings(value as GeminiSafetySetting[]);
+                break;
+              case "contextCacheTtlSeconds":
+                await configManager.setContextCacheTtl(value as number);
+                break;
+              case "includeThoughts":
+                await configManager.setIncludeThoughts(value as boolean);
+                break;
+              case "provider":
+                await configManager.setProvider(value as ProviderName);
+                break;
+              case "vertex":
+                await configManager.setVertexSettings(value as VertexProviderSettings);
+                break;
+              case "openaiCompatible":
+                await configManager.setOpenAICompatibleSettings(value as OpenAICompatibleProviderSettings);
+                break;
+              case "cassettes":
+                await configManager.setCassetteSettings(value as CassetteSettings);
+                break;
+              case "rateLimits":
+                await configManager.setRateLimitSettings(value as RateLimitSettings);
+                break;
+              case "spend":
+                await configManager.setSpendSettings(value as SpendSettings);
+                break;
+              case "repomixMcp":
+                await configManager.setRepomixMcpSettings(value as RepomixMcpSettings);
+                break;
+              case "packagingCache":
+                await configManager.setPackagingCacheSettings(value as PackagingCacheSettings);
+                break;
               default:
                 logger.warn(`Unknown setting: ${key}`);
             }
@@ -1066,9 +1345,13 @@ const TOOL_DESCRIPTIONS = {
   analyzeGithubRepository: "Directly analyze GitHub repositories by URL or owner/repo format. Provides detailed code insights with support for branch selection and subdirectory focusing. Includes repository metadata and contextual analysis.",
   analyzeFiles: "Analyze specific files with enhanced context understanding. Perfect for examining code snippets, configuration files, or documentation with precise insights about implementation, patterns, and relationships between files.",
   chatWithGemini: "Send messages directly to Gemini models with control over response generation. Supports multiple models with customizable parameters for temperature and token length.",
+  listChatSessions: "List stored chat sessions with their number of turns, estimated token size, model and time of last use.",
+  resetChatSession: "Clear the history of a chat session so the next message to it starts a fresh conversation.",
+  exportChatSession: "Export the transcript of a chat session as Markdown or JSON, with the session model and the timestamp of each turn.",
   configureGemini: "Set default parameters for all Gemini operations. Configure model selection, response creativity (temperature), and maximum response length to customize your experience across all tools.",
   manageConfiguration: "Comprehensive configuration management with reusable profiles. Create, update, switch between profiles, and manage GitHub integration settings for different use cases and environments.",
-  healthCheck: "Verify that the Gemini Bridge service is operational. Checks API connectivity, configuration, and system resources to ensure proper functioning."
+  healthCheck: "Verify that the Gemini Bridge service is operational. Checks API connectivity, configuration, and system resources to ensure proper functioning.",
+  queryUsage: "Report tokens and estimated spend recorded in the usage ledger. Group by day, month, model, repository, tool or profile, and filter by date range or any of those fields."
 };
 
 // Add resources/list method to support MCP protocol
@@ -1131,6 +1414,18 @@ server.resource("schema", "schema://metadata", async () => {
               })),
               configResource: "config://gemini/models"
             },
+            {
+              name: "list-chat-sessions",
+              description: TOOL_DESCRIPTIONS.listChatSessions
+            },
+            {
+              name: "reset-chat-session",
+              description: TOOL_DESCRIPTIONS.resetChatSession
+            },
+            {
+              name: "export-chat-session",
+              description: TOOL_DESCRIPTIONS.exportChatSession
+            },
             {
               name: "configure-gemini",
               description: TOOL_DESCRIPTIONS.configureGemini
@@ -1143,6 +1438,11 @@ server.resource("schema", "schema://metadata", async () => {
             {
               name: "health-check",
               description: TOOL_DESCRIPTIONS.healthCheck
+            },
+            {
+              name: "query-usage",
+              description: TOOL_DESCRIPTIONS.queryUsage,
+              configResource: "usage://spend"
             }
           ],
           resources: [
@@ -1157,6 +1457,14 @@ server.resource("schema", "schema://metadata", async () => {
             {
               name: "config://gemini-claude/profile/{profile}",
               description: "Configuration profiles"
+            },
+            {
+              name: "usage://rate-limits",
+              description: "Rate limit quotas, current usage and queues per provider and model"
+            },
+            {
+              name: "usage://spend",
+              description: "Budgets, today's spend, this month's spend by model and the last 30 days by day"
             }
           ]
         })
@@ -1212,10 +1520,16 @@ async function runServer() {
     logger.info(`Active configuration profile: ${configManager.getActiveProfile()}`);
     
     // Validate API key but don't use it yet
-    if (!GEMINI_API_KEY) {
+    logger.info(`LLM provider: ${configManager.getProvider()}`);
+    if (!GEMINI_API_KEY && requiresGeminiApiKey) {
       throw new ApiKeyMissingError("GEMINI_API_KEY is not defined");
     }
     
+    const cassettes = configManager.getCassetteSettings();
+    if (cassettes.mode !== 'off') {
+      logger.info(`Cassette ${cassettes.mode} mode: ${cassettes.directory}`);
+    }
+    
     // Check GitHub token if available
     const githubConfig = configManager.getGitHubConfig();
     if (githubConfig?.auth?.token) {
@@ -1227,13 +1541,18 @@ async function runServer() {
     }
     
     // Display key type without revealing the key
-    const keyType = GEMINI_API_KEY.endsWith('.json') 
-      ? 'JSON Service Account' 
-      : GEMINI_API_KEY.toLowerCase() === 'adc'
-      ? 'Application Default Credentials'
-      : 'API Key';
+    if (GEMINI_API_KEY) {
+      const keyType = GEMINI_API_KEY.endsWith('.json') 
+        ? 'JSON Service Account' 
+        : GEMINI_API_KEY.toLowerCase() === 'adc'
+        ? 'Application Default Credentials'
+        : 'API Key';
+      
+      logger.info(`Using Gemini authentication type: ${keyType}`);
+    }
     
-    logger.info(`Using Gemini authentication type: ${keyType}`);
+    // Load discovered models; refreshes from models.list in the background when stale
+    initializeModelRegistry(logger);
     
     // Create the transport and connect
     const transport = new StdioServerTransport();
@@ -1244,7 +1563,7 @@ async function runServer() {
     logger.info("Enhanced Gemini Bridge MCP Server running on stdio");
     
     // Display all available options
-    logger.info(`Available tools: analyze-repository, analyze-github-repository, analyze-files, chat-with-gemini, configure-gemini, manage-configuration, health-check`);
+    logger.info(`Available tools: analyze-repository, analyze-github-repository, analyze-files, chat-with-gemini, list-chat-sessions, reset-chat-session, export-chat-session, query-usage, configure-gemini, manage-configuration, health-check`);
     logger.info(`Available Gemini models: ${getAvailableModels().map(m => m.id).join(', ')}`);
     logger.info(`Default model: ${configManager.getDefaultModel()}`);
     logger.info(`Available configuration profiles: ${Object.keys(configManager.getProfiles()).join(', ')}`);
@@ -1259,11 +1578,13 @@ async function runServer() {
 // Set up graceful shutdown
 process.on('SIGINT', () => {
   logger.info('Received SIGINT, shutting down gracefully');
+  stopAllProcesses();
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
   logger.info('Received SIGTERM, shutting down gracefully');
+  stopAllProcesses();
   process.exit(0);
 });
 
@@ -0,0 +1,96 @@
+/**
+ * LLM provider abstraction
+ * callGemini and the analysis tools send generate, stream and countTokens requests through a
+ * provider, so the same prompts can be served by the Gemini API, Vertex AI or an
+ * OpenAI-compatible server. The provider is chosen per profile or per call.
+ */
+import { ConfigurationError } from './errors.js';
+import { GeminiFunctionDeclaration, GeminiOptions, Logger, ProviderName } from './types.js';
+import { GeminiContent, GeminiResponse } from './response-handler.js';
+import { geminiApiProvider } from './gemini-api.js';
+import { createVertexProvider } from './vertex-provider.js';
+import { createOpenAICompatibleProvider } from './openai-compatible-provider.js';
+import { getConfigManager } from './config-manager.js';
+
+/**
+ * A backend able to answer prompts
+ * Responses are normalized to the Gemini response shape so parsing, continuation and
+ * metadata work the same for every provider.
+ */
+export interface LlmProvider {
+  readonly name: ProviderName;
+  readonly usesGeminiModels: boolean;        // Serves Gemini model IDs, so fallback chains apply
+  readonly supportsContextCaching: boolean;  // Accepts cachedContents references
+
+  /**
+   * Whether credentials and settings for the provider are present
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Model a request will be served by, for rate limiting and usage records
+   */
+  resolveModel(options: GeminiOptions): string;
+
+  /**
+   * Generate a complete response
+   */
+  generate(prompt: string, options: GeminiOptions): Promise<GeminiResponse>;
+
+  /**
+   * Stream a response, relaying partial text through options.onProgress
+   */
+  stream(prompt: string, options: GeminiOptions): Promise<GeminiResponse>;
+
+  /**
+   * Count tokens for text (throws when the backend has no tokenizer endpoint)
+   */
+  countTokens(text: string, options: GeminiOptions): Promise<number>;
+
+  /**
+   * Generate with function tools; only providers that support Gemini function calling implement this
+   */
+  generateWithTools?(
+    contents: GeminiContent[],
+    functionDeclarations: GeminiFunctionDeclaration[],
+    toolMode: 'AUTO' | 'NONE',
+    options: GeminiOptions
+  ): Promise<GeminiResponse>;
+}
+
+/**
+ * Get a provider by name, or the active profile's provider
+ */
+export function getLlmProvider(name?: ProviderName, logger?: Logger): LlmProvider {
+  const configManager = getConfigManager(logger);
+  const providerName = name || configManager.getProvider();
+
+  switch (providerName) {
+    case 'gemini':
+      return geminiApiProvider;
+    case 'vertex':
+      return createVertexProvider(configManager.getVertexSettings());
+    case 'openai-compatible': {
+      const settings = configManager.getOpenAICompatibleSettings();
+      if (!settings) {
+        throw new ConfigurationError(
+          "The openai-compatible provider needs openaiCompatible settings ({ baseUrl, model }) in the active profile"
+        );
+      }
+      return createOpenAICompatibleProvider(settings);
+    }
+    default:
+      throw new ConfigurationError(`Unknown LLM provider: ${providerName}`);
+  }
+}
+
+/**
+ * Whether the provider can be called, without throwing for missing settings
+ */
+export function isLlmProviderConfigured(name?: ProviderName, logger?: Logger): boolean {
+  try {
+    return getLlmProvider(name, logger).isConfigured();
+  } catch {
+    return false;
+  }
+}
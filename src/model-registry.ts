@@ -0,0 +1,193 @@
+/**
+ * Dynamic Gemini model registry
+ * Discovers models from the models.list endpoint, persists them to the config directory
+ * and merges them with the static table in gemini-config.ts.
+ */
+import { existsSync, readFileSync } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { callGeminiListModels, GeminiApiModel } from './gemini-api.js';
+import { getConfigManager } from './config-manager.js';
+import {
+  DEFAULT_THINKING_BUDGETS,
+  GEMINI_MODELS,
+  getAllModelConfigs,
+  getAvailableModels,
+  isKnownModel,
+  setDiscoveredModels
+} from './gemini-config.js';
+import { ModelError } from './errors.js';
+import { GeminiModelConfig, Logger } from './types.js';
+
+// File name of the persisted registry inside the config directory
+const REGISTRY_FILE = 'models.json';
+
+// Persisted registries older than this are refreshed in the background
+const REGISTRY_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Minimum time between refreshes triggered by unknown model IDs
+const MIN_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Contents of the persisted registry file
+ */
+interface PersistedModelRegistry {
+  fetchedAt: string;
+  models: GeminiModelConfig[];
+}
+
+let lastFetchedAt: string | null = null;
+let lastRefreshAttempt = 0;
+let pendingRefresh: Promise<GeminiModelConfig[]> | null = null;
+
+/**
+ * Path of the persisted registry file
+ */
+function getRegistryPath(logger?: Logger): string {
+  return path.join(getConfigManager(logger).getConfigDirectory(), REGISTRY_FILE);
+}
+
+/**
+ * Convert a models.list entry into a model configuration
+ */
+function toModelConfig(model: GeminiApiModel): GeminiModelConfig {
+  const id = model.name.replace(/^models\//, '');
+  const maxInputTokens = model.inputTokenLimit || 0;
+  const maxOutputTokens = model.outputTokenLimit || 0;
+
+  return {
+    id,
+    displayName: model.displayName || id,
+    maxInputTokens,
+    maxOutputTokens,
+    description: model.description || '',
+    contextWindow: maxInputTokens + maxOutputTokens,
+    defaultTemp: model.temperature ?? 0.7,
+    isPreview: /preview|exp/i.test(id) || undefined,
+    supportedMethods: model.supportedGenerationMethods || [],
+    ...(model.thinking ? { thinkingBudgets: DEFAULT_THINKING_BUDGETS } : {})
+  };
+}
+
+/**
+ * Load the persisted registry from the config directory, if present
+ */
+export function loadPersistedModelRegistry(logger?: Logger): boolean {
+  const registryPath = getRegistryPath(logger);
+  if (!existsSync(registryPath)) {
+    return false;
+  }
+
+  try {
+    const persisted = JSON.parse(readFileSync(registryPath, 'utf-8')) as PersistedModelRegistry;
+    setDiscoveredModels(persisted.models || []);
+    lastFetchedAt = persisted.fetchedAt || null;
+    logger?.debug(`Loaded ${persisted.models?.length || 0} models from ${registryPath}`);
+    return true;
+  } catch (error) {
+    logger?.warn(`Ignoring unreadable model registry at ${registryPath}: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * Fetch the model list from the API, persist it and update the registry
+ * Concurrent callers share a single request.
+ */
+export async function refreshModelRegistry(logger?: Logger): Promise<GeminiModelConfig[]> {
+  if (pendingRefresh) {
+    return pendingRefresh;
+  }
+
+  lastRefreshAttempt = Date.now();
+
+  pendingRefresh = (async () => {
+    const apiModels = await callGeminiListModels({ logger });
+    const models = apiModels
+      .filter(model => model.supportedGenerationMethods?.includes('generateContent'))
+      .map(toModelConfig);
+
+    setDiscoveredModels(models);
+    lastFetchedAt = new Date().toISOString();
+
+    const registryPath = getRegistryPath(logger);
+    const persisted: PersistedModelRegistry = { fetchedAt: lastFetchedAt, models };
+    await fs.mkdir(path.dirname(registryPath), { recursive: true });
+    await fs.writeFile(registryPath, JSON.stringify(persisted, null, 2), 'utf-8');
+
+    logger?.info(`Discovered ${models.length} Gemini models; saved registry to ${registryPath}`);
+    return models;
+  })();
+
+  try {
+    return await pendingRefresh;
+  } finally {
+    pendingRefresh = null;
+  }
+}
+
+/**
+ * Load the persisted registry and refresh it in the background when missing or stale
+ */
+export function initializeModelRegistry(logger?: Logger): void {
+  const loaded = loadPersistedModelRegistry(logger);
+  const age = lastFetchedAt ? Date.now() - new Date(lastFetchedAt).getTime() : Infinity;
+
+  if (!loaded || age > REGISTRY_MAX_AGE_MS) {
+    refreshModelRegistry(logger).catch(error => {
+      logger?.warn(`Could not refresh model registry, using static models: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+}
+
+/**
+ * Resolve a model ID against the registry
+ * Unknown IDs trigger one refresh (rate limited) before being rejected.
+ */
+export async function validateModel(modelId: string, logger?: Logger): Promise<GeminiModelConfig> {
+  if (!isKnownModel(modelId) && Date.now() - lastRefreshAttempt > MIN_REFRESH_INTERVAL_MS) {
+    try {
+      await refreshModelRegistry(logger);
+    } catch (error) {
+      logger?.warn(`Model registry refresh failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const config = getAllModelConfigs()[modelId];
+  if (!config) {
+    throw new ModelError(
+      `Invalid model '${modelId}'. Available models: ${getAvailableModels().map(m => m.id).join(', ')}`,
+      modelId
+    );
+  }
+
+  if (config.supportedMethods && config.supportedMethods.length > 0 && !config.supportedMethods.includes('generateContent')) {
+    throw new ModelError(`Model '${modelId}' does not support generateContent`, modelId);
+  }
+
+  return config;
+}
+
+/**
+ * Describe the registry for the config://gemini/models resource
+ */
+export function getModelRegistrySnapshot(): {
+  fetchedAt: string | null;
+  models: Array<GeminiModelConfig & { source: 'api' | 'static' | 'api+static' }>;
+} {
+  const discoveredIds = new Set(
+    Object.keys(getAllModelConfigs()).filter(id => !GEMINI_MODELS[id])
+  );
+
+  return {
+    fetchedAt: lastFetchedAt,
+    models: Object.values(getAllModelConfigs()).map(model => ({
+      ...model,
+      source: discoveredIds.has(model.id)
+        ? 'api'
+        : model.supportedMethods
+        ? 'api+static'
+        : 'static'
+    }))
+  };
+}
@@ -0,0 +1,267 @@
+/**
+ * OpenAI-compatible provider
+ * Sends prompts to a /chat/completions endpoint (OpenAI, vLLM, llama.cpp, Ollama and similar
+ * servers) and converts the replies to the Gemini response shape used by the rest of the bridge.
+ */
+import { ContentBlockedError, NetworkError, createThrottlingError } from './errors.js';
+import { getConfigManager } from './config-manager.js';
+import { isKnownModel } from './gemini-config.js';
+import { LlmProvider } from './llm-provider.js';
+import { GeminiResponse, throwIfContentBlocked } from './response-handler.js';
+import { GeminiOptions, Logger, OpenAICompatibleProviderSettings } from './types.js';
+import { readServerSentEvents, throwIfCancelled } from './utils.js';
+
+/**
+ * Subset of a chat completion (or streamed chunk) read by this provider
+ */
+interface ChatCompletion {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null };
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+// OpenAI finish reasons mapped to their Gemini equivalents
+const FINISH_REASONS: Record<string, string> = {
+  stop: 'STOP',
+  length: 'MAX_TOKENS',
+  content_filter: 'SAFETY',
+  tool_calls: 'STOP',
+  function_call: 'STOP'
+};
+
+/**
+ * Pick the model to request: Gemini model IDs (the bridge defaults) map to the configured model
+ */
+function resolveModel(options: GeminiOptions, settings: OpenAICompatibleProviderSettings): string {
+  return options.model && !isKnownModel(options.model) ? options.model : settings.model;
+}
+
+/**
+ * Request headers, with the API key when the configured environment variable is set
+ */
+function buildHeaders(settings: OpenAICompatibleProviderSettings): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const apiKey = process.env[settings.apiKeyEnv || 'OPENAI_API_KEY'];
+
+  if (apiKey) {
+    headers["Authorization"] = `Bearer ${apiKey}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Build the chat completion request body
+ * Chat history is replayed with Gemini's 'model' role renamed to 'assistant'.
+ */
+function buildRequestBody(
+  prompt: string,
+  options: GeminiOptions,
+  settings: OpenAICompatibleProviderSettings,
+  logger: Logger,
+  stream: boolean
+): string {
+  const configManager = getConfigManager(logger);
+
+  const messages = [
+    ...(options.history || []).map(turn => ({
+      role: turn.role === 'model' ? 'assistant' : 'user',
+      content: turn.text
+    })),
+    { role: 'user', content: prompt }
+  ];
+
+  return JSON.stringify({
+    model: resolveModel(options, settings),
+    messages,
+    max_tokens: options.maxTokens || configManager.getDefaultMaxTokens(),
+    temperature: options.temperature || configManager.getDefaultTemperature(),
+    // Gemini response schemas are not portable; JSON mode is the common denominator
+    ...(options.responseMimeType === 'application/json' ? { response_format: { type: 'json_object' } } : {}),
+    ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+  });
+}
+
+/**
+ * Send a request and throw a NetworkError for non-2xx responses (a RateLimitError for 429/503)
+ */
+async function postToServer(
+  url: string,
+  body: string,
+  settings: OpenAICompatibleProviderSettings,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: buildHeaders(settings),
+    body,
+    signal
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    if (response.status === 429 || response.status === 503) {
+      throw createThrottlingError('OpenAI-compatible API', response.status, response.headers, errorText);
+    }
+    throw new NetworkError(`OpenAI-compatible API error (${response.status}): ${errorText}`, undefined, response.status);
+  }
+
+  return response;
+}
+
+/**
+ * Convert token usage to Gemini usageMetadata
+ */
+function toUsageMetadata(usage: ChatCompletion['usage']): GeminiResponse['usageMetadata'] {
+  if (!usage) {
+    return undefined;
+  }
+
+  return {
+    promptTokenCount: usage.prompt_tokens || 0,
+    candidatesTokenCount: usage.completion_tokens || 0,
+    totalTokenCount: usage.total_tokens || (usage.prompt_tokens || 0) + (usage.completion_tokens || 0)
+  };
+}
+
+/**
+ * Build a Gemini-shaped response from answer text and completion details
+ */
+function toGeminiResponse(
+  text: string,
+  finishReason: string | null | undefined,
+  model: string | undefined,
+  usage: ChatCompletion['usage']
+): GeminiResponse {
+  return {
+    candidates: [{
+      content: { role: 'model', parts: [{ text }] },
+      finishReason: (finishReason && FINISH_REASONS[finishReason]) || finishReason?.toUpperCase() || 'STOP'
+    }],
+    usageMetadata: toUsageMetadata(usage),
+    model
+  };
+}
+
+/**
+ * Rethrow known errors and wrap anything else in a NetworkError
+ */
+function wrapError(error: unknown, action: string, signal?: AbortSignal): never {
+  throwIfCancelled(signal);
+  if (error instanceof NetworkError || error instanceof ContentBlockedError) {
+    throw error;
+  }
+  throw new NetworkError(`Error ${action} OpenAI-compatible API: ${error instanceof Error ? error.message : String(error)}`, error);
+}
+
+/**
+ * Create a provider for an OpenAI-compatible server
+ */
+export function createOpenAICompatibleProvider(settings: OpenAICompatibleProviderSettings): LlmProvider {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  const completionsUrl = `${baseUrl}/chat/completions`;
+
+  return {
+    name: 'openai-compatible',
+    usesGeminiModels: false,
+    supportsContextCaching: false,
+
+    isConfigured: () => !!settings.baseUrl,
+
+    resolveModel: options => resolveModel(options, settings),
+
+    async generate(prompt, options) {
+      const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+      logger.debug(`Calling OpenAI-compatible API at ${baseUrl}`);
+
+      try {
+        const response = await postToServer(completionsUrl, buildRequestBody(prompt, options, settings, logger, false), settings, options.signal);
+        const data = await response.json() as ChatCompletion;
+        const choice = data.choices?.[0];
+
+        if (!choice) {
+          throw new NetworkError("No choices returned from OpenAI-compatible API");
+        }
+
+        const result = toGeminiResponse(choice.message?.content || '', choice.finish_reason, data.model, data.usage);
+        throwIfContentBlocked(result);
+        return result;
+      } catch (error) {
+        return wrapError(error, 'calling', options.signal);
+      }
+    },
+
+    async stream(prompt, options) {
+      const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+      logger.debug(`Streaming from OpenAI-compatible API at ${baseUrl}`);
+
+      try {
+        const response = await postToServer(completionsUrl, buildRequestBody(prompt, options, settings, logger, true), settings, options.signal);
+        if (!response.body) {
+          throw new NetworkError("OpenAI-compatible API returned an empty stream");
+        }
+
+        let text = '';
+        let finishReason: string | null | undefined;
+        let model: string | undefined;
+        let usage: ChatCompletion['usage'];
+
+        const chunkCount = await readServerSentEvents(response.body, async payload => {
+          const chunk = JSON.parse(payload) as ChatCompletion;
+          const choice = chunk.choices?.[0];
+
+          model = chunk.model || model;
+          usage = chunk.usage || usage;
+          finishReason = choice?.finish_reason || finishReason;
+
+          const delta = choice?.delta?.content || '';
+          text += delta;
+          if (delta && options.onProgress) {
+            await options.onProgress({ message: delta });
+          }
+        });
+
+        logger.debug(`Received ${chunkCount} streamed chunks from OpenAI-compatible API`);
+
+        if (chunkCount === 0) {
+          throw new NetworkError("No choices returned from OpenAI-compatible API");
+        }
+
+        const result = toGeminiResponse(text, finishReason, model, usage);
+        throwIfContentBlocked(result);
+        return result;
+      } catch (error) {
+        return wrapError(error, 'streaming from', options.signal);
+      }
+    },
+
+    /**
+     * Count tokens with the llama.cpp-style /tokenize endpoint at the server root
+     * Servers without it fail here and callers fall back to an estimate.
+     */
+    async countTokens(text, options) {
+      const tokenizeUrl = `${new URL(baseUrl).origin}/tokenize`;
+
+      try {
+        const response = await postToServer(tokenizeUrl, JSON.stringify({ content: text }), settings, options.signal);
+        const data = await response.json() as { tokens?: unknown[] };
+
+        if (!Array.isArray(data.tokens)) {
+          throw new NetworkError("tokenize response did not include tokens");
+        }
+
+        return data.tokens.length;
+      } catch (error) {
+        return wrapError(error, 'counting tokens with', options.signal);
+      }
+    }
+  };
+}
@@ -0,0 +1,496 @@
+/**
+ * Incremental packaging cache
+ * A packed output is split into its per-file sections, which are stored for each repository
+ * together with a manifest of every file's path, mtime, size and content hash. On later runs only
+ * files whose mtime or size changed are hashed again, files whose content changed are repacked
+ * on their own with the strategy that built the cache, and the output is reassembled from the
+ * stored sections. Added or removed files change the directory listing in the output header, so
+ * they trigger a full repack. The question asked is not part of the cache key: only the fallback
+ * packager orders and trims files by it, so a fallback cache is rebuilt when the question changes.
+ */
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getConfigManager } from './config-manager.js';
+import { RepositoryPackagingError } from './errors.js';
+import { countTokens } from './token-counter.js';
+import { Logger, PackageRepositoryOptions, PackageResult, PackagingStrategy } from './types.js';
+import { throwIfCancelled } from './utils.js';
+
+// Bumped when the manifest layout changes so older caches are rebuilt
+const MANIFEST_VERSION = 2;
+
+const MANIFEST_FILE = 'manifest.json';
+const SECTIONS_DIR = 'sections';
+
+// When more than this share of the packed files changed, a full repack is cheaper
+const MAX_REPACK_RATIO = 0.5;
+
+// Repomix settings in the repository root that change how files are rendered
+const REPOMIX_CONFIG_FILES = ['repomix.config.json'];
+
+// Start of a file section in XML output (Repomix and the fallback packager)
+const SECTION_START = /^<file path="([^"]*)">$/gm;
+const SECTION_END = '</file>';
+
+/**
+ * State of a repository file when the cache was last updated
+ */
+interface ManifestFile {
+  mtimeMs: number;
+  size: number;
+  hash: string;        // sha256 of the file content
+  packed: boolean;     // Whether the packed output has a section for the file
+}
+
+/**
+ * A file section of the packed output and the text that follows it
+ */
+interface SectionLayout {
+  path: string;
+  separator: string;
+}
+
+/**
+ * Cached packaging of one repository with one set of packaging options
+ */
+interface CacheManifest {
+  version: number;
+  repoDir: string;
+  strategy: PackagingStrategy;
+  query?: string;                // Question a fallback packing selected files for
+  analysisType?: string;
+  header: string;                // Output before the first section
+  footer: string;                // Output after the last section
+  sections: SectionLayout[];
+  files: Record<string, ManifestFile>;
+  result: PackageResult;
+  updatedAt: string;
+}
+
+/**
+ * Packed output split at its file sections
+ */
+interface PackedOutput {
+  header: string;
+  footer: string;
+  sections: Array<SectionLayout & { body: string }>;
+}
+
+/**
+ * Packaging callbacks supplied by enhancedPackageRepository
+ */
+export interface PackagingCacheCallbacks {
+  // Files that packaging may pick up, relative to the repository
+  listFiles: () => Promise<string[]>;
+  // Package the repository with the usual strategy order
+  packageAll: () => Promise<PackageResult>;
+  // Package a directory of copied files with one strategy
+  packageDirectory: (strategy: PackagingStrategy, dir: string, outputFile: string) => Promise<PackageResult>;
+}
+
+// Runs for the same cache directory are serialized
+const pendingRuns = new Map<string, Promise<unknown>>();
+
+/**
+ * Strategy that produced a packaging result
+ */
+function getStrategy(result: PackageResult): PackagingStrategy {
+  if (result.usedMcp) {
+    return 'mcp';
+  }
+  return result.usedCliWrapper ? 'cli' : 'fallback';
+}
+
+/**
+ * Directory of the cache for a repository and the options that affect its output
+ */
+function getCacheDirectory(repoDir: string, options: PackageRepositoryOptions, logger: Logger): string {
+  const key = createHash('sha256').update(JSON.stringify({
+    repoDir: path.resolve(repoDir),
+    include: options.include,
+    exclude: options.exclude,
+    componentPath: options.componentPath,
+    compress: options.compress,
+    maxTokens: options.maxTokens,
+    maxFileSize: options.maxFileSize
+  })).digest('hex').slice(0, 24);
+
+  return path.join(getConfigManager(logger).getPackagingCacheSettings().directory, key);
+}
+
+function getSectionFile(cacheDir: string, filePath: string): string {
+  return path.join(cacheDir, SECTIONS_DIR, `${createHash('sha256').update(filePath).digest('hex')}.txt`);
+}
+
+function normalizePath(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
+
+function decodeXmlAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Split packed output into header, file sections and footer
+ * A section ends at the last closing tag before the next section, so file content containing
+ * the tag itself is kept intact. Returns null for outputs without XML file sections.
+ */
+function splitPackedOutput(text: string): PackedOutput | null {
+  const starts = [...text.matchAll(SECTION_START)];
+  if (starts.length === 0) {
+    return null;
+  }
+
+  const filesEnd = text.lastIndexOf('</files>');
+  const sections: PackedOutput['sections'] = [];
+  let footer = '';
+
+  for (let i = 0; i < starts.length; i++) {
+    const start = starts[i].index!;
+    const isLast = i === starts.length - 1;
+    const limit = isLast ? (filesEnd > start ? filesEnd : text.length) : starts[i + 1].index!;
+    const close = text.lastIndexOf(SECTION_END, limit - SECTION_END.length);
+
+    if (close < start) {
+      return null;
+    }
+
+    const end = close + SECTION_END.length;
+    sections.push({
+      path: normalizePath(decodeXmlAttribute(starts[i][1])),
+      body: text.slice(start, end),
+      separator: isLast ? '' : text.slice(end, limit)
+    });
+
+    if (isLast) {
+      footer = text.slice(end);
+    }
+  }
+
+  return { header: text.slice(0, starts[0].index!), footer, sections };
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  return createHash('sha256').update(await fs.readFile(filePath)).digest('hex');
+}
+
+async function readManifest(cacheDir: string, logger: Logger): Promise<CacheManifest | null> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(path.join(cacheDir, MANIFEST_FILE), 'utf8')) as CacheManifest;
+    return manifest.version === MANIFEST_VERSION ? manifest : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.warn(`Ignoring unreadable packaging cache in ${cacheDir}`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Write the manifest through a temporary file so a crash never leaves a partial manifest
+ */
+async function writeManifest(cacheDir: string, manifest: CacheManifest): Promise<void> {
+  const manifestPath = path.join(cacheDir, MANIFEST_FILE);
+  await fs.writeFile(`${manifestPath}.tmp`, JSON.stringify(manifest), 'utf8');
+  await fs.rename(`${manifestPath}.tmp`, manifestPath);
+}
+
+/**
+ * Rebuild the packed output from stored sections
+ */
+async function assembleOutput(cacheDir: string, manifest: CacheManifest): Promise<string> {
+  const parts = [manifest.header];
+  for (const section of manifest.sections) {
+    parts.push(await fs.readFile(getSectionFile(cacheDir, section.path), 'utf8'), section.separator);
+  }
+  parts.push(manifest.footer);
+  return parts.join('');
+}
+
+/**
+ * Compare the repository with the manifest
+ * Files are hashed only when their mtime or size changed; entries whose content is unchanged
+ * get their new mtime so they are not hashed again.
+ */
+async function findChanges(
+  repoDir: string,
+  manifest: CacheManifest,
+  listedFiles: string[]
+): Promise<{ modified: string[]; added: string[]; removed: string[] }> {
+  const modified: string[] = [];
+  const removed: string[] = [];
+
+  for (const [filePath, entry] of Object.entries(manifest.files)) {
+    const fullPath = path.join(repoDir, filePath);
+    let stats;
+    try {
+      stats = await fs.stat(fullPath);
+    } catch {
+      removed.push(filePath);
+      continue;
+    }
+
+    if (stats.mtimeMs === entry.mtimeMs && stats.size === entry.size) {
+      continue;
+    }
+
+    const hash = await hashFile(fullPath);
+    if (hash !== entry.hash) {
+      modified.push(filePath);
+    }
+    manifest.files[filePath] = { ...entry, mtimeMs: stats.mtimeMs, size: stats.size, hash };
+  }
+
+  const added = listedFiles.filter(filePath => !manifest.files[filePath]);
+
+  return {
+    modified: modified.filter(filePath => manifest.files[filePath].packed),
+    added,
+    removed
+  };
+}
+
+/**
+ * Record the manifest entry of each listed or packed file
+ */
+async function buildFileEntries(
+  repoDir: string,
+  filePaths: string[],
+  packedPaths: Set<string>,
+  logger: Logger
+): Promise<Record<string, ManifestFile>> {
+  const files: Record<string, ManifestFile> = {};
+
+  for (const filePath of new Set([...filePaths, ...packedPaths])) {
+    try {
+      const fullPath = path.join(repoDir, filePath);
+      const stats = await fs.stat(fullPath);
+      files[filePath] = {
+        mtimeMs: stats.mtimeMs,
+        size: stats.size,
+        hash: await hashFile(fullPath),
+        packed: packedPaths.has(filePath)
+      };
+    } catch (error) {
+      logger.debug(`Could not record ${filePath} in the packaging cache`, error);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Replace the cache with a freshly packed output
+ */
+async function storePackedOutput(
+  cacheDir: string,
+  repoDir: string,
+  output: string,
+  result: PackageResult,
+  listedFiles: string[],
+  options: PackageRepositoryOptions,
+  logger: Logger
+): Promise<void> {
+  await fs.rm(cacheDir, { recursive: true, force: true });
+
+  const packed = splitPackedOutput(output);
+  if (!packed) {
+    logger.debug('Packed output has no file sections; not caching it');
+    return;
+  }
+
+  await fs.mkdir(path.join(cacheDir, SECTIONS_DIR), { recursive: true });
+  for (const section of packed.sections) {
+    await fs.writeFile(getSectionFile(cacheDir, section.path), section.body, 'utf8');
+  }
+
+  const packedPaths = new Set(packed.sections.map(section => section.path));
+  const strategy = getStrategy(result);
+  await writeManifest(cacheDir, {
+    version: MANIFEST_VERSION,
+    repoDir: path.resolve(repoDir),
+    strategy,
+    ...(strategy === 'fallback' ? { query: options.query, analysisType: options.analysisType } : {}),
+    header: packed.header,
+    footer: packed.footer,
+    sections: packed.sections.map(({ path: filePath, separator }) => ({ path: filePath, separator })),
+    files: await buildFileEntries(repoDir, listedFiles, packedPaths, logger),
+    result,
+    updatedAt: new Date().toISOString()
+  });
+
+  logger.debug(`Cached ${packed.sections.length} packed files in ${cacheDir}`);
+}
+
+/**
+ * Repack changed files with the strategy that built the cache and store their new sections
+ * The files are copied to a temporary directory that mirrors their paths, so every strategy
+ * packs exactly those files and renders them as it did for the whole repository.
+ */
+async function repackFiles(
+  cacheDir: string,
+  repoDir: string,
+  manifest: CacheManifest,
+  filePaths: string[],
+  callbacks: PackagingCacheCallbacks,
+  logger: Logger
+): Promise<void> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'packaging-cache-'));
+
+  try {
+    for (const filePath of [...filePaths, ...REPOMIX_CONFIG_FILES]) {
+      const target = path.join(tempDir, filePath);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.copyFile(path.join(repoDir, filePath), target).catch(error => {
+        if (filePaths.includes(filePath)) {
+          throw error;
+        }
+      });
+    }
+
+    const outputFile = path.join(tempDir, '.packaging-cache-output');
+    await callbacks.packageDirectory(manifest.strategy, tempDir, outputFile);
+
+    const packed = splitPackedOutput(await fs.readFile(outputFile, 'utf8'));
+    const sections = new Map((packed?.sections || []).map(section => [section.path, section.body]));
+    const missing = filePaths.filter(filePath => !sections.has(filePath));
+    if (missing.length > 0) {
+      throw new RepositoryPackagingError(`Repacked output has no section for ${missing.join(', ')}`);
+    }
+
+    for (const filePath of filePaths) {
+      await fs.writeFile(getSectionFile(cacheDir, filePath), sections.get(filePath)!, 'utf8');
+    }
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Remove the least recently used caches beyond the configured number of repositories
+ */
+async function pruneCaches(keep: string, logger: Logger): Promise<void> {
+  const { directory, maxRepositories } = getConfigManager(logger).getPackagingCacheSettings();
+
+  try {
+    const caches = await Promise.all((await fs.readdir(directory)).map(async name => {
+      const cacheDir = path.join(directory, name);
+      const stats = await fs.stat(path.join(cacheDir, MANIFEST_FILE)).catch(() => null);
+      return { cacheDir, usedAt: stats?.mtimeMs ?? 0 };
+    }));
+
+    const stale = caches
+      .filter(cache => cache.cacheDir !== keep)
+      .sort((a, b) => b.usedAt - a.usedAt)
+      .slice(Math.max(0, maxRepositories - 1));
+
+    for (const cache of stale) {
+      logger.debug(`Removing packaging cache ${cache.cacheDir}`);
+      await fs.rm(cache.cacheDir, { recursive: true, force: true });
+    }
+  } catch (error) {
+    logger.debug('Could not prune packaging caches', error);
+  }
+}
+
+/**
+ * Package a repository, reusing cached sections for files that did not change
+ */
+async function packageIncrementally(
+  cacheDir: string,
+  repoDir: string,
+  outputFile: string,
+  options: PackageRepositoryOptions,
+  callbacks: PackagingCacheCallbacks,
+  logger: Logger
+): Promise<PackageResult> {
+  const listedFiles = (await callbacks.listFiles()).map(normalizePath);
+  const manifest = await readManifest(cacheDir, logger);
+
+  if (manifest) {
+    const { modified, added, removed } = await findChanges(repoDir, manifest, listedFiles);
+    throwIfCancelled(options.signal);
+
+    if (manifest.strategy === 'fallback' && (manifest.query !== options.query ||
+        (options.query && manifest.analysisType !== options.analysisType))) {
+      logger.info('Cached fallback packing selected files for another question; repacking the repository');
+    } else if (added.length > 0 || removed.length > 0) {
+      logger.info(`Packaging cache is stale (${added.length} files added, ${removed.length} removed); repacking the repository`);
+    } else if (modified.length > manifest.sections.length * MAX_REPACK_RATIO) {
+      logger.info(`${modified.length} of ${manifest.sections.length} packed files changed; repacking the repository`);
+    } else {
+      let repacked = true;
+      if (modified.length > 0) {
+        logger.info(`Repacking ${modified.length} changed files with the ${manifest.strategy} strategy`, { files: modified });
+        try {
+          await repackFiles(cacheDir, repoDir, manifest, modified, callbacks, logger);
+        } catch (error) {
+          throwIfCancelled(options.signal);
+          logger.warn(`Could not repack changed files: ${error instanceof Error ? error.message : String(error)}`);
+          repacked = false;
+        }
+      }
+
+      if (repacked) {
+        const output = await assembleOutput(cacheDir, manifest);
+        await fs.writeFile(outputFile, output, 'utf-8');
+
+        const totalTokens = modified.length > 0
+          ? (await countTokens(output, { logger })).tokens
+          : manifest.result.totalTokens;
+        manifest.result = { ...manifest.result, totalTokens };
+        manifest.updatedAt = new Date().toISOString();
+        await writeManifest(cacheDir, manifest);
+
+        const cachedFiles = manifest.sections.length - modified.length;
+        logger.info(`Packaged repository from cache: ${cachedFiles} files reused, ${modified.length} repacked`);
+        return { ...manifest.result, totalFiles: manifest.sections.length, totalTokens, cachedFiles };
+      }
+    }
+  }
+
+  const result = await callbacks.packageAll();
+  try {
+    await storePackedOutput(cacheDir, repoDir, await fs.readFile(outputFile, 'utf8'), result, listedFiles, options, logger);
+    await pruneCaches(cacheDir, logger);
+  } catch (error) {
+    logger.warn(`Could not update the packaging cache: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return { ...result, cachedFiles: 0 };
+}
+
+/**
+ * Package a repository through the incremental packaging cache
+ * Runs for the same repository and options wait for each other so they never write the same
+ * cache at once.
+ */
+export async function packageWithCache(
+  repoDir: string,
+  outputFile: string,
+  options: PackageRepositoryOptions,
+  callbacks: PackagingCacheCallbacks,
+  logger: Logger
+): Promise<PackageResult> {
+  const cacheDir = getCacheDirectory(repoDir, options, logger);
+
+  const previous = pendingRuns.get(cacheDir) || Promise.resolve();
+  const run = previous
+    .catch(() => {})
+    .then(() => packageIncrementally(cacheDir, repoDir, outputFile, options, callbacks, logger));
+
+  pendingRuns.set(cacheDir, run);
+  try {
+    return await run;
+  } finally {
+    if (pendingRuns.get(cacheDir) === run) {
+      pendingRuns.delete(cacheDir);
+    }
+  }
+}
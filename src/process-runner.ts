@@ -0,0 +1,250 @@
+/**
+ * Child process runner
+ * Commands run from an argument array without a shell, so arguments are never parsed or
+ * expanded. On Windows npm and npx are .cmd scripts that only cmd.exe can start, and cmd.exe
+ * expands %VAR% and ! even inside quotes, so they are run as node with their JavaScript entry
+ * point instead. Output is collected asynchronously with no buffer cap, output lines can be
+ * relayed as progress, and failures surface as typed errors carrying the end of stderr. A
+ * timeout, an aborted signal or server shutdown kills the process together with any processes
+ * it started.
+ */
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { CommandNotFoundError, ProcessError, ProcessTimeoutError, RequestCancelledError } from './errors.js';
+import { Logger, ProgressCallback } from './types.js';
+import { throwIfCancelled } from './utils.js';
+
+// Amount of stderr kept for error messages
+const MAX_STDERR_LENGTH = 64 * 1024;
+
+// Time a stopped process gets to exit after SIGTERM before it is sent SIGKILL
+const KILL_GRACE_MS = 5000;
+
+// Minimum time between progress messages relayed from process output
+const PROGRESS_INTERVAL_MS = 1000;
+
+const IS_WINDOWS = process.platform === 'win32';
+
+// Processes still running, stopped by stopAllProcesses when the server shuts down
+const liveProcesses = new Set<ChildProcess>();
+
+/**
+ * Options for running a process
+ */
+export interface RunProcessOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  timeoutMs?: number;             // Kills the process when exceeded (no limit when unset)
+  signal?: AbortSignal;           // Kills the process when aborted
+  logger?: Logger;
+  onProgress?: ProgressCallback;  // Receives the latest output line, at most once a second
+  progressLabel?: string;         // Prefix of relayed lines (defaults to the command)
+  redact?: string[];              // Secrets masked in logs, progress and errors
+}
+
+/**
+ * Output of a process that exited successfully
+ */
+export interface ProcessResult {
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+}
+
+/**
+ * Remove terminal color and cursor sequences from output
+ */
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '');
+}
+
+/**
+ * Command and arguments that start an npm command on Windows without cmd.exe
+ * npm.cmd and npx.cmd only run node with npm's bin/<name>-cli.js, so that script is located
+ * next to the running node or next to the .cmd shim on PATH and run with this node. Other
+ * commands, and npm commands whose script is not found, are returned unchanged.
+ */
+export function resolveWindowsCommand(
+  command: string,
+  args: string[],
+  execPath: string = process.execPath,
+  searchPath: string = process.env.PATH || '',
+  fileExists: (file: string) => boolean = fs.existsSync
+): { command: string; args: string[] } {
+  const name = command.toLowerCase().replace(/\.cmd$/, '');
+  if (name !== 'npm' && name !== 'npx') {
+    return { command, args };
+  }
+
+  const shimDirectories = searchPath.split(';').filter(dir => dir && fileExists(path.win32.join(dir, `${name}.cmd`)));
+  for (const dir of [path.win32.dirname(execPath), ...shimDirectories]) {
+    const cliPath = path.win32.join(dir, 'node_modules', 'npm', 'bin', `${name}-cli.js`);
+    if (fileExists(cliPath)) {
+      return { command: execPath, args: [cliPath, ...args] };
+    }
+  }
+
+  return { command, args };
+}
+
+/**
+ * Send a signal to a process and, on POSIX, to the process group it leads
+ */
+function killProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  try {
+    if (child.pid && !IS_WINDOWS) {
+      process.kill(-child.pid, signal);
+    } else {
+      child.kill(signal);
+    }
+  } catch {
+    // Already exited
+  }
+}
+
+/**
+ * Stop every process started by runProcess that is still running
+ * Called on shutdown, since detached process groups would otherwise outlive the server.
+ */
+export function stopAllProcesses(): void {
+  for (const child of liveProcesses) {
+    killProcessTree(child, 'SIGTERM');
+  }
+  liveProcesses.clear();
+}
+
+/**
+ * Run a command to completion
+ * Resolves with its output when it exits with code 0. Otherwise rejects with a
+ * CommandNotFoundError, ProcessTimeoutError, RequestCancelledError or ProcessError.
+ */
+export async function runProcess(
+  command: string,
+  args: string[],
+  options: RunProcessOptions = {}
+): Promise<ProcessResult> {
+  const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  const secrets = (options.redact || []).filter(Boolean);
+  const redact = (text: string) => secrets.reduce((result, secret) => result.split(secret).join('***'), text);
+  const commandLine = redact([command, ...args].join(' '));
+  const label = options.progressLabel || command;
+
+  throwIfCancelled(options.signal);
+  logger.debug(`Running ${commandLine}`);
+  const startTime = Date.now();
+
+  const spawned = IS_WINDOWS ? resolveWindowsCommand(command, args) : { command, args };
+
+  return new Promise<ProcessResult>((resolve, reject) => {
+    const child = spawn(spawned.command, spawned.args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      windowsHide: true,
+      // A process group of its own on POSIX, so stopping npx also stops the tool it started
+      detached: !IS_WINDOWS
+    });
+    liveProcesses.add(child);
+
+    const stdoutChunks: Buffer[] = [];
+    let stderr = '';
+    let stopReason: 'timeout' | 'cancelled' | undefined;
+    let settled = false;
+    let lastProgressTime = 0;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const kill = (signal: NodeJS.Signals) => killProcessTree(child, signal);
+
+    const stop = (reason: 'timeout' | 'cancelled') => {
+      if (stopReason || settled) {
+        return;
+      }
+      stopReason = reason;
+      logger.debug(`Stopping ${label} (${reason})`);
+      kill('SIGTERM');
+      killTimer = setTimeout(() => kill('SIGKILL'), KILL_GRACE_MS);
+    };
+
+    const onAbort = () => stop('cancelled');
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const timeoutTimer = options.timeoutMs ? setTimeout(() => stop('timeout'), options.timeoutMs) : undefined;
+
+    const finish = (error?: Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      liveProcesses.delete(child);
+      clearTimeout(timeoutTimer);
+      clearTimeout(killTimer);
+      options.signal?.removeEventListener('abort', onAbort);
+
+      if (error) {
+        reject(error);
+      } else {
+        resolve({ stdout: Buffer.concat(stdoutChunks).toString('utf8'), stderr: redact(stderr), durationMs: Date.now() - startTime });
+      }
+    };
+
+    // Relay the latest complete line of output; progress bars rewrite their line with \r
+    const relayProgress = (chunk: Buffer) => {
+      const now = Date.now();
+      if (!options.onProgress || now - lastProgressTime < PROGRESS_INTERVAL_MS) {
+        return;
+      }
+
+      const line = stripAnsi(chunk.toString('utf8')).split(/[\r\n]+/).map(part => part.trim()).filter(Boolean).pop();
+      if (line) {
+        lastProgressTime = now;
+        Promise.resolve(options.onProgress({ message: `\n[${label}: ${redact(line)}]\n` }))
+          .catch(error => logger.debug(`Could not relay ${label} progress`, error));
+      }
+    };
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdoutChunks.push(chunk);
+      relayProgress(chunk);
+    });
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString('utf8')).slice(-MAX_STDERR_LENGTH);
+      relayProgress(chunk);
+    });
+
+    child.on('error', error => {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        finish(new CommandNotFoundError(`${command} was not found`, command, error));
+      } else {
+        finish(new ProcessError(`Could not run ${commandLine}: ${error.message}`, command, null, undefined, error));
+      }
+    });
+
+    child.on('close', (code, signal) => {
+      const durationMs = Date.now() - startTime;
+      const output = redact(stripAnsi(stderr));
+
+      if (stopReason === 'cancelled') {
+        finish(new RequestCancelledError(`${label} was cancelled`));
+      } else if (stopReason === 'timeout') {
+        finish(new ProcessTimeoutError(
+          `${commandLine} did not finish within ${options.timeoutMs! / 1000}s`,
+          command,
+          options.timeoutMs!,
+          output
+        ));
+      } else if (code !== 0) {
+        const lastLine = output.trim().split('\n').pop();
+        finish(new ProcessError(
+          `${commandLine} exited with ${code !== null ? `code ${code}` : signal}${lastLine ? `: ${lastLine}` : ''}`,
+          command,
+          code,
+          output
+        ));
+      } else {
+        logger.debug(`${label} finished in ${durationMs}ms`);
+        finish();
+      }
+    });
+  });
+}
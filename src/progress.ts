@@ -0,0 +1,50 @@
+/**
+ * MCP progress notification helpers
+ * Relays long-running tool progress (such as streamed Gemini output) to the client
+ */
+import { Logger, ProgressCallback } from './types.js';
+
+/**
+ * Minimal view of the MCP request handler context needed to send progress
+ */
+export interface ProgressRequestContext {
+  _meta?: { progressToken?: string | number; [key: string]: unknown };
+  sendNotification: (notification: any) => Promise<void>;
+}
+
+/**
+ * Create a progress callback for a tool request
+ * Returns undefined when the client did not ask for progress (no progressToken),
+ * so callers can skip streaming entirely.
+ */
+export function createProgressReporter(
+  context: ProgressRequestContext | undefined,
+  logger: Logger
+): ProgressCallback | undefined {
+  const progressToken = context?._meta?.progressToken;
+  if (!context || progressToken === undefined) {
+    return undefined;
+  }
+
+  // Progress values must increase with every notification
+  let progress = 0;
+
+  return async ({ message, total }) => {
+    progress++;
+
+    try {
+      await context.sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress,
+          ...(total !== undefined ? { total } : {}),
+          ...(message !== undefined ? { message } : {})
+        }
+      });
+    } catch (error) {
+      // Progress is best-effort; never fail the request because of it
+      logger.debug(`Failed to send progress notification: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+}
@@ -6,6 +6,7 @@ import {
   PromptTemplateKey, 
   ReasoningEffort 
 } from './types.js';
+import { supportsThinking } from './gemini-config.js';
   
   /**
   * Define specialized prompt templates for different analysis types
@@ -462,6 +463,39 @@ Your analysis should examine the code at a very detailed level, providing specif
       `
     },
     
+    /**
+     * Agentic analysis template (files are requested through function calls)
+     */
+    AGENTIC_ANALYSIS: {
+      name: "Agentic Repository Analysis",
+      description: "Answer a question by exploring the repository with file tools",
+      template: `
+  You are an expert software engineer investigating a codebase to answer a question.
+  
+  USER QUERY: {{query}}
+  
+  ANALYSIS FOCUS: {{analysisFocus}}
+  
+  TOP-LEVEL REPOSITORY STRUCTURE:
+  {{repoStructure}}
+  
+  The repository content is not included. Use the available tools to explore it:
+  - list_directory to see the files in a directory
+  - search_code to find where identifiers, strings or patterns occur
+  - read_file to read a file, or a range of lines from a large file
+  - get_imports to see what a file depends on
+  
+  Read only what you need. Start from the most likely locations and follow imports and search results. Paths are relative to the repository root.
+  
+  {{reasoningInstructions}}
+  
+  Your response should:
+  1. Answer the specific query
+  2. Reference the files (and lines where relevant) that support each point
+  3. Say clearly if something could not be determined from the files you read
+      `
+    },
+    
     /**
      * Testing strategy analysis template
      */
@@ -533,6 +567,7 @@ Your analysis should examine the code at a very detailed level, providing specif
   reasoningEffort?: ReasoningEffort;
   additionalInstructions?: string;
     analysisLevel?: string;
+    model?: string;
   } = {}
 ): string {
     // Get the template or default to repository analysis
@@ -541,10 +576,10 @@ Your analysis should examine the code at a very detailed level, providing specif
     // Start with the template text
     let prompt = template.template;
     
-    // Add reasoning instructions
+    // Add reasoning instructions; thinking models get a thinking budget instead
     prompt = prompt.replace(
       '{{reasoningInstructions}}', 
-      getReasoningInstructions(options.reasoningEffort)
+      supportsThinking(options.model) ? '' : getReasoningInstructions(options.reasoningEffort)
     );
     
     // Replace template variables with context
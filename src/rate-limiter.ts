@@ -0,0 +1,337 @@
+/**
+ * Per-model rate limiter
+ * Each provider and model pair has token buckets for requests and input tokens per minute,
+ * refilled continuously from the profile's quotas, and a cap on requests in flight at once.
+ * Requests over quota wait in a first-in, first-out queue for the model instead of being
+ * rejected, and fail with a RateLimitError once the max wait is used up.
+ */
+import { RateLimitError } from './errors.js';
+import { getConfigManager } from './config-manager.js';
+import { Logger, ModelQuota, ProgressCallback, ProviderName } from './types.js';
+import { throwIfCancelled } from './utils.js';
+
+const WINDOW_MS = 60 * 1000;
+
+// Requests in flight per model when no quota sets maxConcurrentRequests
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 2;
+
+/**
+ * Bucket holding up to one minute's quota, refilled at quota per minute
+ * Taking more than is available (an underestimated request) drives the balance negative,
+ * which later requests wait off.
+ */
+class TokenBucket {
+  private available: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number) {
+    this.available = capacity;
+  }
+
+  /**
+   * Apply a changed quota, keeping the amount already used
+   */
+  resize(capacity: number): void {
+    this.refill();
+    this.available = Math.min(this.available + capacity - this.capacity, capacity);
+    this.capacity = capacity;
+  }
+
+  /**
+   * Milliseconds until amount can be taken (amounts above capacity wait for a full bucket)
+   */
+  timeUntilAvailable(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.capacity) - this.available;
+    return needed <= 0 ? 0 : Math.ceil(needed * WINDOW_MS / this.capacity);
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.available = Math.min(this.available - amount, this.capacity);
+  }
+
+  /**
+   * Amount used within the last minute
+   */
+  used(): number {
+    this.refill();
+    return Math.max(0, Math.round(this.capacity - this.available));
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + (now - this.lastRefill) * this.capacity / WINDOW_MS);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * A request waiting for capacity
+ */
+interface QueuedRequest {
+  inputTokens: number;
+}
+
+/**
+ * Limiter state for one model
+ */
+interface ModelLimiter {
+  provider: ProviderName;
+  model: string;
+  quota: Required<ModelQuota>;
+  active: number;     // Requests holding a lease
+  requests: TokenBucket;
+  inputTokens: TokenBucket;
+  queue: QueuedRequest[];
+  listeners: Set<() => void>;  // Waiters to wake when the queue changes
+  totals: {
+    requests: number;
+    inputTokens: number;
+    queued: number;     // Requests that had to wait
+    rejected: number;   // Requests that gave up after the max wait
+  };
+}
+
+/**
+ * Capacity granted to one request, settled once actual token usage is known
+ */
+export interface RateLimitLease {
+  key: string;
+  inputTokens: number;
+  released: boolean;
+}
+
+/**
+ * Current limiter usage for one model
+ */
+export interface ModelRateLimitUsage {
+  provider: ProviderName;
+  model: string;
+  quota: Required<ModelQuota>;
+  requestsLastMinute: number;
+  inputTokensLastMinute: number;
+  activeRequests: number;
+  queueLength: number;
+  totals: ModelLimiter['totals'];
+}
+
+/**
+ * Options for acquiring capacity
+ */
+export interface AcquireCapacityOptions {
+  logger?: Logger;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+// Limiters keyed by provider and model, so Vertex and local servers do not share the Gemini API quota
+const limiters = new Map<string, ModelLimiter>();
+
+function getLimiterKey(provider: ProviderName, modelId: string): string {
+  return `${provider}:${modelId}`;
+}
+
+/**
+ * Quota for a model: a provider-qualified entry ("vertex:gemini-2.5-pro"), then the model ID, then the default
+ */
+function getModelQuota(provider: ProviderName, modelId: string, logger?: Logger): Required<ModelQuota> {
+  const settings = getConfigManager(logger).getRateLimitSettings();
+  const quota = settings.models[getLimiterKey(provider, modelId)] || settings.models[modelId] || settings.default;
+  return {
+    ...quota,
+    maxConcurrentRequests: quota.maxConcurrentRequests ?? settings.default.maxConcurrentRequests ?? DEFAULT_MAX_CONCURRENT_REQUESTS
+  };
+}
+
+/**
+ * Get the limiter for a model, applying the current profile's quota
+ */
+function getModelLimiter(provider: ProviderName, modelId: string, logger?: Logger): ModelLimiter {
+  const quota = getModelQuota(provider, modelId, logger);
+  const key = getLimiterKey(provider, modelId);
+
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = {
+      provider,
+      model: modelId,
+      quota,
+      active: 0,
+      requests: new TokenBucket(quota.requestsPerMinute),
+      inputTokens: new TokenBucket(quota.inputTokensPerMinute),
+      queue: [],
+      listeners: new Set(),
+      totals: { requests: 0, inputTokens: 0, queued: 0, rejected: 0 }
+    };
+    limiters.set(key, limiter);
+  } else if (limiter.quota.requestsPerMinute !== quota.requestsPerMinute ||
+             limiter.quota.inputTokensPerMinute !== quota.inputTokensPerMinute ||
+             limiter.quota.maxConcurrentRequests !== quota.maxConcurrentRequests) {
+    limiter.requests.resize(quota.requestsPerMinute);
+    limiter.inputTokens.resize(quota.inputTokensPerMinute);
+    limiter.quota = quota;
+    notifyQueueChange(limiter);
+  }
+
+  return limiter;
+}
+
+/**
+ * Wake every waiter of a limiter so it re-checks its position
+ */
+function notifyQueueChange(limiter: ModelLimiter): void {
+  for (const listener of limiter.listeners) {
+    listener();
+  }
+}
+
+/**
+ * Wait for ms, or until the queue changes or the request is cancelled
+ */
+function waitForChange(limiter: ModelLimiter, ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      limiter.listeners.delete(done);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+
+    const timer = setTimeout(done, ms);
+    limiter.listeners.add(done);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Wait for a free request slot and request and input token capacity on a model
+ * Queue position and expected waits are reported through onProgress. The lease must be
+ * released with releaseModelCapacity when the request finishes.
+ */
+export async function acquireModelCapacity(
+  provider: ProviderName,
+  modelId: string,
+  inputTokens: number,
+  options: AcquireCapacityOptions = {}
+): Promise<RateLimitLease> {
+  const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  const limiter = getModelLimiter(provider, modelId, logger);
+  const { maxWaitSeconds } = getConfigManager(logger).getRateLimitSettings();
+  const deadline = Date.now() + maxWaitSeconds * 1000;
+
+  const request: QueuedRequest = { inputTokens };
+  limiter.queue.push(request);
+
+  let lastReport = '';
+  const report = async (message: string) => {
+    if (message !== lastReport) {
+      lastReport = message;
+      logger.info(message);
+      await options.onProgress?.({ message: `\n[${message}]\n` });
+    }
+  };
+
+  try {
+    while (true) {
+      throwIfCancelled(options.signal);
+
+      const position = limiter.queue.indexOf(request) + 1;
+      const slotFree = limiter.active < limiter.quota.maxConcurrentRequests;
+      // Without a free slot the wait lasts until a running request releases its lease
+      const wait = position === 1 && slotFree
+        ? Math.max(limiter.requests.timeUntilAvailable(1), limiter.inputTokens.timeUntilAvailable(inputTokens))
+        : deadline - Date.now();
+
+      if (position === 1 && slotFree && wait === 0) {
+        break;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0 || (position === 1 && slotFree && wait > remaining)) {
+        limiter.totals.rejected++;
+        throw new RateLimitError(
+          `Capacity for ${modelId} was not available within the ${maxWaitSeconds}s maximum wait ` +
+          `(${limiter.quota.requestsPerMinute} requests and ${limiter.quota.inputTokensPerMinute} input tokens per minute, ` +
+          `${limiter.quota.maxConcurrentRequests} at a time)`,
+          Math.ceil(wait / 1000)
+        );
+      }
+
+      if (!lastReport) {
+        limiter.totals.queued++;
+      }
+      // Listen before reporting, so a release while the progress notification is sent is not missed
+      const changed = waitForChange(limiter, Math.min(wait, remaining), options.signal);
+      await report(position > 1
+        ? `Queued for ${modelId}: position ${position}`
+        : slotFree
+          ? `Waiting ${Math.ceil(wait / 1000)}s for ${modelId} rate limit capacity`
+          : `Waiting for one of ${limiter.quota.maxConcurrentRequests} running ${modelId} requests to finish`);
+      await changed;
+    }
+
+    limiter.requests.take(1);
+    limiter.inputTokens.take(inputTokens);
+    limiter.active++;
+    limiter.totals.requests++;
+    limiter.totals.inputTokens += inputTokens;
+
+    return { key: getLimiterKey(provider, modelId), inputTokens, released: false };
+  } finally {
+    limiter.queue.splice(limiter.queue.indexOf(request), 1);
+    notifyQueueChange(limiter);
+  }
+}
+
+/**
+ * Free a lease's request slot for the next queued request (later calls do nothing)
+ */
+export function releaseModelCapacity(lease: RateLimitLease): void {
+  const limiter = limiters.get(lease.key);
+  if (!limiter || lease.released) {
+    return;
+  }
+
+  lease.released = true;
+  limiter.active = Math.max(0, limiter.active - 1);
+  notifyQueueChange(limiter);
+}
+
+/**
+ * Replace a lease's estimated input tokens with the count the API reported
+ */
+export function settleInputTokens(lease: RateLimitLease, actualInputTokens?: number): void {
+  const limiter = limiters.get(lease.key);
+  if (!limiter || actualInputTokens === undefined) {
+    return;
+  }
+
+  const difference = actualInputTokens - lease.inputTokens;
+  limiter.inputTokens.take(difference);
+  limiter.totals.inputTokens += difference;
+  lease.inputTokens = actualInputTokens;
+
+  if (difference < 0) {
+    notifyQueueChange(limiter);
+  }
+}
+
+/**
+ * Current usage of every model that has received requests
+ */
+export function getRateLimitUsage(logger?: Logger): ModelRateLimitUsage[] {
+  return [...limiters.values()].map(({ provider, model }) => {
+    const limiter = getModelLimiter(provider, model, logger);
+    return {
+      provider,
+      model,
+      quota: limiter.quota,
+      requestsLastMinute: limiter.requests.used(),
+      inputTokensLastMinute: limiter.inputTokens.used(),
+      activeRequests: limiter.active,
+      queueLength: limiter.queue.length,
+      totals: { ...limiter.totals }
+    };
+  });
+}
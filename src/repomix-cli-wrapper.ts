@@ -2,11 +2,31 @@
  * Direct CLI wrapper for Repomix
  * Updated to work with the latest Repomix CLI syntax
  */
-import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
-import { Logger } from './types.js';
-import { RepositoryPackagingError } from './errors.js';
+import { Logger, ProgressCallback } from './types.js';
+import { CommandNotFoundError, RepositoryPackagingError, RequestCancelledError } from './errors.js';
+import { countTokens } from './token-counter.js';
+import { runProcess } from './process-runner.js';
+
+// Time a single Repomix run may take before it is stopped
+const REPOMIX_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Run Repomix through npx; aborting the signal kills the process
+ */
+async function runNpx(
+  args: string[],
+  options: { logger: Logger; onProgress?: ProgressCallback; signal?: AbortSignal }
+): Promise<void> {
+  await runProcess('npx', args, {
+    timeoutMs: REPOMIX_TIMEOUT_MS,
+    signal: options.signal,
+    logger: options.logger,
+    onProgress: options.onProgress,
+    progressLabel: 'repomix'
+  });
+}
 
 /**
  * Call Repomix CLI directly
@@ -20,6 +40,8 @@ export async function callRepomixCli(
     exclude?: string[];
     maxTokens?: number;
     logger?: Logger;
+    onProgress?: ProgressCallback;
+    signal?: AbortSignal;
   } = {}
 ): Promise<{ totalFiles: number; totalTokens: number }> {
   const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
@@ -32,32 +54,28 @@ export async function callRepomixCli(
     const hasRepomixIgnore = fs.existsSync(repomixIgnorePath);
     
     // First attempt: Use the repomix command with .repomixignore if it exists
-    let command = `npx -y repomix ${repoDir} -o "${outputFile}"`;
+    const simpleArgs = ['-y', 'repomix', repoDir, '-o', outputFile];
     
     if (hasRepomixIgnore) {
-      command += ` --ignorefile="${repomixIgnorePath}"`;
+      simpleArgs.push(`--ignorefile=${repomixIgnorePath}`);
       logger.info(`Using .repomixignore file: ${repomixIgnorePath}`);
     }
     
     try {
-      logger.debug(`Executing command: ${command}`);
+      logger.debug(`Executing command: npx ${simpleArgs.join(' ')}`);
       
-      const output = execSync(command, {
-        encoding: 'utf-8',
-        stdio: 'pipe',
-        maxBuffer: 10 * 1024 * 1024 // 10 MB
-      });
+      await runNpx(simpleArgs, { logger, onProgress: options.onProgress, signal: options.signal });
       
       if (fs.existsSync(outputFile)) {
         const stats = fs.statSync(outputFile);
         const fileSize = stats.size;
         logger.info(`Simplified command succeeded: created ${outputFile} (${fileSize} bytes)`);
         
-        // Approximate the token count based on file size (rough estimate: 1 token ~ 4 characters)
-        const totalTokens = Math.floor(fileSize / 4);
-        
         // Count files in the output
         const fileContent = fs.readFileSync(outputFile, 'utf-8');
+        
+        // Count tokens with the countTokens API (falls back to an estimate when offline)
+        const { tokens: totalTokens } = await countTokens(fileContent, { logger });
         const fileMatches = fileContent.match(/<file\s/g);
         const totalFiles = fileMatches ? fileMatches.length : 10; // Default to 10 if can't determine
         
@@ -66,6 +84,11 @@ export async function callRepomixCli(
         throw new Error(`Output file was not created: ${outputFile}`);
       }
     } catch (simpleError) {
+      // Cancellation ends packaging; the second attempt would only be killed too
+      if (simpleError instanceof RequestCancelledError) {
+        throw simpleError;
+      }
+      
       logger.warn(`Simplified command failed: ${simpleError instanceof Error ? simpleError.message : String(simpleError)}`);
       
       // Second attempt: Try with more options but using the correct CLI syntax
@@ -74,23 +97,23 @@ export async function callRepomixCli(
         const args: string[] = [];
         
         // Add output file - use -o for output file
-        args.push(`-o "${outputFile}"`);
+        args.push('-o', outputFile);
         
         // Add include patterns
         if (options.include && options.include.length > 0) {
           // For the current version of Repomix, we use --include
-          args.push(`--include="${options.include.join(',')}"`);
+          args.push(`--include=${options.include.join(',')}`);
         }
         
         // Add exclude patterns
         if (options.exclude && options.exclude.length > 0) {
           // For the current version of Repomix, we use --ignore
-          args.push(`--ignore="${options.exclude.join(',')}"`);
+          args.push(`--ignore=${options.exclude.join(',')}`);
         }
         
         // Add .repomixignore if it exists
         if (hasRepomixIgnore) {
-          args.push(`--ignorefile="${repomixIgnorePath}"`);
+          args.push(`--ignorefile=${repomixIgnorePath}`);
         }
         
         // Add token limit
@@ -99,29 +122,25 @@ export async function callRepomixCli(
         }
         
         // Add style option
-        args.push('--style="xml"');
+        args.push('--style=xml');
         
         // Build the command
-        const command = `npx -y repomix ${repoDir} ${args.join(' ')}`;
-        logger.debug(`Executing command: ${command}`);
+        const commandArgs = ['-y', 'repomix', repoDir, ...args];
+        logger.debug(`Executing command: npx ${commandArgs.join(' ')}`);
         
         // Execute the command
-        const output = execSync(command, {
-          encoding: 'utf-8',
-          stdio: 'pipe',
-          maxBuffer: 10 * 1024 * 1024 // 10 MB
-        });
+        await runNpx(commandArgs, { logger, onProgress: options.onProgress, signal: options.signal });
         
         if (fs.existsSync(outputFile)) {
           const stats = fs.statSync(outputFile);
           const fileSize = stats.size;
           logger.info(`Repomix CLI succeeded: created ${outputFile} (${fileSize} bytes)`);
           
-          // Approximate the token count
-          const totalTokens = Math.floor(fileSize / 4);
-          
           // Count files in the output
           const fileContent = fs.readFileSync(outputFile, 'utf-8');
+          
+          // Count tokens with the countTokens API (falls back to an estimate when offline)
+          const { tokens: totalTokens } = await countTokens(fileContent, { logger });
           const fileMatches = fileContent.match(/<file\s/g);
           const totalFiles = fileMatches ? fileMatches.length : 10;
           
@@ -130,19 +149,29 @@ export async function callRepomixCli(
           throw new Error(`Output file was not created: ${outputFile}`);
         }
       } catch (complexError) {
+        if (complexError instanceof RequestCancelledError) {
+          throw complexError;
+        }
         // If both attempts fail, throw the error from the simple approach
         throw simpleError;
       }
     }
   } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      // Drop whatever the killed process had written
+      await fs.promises.rm(outputFile, { force: true });
+      logger.info(`Repomix CLI cancelled for repository: ${repoDir}`);
+      throw error;
+    }
+    
     // Check if error is related to Repomix not being found
     const errorMessage = error instanceof Error ? error.message : String(error);
     
-    if (errorMessage.includes('not found') || errorMessage.includes('command not found')) {
-      throw new RepositoryPackagingError(`Repomix CLI not found. Error: ${errorMessage}`);
+    if (error instanceof CommandNotFoundError || errorMessage.includes('not found')) {
+      throw new RepositoryPackagingError(`Repomix CLI not found. Error: ${errorMessage}`, error);
     }
     
     logger.error(`Error calling Repomix CLI: ${errorMessage}`);
-    throw new RepositoryPackagingError(`Failed to call Repomix CLI: ${errorMessage}`);
+    throw new RepositoryPackagingError(`Failed to call Repomix CLI: ${errorMessage}`, error);
   }
 }
\ No newline at end of file
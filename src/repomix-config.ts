@@ -257,6 +257,7 @@ export function prioritizeFiles(
     maxTokens?: number;
     maxFiles?: number;
     analysisType?: AnalysisType;
+    charsPerToken?: number;  // Measured ratio from getCharsPerToken in token-counter.ts
     logger?: Logger;
   } = {}
 ): string[] {
@@ -264,8 +265,8 @@ export function prioritizeFiles(
   
   // Fallback to default max tokens if not specified
   const maxTokens = options.maxTokens || SIZE_LIMITS.MAX_TOKEN_COUNT;
-  // Set a maximum character count (approximation for tokens)
-  const maxChars = maxTokens * 4; // Rough estimate of 4 chars per token
+  // Set a maximum character count, using the measured ratio when the caller has one
+  const maxChars = Math.floor(maxTokens * (options.charsPerToken || 4)); // Rough estimate of 4 chars per token
   let totalChars = 0;
   
   // Use enhanced keyword extraction
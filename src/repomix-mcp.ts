@@ -1,52 +1,313 @@
 /**
  * Integration with Repomix MCP Server
- * Provides functions to package repositories through the Model Context Protocol
+ * The configured server command (npx -y repomix --mcp by default) is started over stdio on
+ * first use and the connection is kept for later requests. Repositories are packed with the
+ * pack_codebase tool and the packed output is read back with read_repomix_output.
+ * pack_codebase has no token limit, so output over the limit is trimmed here file by file.
  */
 import * as fs from 'fs/promises';
-import { existsSync } from 'fs';
 import * as path from 'path';
-import { Logger } from './types.js';
-import { RepositoryPackagingError } from './errors.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { Logger, ProgressCallback } from './types.js';
+import { RepositoryPackagingError, RequestCancelledError } from './errors.js';
 import { PackageRepositoryOptions, PackageResult } from './types.js';
+import { getConfigManager } from './config-manager.js';
+import { countTokens } from './token-counter.js';
+import { throwIfCancelled } from './utils.js';
 
-// MCP client types - simplified versions based on MCP SDK
-interface McpRequest {
-  name: string;
-  arguments: Record<string, any>;
-}
+// Tools the server must offer to be used for packaging
+const REQUIRED_TOOLS = ['pack_codebase', 'read_repomix_output'];
+
+// Time allowed for starting the server and completing the initialize handshake
+const CONNECT_TIMEOUT_MS = 60 * 1000;
+
+// After a failed connection, packaging skips the MCP server for this long before trying again
+const RECONNECT_INTERVAL_MS = 5 * 60 * 1000;
 
-interface McpResponse {
-  content: Array<{ type: string; text: string }>;
+/**
+ * Text and structured parts of a tool result read by this module
+ */
+interface ToolResult {
+  content?: Array<{ type: string; text?: string }>;
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
-  metadata?: {
-    fileCount?: number;
-    tokenCount?: number;
-    outputId?: string;
+}
+
+/**
+ * Fields of a pack_codebase result used for packaging
+ */
+interface PackCodebaseResult {
+  outputId: string;
+  totalFiles?: number;
+  totalTokens?: number;
+}
+
+let connection: Promise<Client> | null = null;
+let lastConnectFailure = 0;
+
+/**
+ * Text parts of a tool result
+ */
+function getResultTexts(result: ToolResult): string[] {
+  return (result.content || [])
+    .filter(item => item.type === 'text' && typeof item.text === 'string')
+    .map(item => item.text as string);
+}
+
+/**
+ * Objects in a tool result: its structured content and any text parts holding JSON
+ * Repomix nests some results in a result field, which may itself be serialized JSON.
+ */
+function getResultObjects(result: ToolResult): Record<string, unknown>[] {
+  const objects: Record<string, unknown>[] = [];
+  const add = (value: unknown) => {
+    if (typeof value === 'string') {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        return;
+      }
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      objects.push(value as Record<string, unknown>);
+      if ('result' in value) {
+        add((value as Record<string, unknown>).result);
+      }
+    }
   };
+
+  add(result.structuredContent);
+  getResultTexts(result).forEach(add);
+  return objects;
+}
+
+/**
+ * Start the server and check that it offers the packaging tools
+ */
+async function connect(logger: Logger): Promise<Client> {
+  const configManager = getConfigManager(logger);
+  const settings = configManager.getRepomixMcpSettings();
+  const serverInfo = configManager.getConfig().server;
+
+  logger.info(`Starting Repomix MCP server: ${settings.command} ${settings.args.join(' ')}`);
+
+  const transport = new StdioClientTransport({
+    command: settings.command,
+    args: settings.args,
+    env: { ...getDefaultEnvironment(), ...settings.env },
+    stderr: 'pipe'
+  });
+  transport.stderr?.on('data', (chunk: Buffer) => logger.debug(`[repomix-mcp] ${chunk.toString('utf8').trim()}`));
+
+  const client = new Client({ name: serverInfo.name, version: serverInfo.version }, { capabilities: {} });
+
+  try {
+    await client.connect(transport, { timeout: CONNECT_TIMEOUT_MS });
+
+    const { tools } = await client.listTools(undefined, { timeout: CONNECT_TIMEOUT_MS });
+    const missingTools = REQUIRED_TOOLS.filter(name => !tools.some(tool => tool.name === name));
+    if (missingTools.length > 0) {
+      throw new RepositoryPackagingError(`Repomix MCP server does not offer ${missingTools.join(', ')}`);
+    }
+  } catch (error) {
+    await client.close().catch(() => {});
+    throw error;
+  }
+
+  const server = client.getServerVersion();
+  logger.info(`Connected to Repomix MCP server${server ? ` ${server.name} ${server.version}` : ''}`);
+  return client;
+}
+
+/**
+ * The open connection to the Repomix MCP server, connecting on first use
+ * When the server exits the connection is dropped and the next request reconnects.
+ */
+async function getRepomixMcpClient(logger: Logger): Promise<Client> {
+  if (!connection) {
+    const pending = connect(logger);
+    connection = pending;
+
+    pending.then(
+      client => {
+        client.onclose = () => {
+          logger.info('Repomix MCP server connection closed');
+          if (connection === pending) {
+            connection = null;
+          }
+        };
+      },
+      () => {
+        lastConnectFailure = Date.now();
+        if (connection === pending) {
+          connection = null;
+        }
+      }
+    );
+  }
+
+  return connection;
 }
 
 /**
  * Check if Repomix MCP server is available
+ * Connects and completes the initialize handshake and tool discovery; a failed attempt is
+ * remembered so packaging does not try to start the server again for a few minutes.
  */
-export async function isRepomixMcpAvailable(): Promise<boolean> {
+export async function isRepomixMcpAvailable(logger?: Logger): Promise<boolean> {
+  const log: Logger = logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+  if (!getConfigManager(log).getRepomixMcpSettings().enabled) {
+    return false;
+  }
+
+  if (!connection && Date.now() - lastConnectFailure < RECONNECT_INTERVAL_MS) {
+    log.debug('Skipping Repomix MCP server after a recent failed connection');
+    return false;
+  }
+
   try {
-    // We'll implement a simple health check by calling the tool with minimal arguments
-    // This just tests if the tool can be found and is executable
-    const healthResult = await callMcpTool("pack_codebase", { 
-      directory: process.cwd(),
-      compress: true,
-      topFilesLength: 1
-    }, true);
-    
-    return !healthResult.isError;
+    await getRepomixMcpClient(log);
+    return true;
   } catch (error) {
-    // If any error occurs, assume MCP is not available
+    log.warn(`Repomix MCP server is not available: ${error instanceof Error ? error.message : String(error)}`);
     return false;
   }
 }
 
+/**
+ * Call a tool on the Repomix MCP server
+ * Progress notifications from the server are relayed and extend the timeout.
+ */
+async function callRepomixTool(
+  name: string,
+  args: Record<string, unknown>,
+  options: { logger: Logger; onProgress?: ProgressCallback; signal?: AbortSignal }
+): Promise<ToolResult> {
+  const { timeoutSeconds } = getConfigManager(options.logger).getRepomixMcpSettings();
+  const client = await getRepomixMcpClient(options.logger);
+
+  let result: ToolResult;
+  try {
+    result = await client.callTool({ name, arguments: args }, undefined, {
+      signal: options.signal,
+      timeout: timeoutSeconds * 1000,
+      resetTimeoutOnProgress: true,
+      onprogress: progress => {
+        const message = progress.message || `${progress.progress}${progress.total ? `/${progress.total}` : ''}`;
+        Promise.resolve(options.onProgress?.({ message: `\n[repomix: ${message}]\n` }))
+          .catch(error => options.logger.debug('Could not relay Repomix progress', error));
+      }
+    }) as ToolResult;
+  } catch (error) {
+    throwIfCancelled(options.signal);
+    throw new RepositoryPackagingError(
+      `Repomix MCP tool ${name} failed: ${error instanceof Error ? error.message : String(error)}`,
+      error
+    );
+  }
+
+  if (result.isError) {
+    throw new RepositoryPackagingError(`Repomix MCP tool ${name} failed: ${getResultTexts(result).join('\n') || 'Unknown error'}`);
+  }
+
+  return result;
+}
+
+/**
+ * Find the output ID and counts in a pack_codebase result
+ */
+function parsePackResult(result: ToolResult): PackCodebaseResult {
+  for (const data of getResultObjects(result)) {
+    if (typeof data.outputId === 'string') {
+      return {
+        outputId: data.outputId,
+        totalFiles: typeof data.totalFiles === 'number' ? data.totalFiles : undefined,
+        totalTokens: typeof data.totalTokens === 'number' ? data.totalTokens : undefined
+      };
+    }
+  }
+
+  throw new RepositoryPackagingError('Repomix MCP pack_codebase result did not include an output ID');
+}
+
+/**
+ * Read the packed output through read_repomix_output
+ * Newer servers return the content in a JSON object; older ones return a heading followed by the content.
+ */
+async function readRepomixOutput(
+  outputId: string,
+  options: { logger: Logger; onProgress?: ProgressCallback; signal?: AbortSignal }
+): Promise<string> {
+  const result = await callRepomixTool('read_repomix_output', { outputId }, options);
+
+  const data = getResultObjects(result).find(object => typeof object.content === 'string');
+  if (data) {
+    return data.content as string;
+  }
+
+  const texts = getResultTexts(result).filter(text => !/^Content of Repomix output file/i.test(text));
+  if (texts.length === 0) {
+    throw new RepositoryPackagingError(`Repomix MCP server returned no content for output ${outputId}`);
+  }
+  return texts.join('\n');
+}
+
+/**
+ * Directory to pack: the component directory when one is given, otherwise the repository
+ */
+function resolvePackDirectory(repoDir: string, componentPath?: string): string {
+  const root = path.resolve(repoDir);
+  if (!componentPath) {
+    return root;
+  }
+
+  const directory = path.resolve(root, componentPath);
+  const relative = path.relative(root, directory);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new RepositoryPackagingError(`Component path ${componentPath} is outside the repository`);
+  }
+  return directory;
+}
+
+/**
+ * Drop whole files from the end of packed output until it fits within maxTokens
+ * The size of each part is estimated from the characters per token of the whole output.
+ */
+function trimToTokenLimit(
+  content: string,
+  totalTokens: number,
+  maxTokens: number
+): { content: string; fileCount: number } {
+  const maxLength = Math.floor(maxTokens * (content.length / totalTokens));
+  const firstFile = content.search(/<file\s/);
+  const lastFileEnd = content.lastIndexOf('</file>') + '</file>'.length;
+
+  if (firstFile === -1 || lastFileEnd < firstFile) {
+    return { content: content.slice(0, maxLength), fileCount: 0 };
+  }
+
+  const head = content.slice(0, firstFile);
+  const tail = content.slice(lastFileEnd);
+  const files = content.slice(firstFile, lastFileEnd).match(/<file\s[\s\S]*?<\/file>\s*/g) || [];
+
+  let kept = head;
+  let fileCount = 0;
+  for (const file of files) {
+    if (kept.length + file.length + tail.length > maxLength) {
+      break;
+    }
+    kept += file;
+    fileCount++;
+  }
+
+  return { content: kept + tail, fileCount };
+}
+
 /**
  * Package a repository using Repomix via MCP
+ * A componentPath is packed as the directory; maxTokens trims the packed output.
  */
 export async function packageRepositoryViaMcp(
   repoDir: string,
@@ -55,7 +316,8 @@ export async function packageRepositoryViaMcp(
   logger?: Logger
 ): Promise<PackageResult> {
   const log: Logger = logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
-  
+  const callOptions = { logger: log, onProgress: options.onProgress, signal: options.signal };
+
   try {
     log.info("Packaging repository via Repomix MCP", {
       repoDir,
@@ -63,47 +325,32 @@ export async function packageRepositoryViaMcp(
       componentPath: options.componentPath || 'None (repository overview)'
     });
 
-    // Prepare MCP request arguments
-    const mcpArgs = {
-      directory: repoDir,
+    const packResult = parsePackResult(await callRepomixTool("pack_codebase", {
+      directory: resolvePackDirectory(repoDir, options.componentPath),
       compress: options.compress !== false, // Default to true
       includePatterns: options.include?.join(','),
       ignorePatterns: options.exclude?.join(','),
       topFilesLength: 20
-    };
+    }, callOptions));
 
-    // Call Repomix MCP
-    const result = await callMcpTool("pack_codebase", mcpArgs);
-    
-    if (result.isError) {
-      throw new Error(`MCP error: ${result.content[0]?.text || "Unknown error"}`);
-    }
-    
-    // Extract output ID from metadata
-    const outputId = result.metadata?.outputId;
-    let content = "";
-    
-    // If we have output ID, read the file
-    if (outputId) {
-      log.info(`Reading output from MCP with ID: ${outputId}`);
-      content = await readMcpOutput(outputId);
-    } else if (result.content && result.content.length > 0) {
-      // Otherwise, use content directly from the response
-      log.info(`Using content directly from MCP response`);
-      content = result.content.map(item => item.text).join("\n");
-    } else {
-      throw new Error("No content returned from MCP server");
+    log.info(`Reading output from MCP with ID: ${packResult.outputId}`);
+    let content = await readRepomixOutput(packResult.outputId, callOptions);
+    let totalFiles = packResult.totalFiles ?? (content.match(/<file\s/g) || []).length;
+    let totalTokens = packResult.totalTokens ?? (await countTokens(content, { logger: log })).tokens;
+
+    if (options.maxTokens && totalTokens > options.maxTokens) {
+      const trimmed = trimToTokenLimit(content, totalTokens, options.maxTokens);
+      log.info(`Packed output has ${totalTokens} tokens; keeping ${trimmed.fileCount} of ${totalFiles} files to stay within ${options.maxTokens}`);
+      content = trimmed.content;
+      totalFiles = trimmed.fileCount;
+      totalTokens = (await countTokens(content, { logger: log })).tokens;
     }
-    
+
     // Write content to output file
     await fs.writeFile(outputFile, content, 'utf-8');
-    
-    // Extract metadata from result
-    const totalFiles = result.metadata?.fileCount || 0;
-    const totalTokens = result.metadata?.tokenCount || 0;
-    
+
     log.info(`Successfully packaged repository via MCP: ${totalFiles} files, ${totalTokens} tokens`);
-    
+
     return {
       totalFiles,
       totalTokens,
@@ -112,6 +359,10 @@ export async function packageRepositoryViaMcp(
       usedMcp: true
     };
   } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      throw error;
+    }
+
     log.error(`Failed to package repository via MCP: ${error instanceof Error ? error.message : String(error)}`);
     throw new RepositoryPackagingError(
       `MCP packaging failed: ${error instanceof Error ? error.message : String(error)}`,
@@ -119,132 +370,3 @@ export async function packageRepositoryViaMcp(
     );
   }
 }
-
-/**
- * Call a tool on the MCP server
- * This implements the MCP tool call using the MCP protocol
- */
-async function callMcpTool(
-  toolName: string, 
-  args: Record<string, any>,
-  isHealthCheck: boolean = false
-): Promise<McpResponse> {
-  try {
-    // Construct the command to call repomix via npx
-    // For health check, we add a --dry-run flag to avoid actual processing
-    const npxCommand = isHealthCheck
-      ? `npx -y repomix --info-only`
-      : `npx -y repomix`;
-    
-    // Convert args to command line arguments
-    const argString = Object.entries(args)
-      .filter(([_, value]) => value !== undefined)
-      .map(([key, value]) => {
-        // Handle boolean values
-        if (typeof value === 'boolean') {
-          return value ? `--${key}` : `--no-${key}`;
-        }
-        // Handle arrays by joining with commas
-        if (Array.isArray(value)) {
-          return `--${key}="${value.join(',')}"`;
-        }
-        // Handle string and number values
-        return `--${key}="${value}"`;
-      })
-      .join(' ');
-    
-    // Use the child_process module to execute the command
-    const { execSync } = await import('child_process');
-    const fullCommand = `${npxCommand} ${argString}`;
-    
-    try {
-      const output = execSync(fullCommand, { 
-        encoding: 'utf-8',
-        stdio: ['ignore', 'pipe', 'pipe'], // Redirect stdout and stderr to pipes
-        timeout: 60000 // 60 second timeout
-      });
-      
-      // Parse the output as JSON if possible
-      try {
-        // For health check, we just care that it executed
-        if (isHealthCheck) {
-          return { 
-            content: [{ type: "text", text: "MCP Repomix is available" }],
-            isError: false
-          };
-        }
-        
-        // Try to parse the output as JSON
-        const outputJson = JSON.parse(output);
-        
-        // Extract metadata from the output
-        const fileCount = outputJson.fileCount || outputJson.total_files || 0;
-        const tokenCount = outputJson.tokenCount || outputJson.total_tokens || 0;
-        
-        // Create a response with the parsed information
-        return {
-          content: [{ type: "text", text: outputJson.content || output }],
-          isError: false,
-          metadata: {
-            fileCount,
-            tokenCount,
-            outputId: outputJson.outputId || outputJson.output_id
-          }
-        };
-      } catch (parseError) {
-        // If we can't parse as JSON, use raw output
-        return {
-          content: [{ type: "text", text: output }],
-          isError: false
-        };
-      }
-    } catch (execError: any) {
-      // Command execution failed
-      return {
-        content: [{ 
-          type: "text", 
-          text: execError.message || "Failed to execute Repomix MCP tool"
-        }],
-        isError: true
-      };
-    }
-  } catch (error) {
-    // Something went wrong with the MCP call setup
-    return {
-      content: [{ 
-        type: "text", 
-        text: error instanceof Error ? error.message : String(error) 
-      }],
-      isError: true
-    };
-  }
-}
-
-/**
- * Read output from MCP server
- * This reads the output file generated by Repomix
- */
-async function readMcpOutput(outputId: string): Promise<string> {
-  try {
-    // Look for the output file in common locations
-    const possibleLocations = [
-      `./${outputId}`,
-      `./${outputId}.txt`,
-      `./repomix-output-${outputId}.txt`,
-      `/tmp/${outputId}`,
-      `/tmp/${outputId}.txt`,
-      `/tmp/repomix-output-${outputId}.txt`
-    ];
-    
-    for (const location of possibleLocations) {
-      if (existsSync(location)) {
-        return await fs.readFile(location, 'utf-8');
-      }
-    }
-    
-    // If we can't find the file, throw an error
-    throw new Error(`Cannot find Repomix output file with ID: ${outputId}`);
-  } catch (error) {
-    throw new Error(`Failed to read MCP output: ${error instanceof Error ? error.message : String(error)}`);
-  }
-}
@@ -9,16 +9,21 @@ import { existsSync } from 'fs';
 import { callRepomixCli } from './repomix-cli-wrapper.js';
 import { simplifiedPackageRepository } from './fallback-packaging.js';
 import { isRepomixMcpAvailable, packageRepositoryViaMcp } from './repomix-mcp.js';
+import { packageWithCache } from './packaging-cache.js';
+import { packageChangedFiles } from './diff-packaging.js';
+import { getConfigManager } from './config-manager.js';
 import { 
   DEFAULT_IGNORE_PATTERNS,
   prioritizeFiles,
   loadRepomixIgnoreFile
 } from './repomix-config.js';
-import { RepositoryPackagingError } from './errors.js';
+import { RepositoryPackagingError, RequestCancelledError, ValidationError } from './errors.js';
+import { throwIfCancelled } from './utils.js';
 import { SIZE_LIMITS } from './validation.js';
 import {
   PackageRepositoryOptions,
   PackageResult,
+  PackagingStrategy,
   Logger
 } from './types.js';
 
@@ -36,6 +41,9 @@ export interface RepoScanResult {
  * Enhanced repository packaging with CLI-first approach
  * This function has been optimized to use the CLI approach as the primary method
  * since the direct library approach is not working with Repomix 0.3.1
+ * When the packaging cache is enabled, unchanged files are reused from the previous run.
+ * With options.baseRef only the files changed since that git ref are packaged.
+ * Aborting options.signal kills the Repomix process and skips the remaining fallbacks.
  */
 export async function enhancedPackageRepository(
   repoDir: string,
@@ -54,6 +62,10 @@ export async function enhancedPackageRepository(
   if (!outputFile) {
     throw new Error("Output file path is undefined");
   }
+  
+  if (options.headRef && !options.baseRef) {
+    throw new ValidationError("headRef requires baseRef");
+  }
 
   log.info("Enhanced repository packaging started", {
     repoDir,
@@ -62,133 +74,234 @@ export async function enhancedPackageRepository(
   });
   
   try {
-    // First attempt: Try using Repomix via MCP if available
-    if (await isRepomixMcpAvailable()) {
-      try {
-        log.info("Attempting to package repository via Repomix MCP...");
-        const mcpResult = await packageRepositoryViaMcp(repoDir, outputFile, options, log);
-        
-        log.info(`Successfully packaged repository via MCP: ${mcpResult.totalFiles} files, ${mcpResult.totalTokens} tokens`);
-        
-        return {
-          ...mcpResult,
-          usedMcp: true,
-          usedFallback: false
-        };
-      } catch (mcpError) {
-        // MCP approach failed, log and continue to other methods
-        log.warn(`Repomix MCP packaging failed: ${mcpError instanceof Error ? mcpError.message : String(mcpError)}`);
-        log.info("Falling back to CLI wrapper...");
-      }
+    throwIfCancelled(options.signal);
+    
+    // Diff-scoped packaging covers only a few files and is not cached
+    if (options.baseRef) {
+      return await packageChangedFiles(repoDir, outputFile, options, {
+        findImports: async dir => {
+          const scan = await scanRepository(dir, { exclude: options.exclude, maxDepth: Infinity, logger: log });
+          return extractImports(dir, scan.files, log);
+        },
+        packageDirectory: (dir, dirOutputFile, filePaths) => packageWithStrategies(
+          dir,
+          dirOutputFile,
+          { ...options, include: filePaths, componentPath: undefined },
+          log
+        )
+      }, log);
     }
     
-    // Look for .repomixignore file
-    let ignorePatterns = options.exclude || DEFAULT_IGNORE_PATTERNS;
-    try {
-      const repomixIgnorePatterns = await loadRepomixIgnoreFile(repoDir, log);
-      if (repomixIgnorePatterns && repomixIgnorePatterns.length > 0) {
-        // Combine with existing patterns, but prioritize .repomixignore
-        ignorePatterns = [...repomixIgnorePatterns, ...DEFAULT_IGNORE_PATTERNS];
-        log.info(`Using ${repomixIgnorePatterns.length} patterns from .repomixignore file`);
-      }
-    } catch (ignoreError) {
-      log.warn(`Error loading .repomixignore file: ${ignoreError instanceof Error ? ignoreError.message : String(ignoreError)}`);
+    // Temporary clones are deleted after one analysis, so caching them would only evict real caches
+    if (options.useCache === false || !getConfigManager(log).getPackagingCacheSettings().enabled) {
+      return await packageWithStrategies(repoDir, outputFile, options, log);
+    }
+    
+    return await packageWithCache(repoDir, outputFile, options, {
+      listFiles: async () => {
+        const scan = await scanRepository(repoDir, { exclude: options.exclude, maxDepth: Infinity, logger: log });
+        // Packed outputs written into the repository are not repository files
+        return scan.files
+          .map(file => file.path)
+          .filter(filePath => path.resolve(repoDir, filePath) !== path.resolve(outputFile) &&
+            !path.basename(filePath).startsWith('.repomix-output-'));
+      },
+      packageAll: () => packageWithStrategies(repoDir, outputFile, options, log),
+      packageDirectory: async (strategy, dir, dirOutputFile) => packageWithStrategy(
+        strategy,
+        dir,
+        dirOutputFile,
+        options,
+        await loadIgnorePatterns(repoDir, options, log),
+        log
+      )
+    }, log);
+  } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      throw error;
     }
     
-    // Second attempt: Use CLI wrapper directly (skipping library attempt)
+    log.error(`Failed to package repository: ${error instanceof Error ? error.message : String(error)}`, error);
+    throw new RepositoryPackagingError(`Failed to package repository: ${error instanceof Error ? error.message : String(error)}`, error);
+  }
+}
+
+/**
+ * Try each packaging strategy in turn: Repomix MCP, the Repomix CLI, then the fallback packager
+ */
+async function packageWithStrategies(
+  repoDir: string,
+  outputFile: string,
+  options: PackageRepositoryOptions,
+  log: Logger
+): Promise<PackageResult> {
+  // First attempt: Try using Repomix via MCP if available
+  if (await isRepomixMcpAvailable(log)) {
     try {
-      log.info("Using Repomix CLI wrapper...");
-      
-      // Determine include patterns
-      let includePatterns: string[] = [];
-      
-      if (options.include && options.include.length > 0) {
-        // Use explicitly provided include patterns
-        includePatterns = options.include;
-        log.info(`Using ${includePatterns.length} explicitly included files/patterns`);
-      } else if (options.componentPath) {
-        // If a component path is specified, focus on that directory
-        includePatterns = [`${options.componentPath}/**/*`];
-        log.info(`Focusing on component path: ${options.componentPath}`);
-      } else {
-        // Default include patterns
-        includePatterns = [
-          '**/*.js',
-          '**/*.ts',
-          '**/*.tsx',
-          '**/*.jsx',
-          '**/*.json',
-          '**/*.md',
-          'src/**'
-        ];
-        log.info(`Using default include patterns`);
-      }
-      
-      // Call CLI wrapper
-      const cliResult = await callRepomixCli(repoDir, outputFile, {
-        include: includePatterns,
-        exclude: ignorePatterns, // Use combined patterns including .repomixignore
-        maxTokens: options.maxTokens,
-        logger: log
-      });
-      
-      log.info(`Successfully packaged repository with Repomix CLI: ${cliResult.totalFiles} files, ${cliResult.totalTokens} tokens`);
+      log.info("Attempting to package repository via Repomix MCP...");
+      return await packageWithStrategy('mcp', repoDir, outputFile, options, [], log);
+    } catch (mcpError) {
+      throwIfCancelled(options.signal);
       
+      // MCP approach failed, log and continue to other methods
+      log.warn(`Repomix MCP packaging failed: ${mcpError instanceof Error ? mcpError.message : String(mcpError)}`);
+      log.info("Falling back to CLI wrapper...");
+    }
+  }
+  
+  const ignorePatterns = await loadIgnorePatterns(repoDir, options, log);
+  
+  // Second attempt: Use CLI wrapper directly (skipping library attempt)
+  try {
+    log.info("Using Repomix CLI wrapper...");
+    return await packageWithStrategy('cli', repoDir, outputFile, options, ignorePatterns, log);
+  } catch (cliError) {
+    if (cliError instanceof RequestCancelledError) {
+      throw cliError;
+    }
+    
+    // CLI wrapper failed, try fallback solution
+    log.warn(`Repomix CLI wrapper failed: ${cliError instanceof Error ? cliError.message : String(cliError)}`);
+    log.info("Falling back to simplified packaging solution...");
+    
+    // Third attempt: Use custom fallback solution
+    try {
+      const fallbackResult = await packageWithStrategy('fallback', repoDir, outputFile, options, ignorePatterns, log);
       return {
-        totalFiles: cliResult.totalFiles,
-        totalTokens: cliResult.totalTokens,
-        filePaths: includePatterns,
-        usedMcp: false,
-        usedCliWrapper: true,
-        usedFallback: false
+        ...fallbackResult,
+        fallbackError: cliError instanceof Error ? cliError.message : String(cliError)
       };
-    } catch (cliError) {
-      // CLI wrapper failed, try fallback solution
-      log.warn(`Repomix CLI wrapper failed: ${cliError instanceof Error ? cliError.message : String(cliError)}`);
-      log.info("Falling back to simplified packaging solution...");
-      
-      // Third attempt: Use custom fallback solution
-      try {
-        const fallbackResult = await simplifiedPackageRepository(
-          repoDir,
-          outputFile,
-          {
-            includePatterns: options.include,
-            excludePatterns: ignorePatterns, // Use combined patterns including .repomixignore
-            maxTokens: options.maxTokens || SIZE_LIMITS.MAX_TOKEN_COUNT,
-            componentPath: options.componentPath,
-            query: options.query,
-            analysisType: options.analysisType,
-            logger: log
-          }
-        );
-        
-        log.info(`Successfully packaged repository with fallback solution: ${fallbackResult.fileCount} files, ${fallbackResult.estimatedTokens} estimated tokens`);
-        
-        return {
-          totalFiles: fallbackResult.fileCount,
-          totalTokens: fallbackResult.estimatedTokens,
-          filePaths: options.include || [],
-          usedMcp: false,
-          usedCliWrapper: false,
-          usedFallback: true,
-          fallbackError: cliError instanceof Error ? cliError.message : String(cliError)
-        };
-      } catch (fallbackError) {
-        // All methods failed
-        log.error(`Fallback packaging also failed: ${fallbackError instanceof Error ? fallbackError.message : String(fallbackError)}`);
-        throw new RepositoryPackagingError(
-          `Repository packaging failed with all available methods. Original error: ${cliError instanceof Error ? cliError.message : String(cliError)}`,
-          fallbackError
-        );
-      }
+    } catch (fallbackError) {
+      // All methods failed
+      log.error(`Fallback packaging also failed: ${fallbackError instanceof Error ? fallbackError.message : String(fallbackError)}`);
+      throw new RepositoryPackagingError(
+        `Repository packaging failed with all available methods. Original error: ${cliError instanceof Error ? cliError.message : String(cliError)}`,
+        fallbackError
+      );
     }
-  } catch (error) {
-    log.error(`Failed to package repository: ${error instanceof Error ? error.message : String(error)}`, error);
-    throw new RepositoryPackagingError(`Failed to package repository: ${error instanceof Error ? error.message : String(error)}`, error);
   }
 }
 
+/**
+ * Package a repository with a single strategy
+ */
+async function packageWithStrategy(
+  strategy: PackagingStrategy,
+  repoDir: string,
+  outputFile: string,
+  options: PackageRepositoryOptions,
+  ignorePatterns: string[],
+  log: Logger
+): Promise<PackageResult> {
+  if (strategy === 'mcp') {
+    const mcpResult = await packageRepositoryViaMcp(repoDir, outputFile, options, log);
+    
+    log.info(`Successfully packaged repository via MCP: ${mcpResult.totalFiles} files, ${mcpResult.totalTokens} tokens`);
+    
+    return {
+      ...mcpResult,
+      usedMcp: true,
+      usedFallback: false
+    };
+  }
+  
+  if (strategy === 'cli') {
+    // Determine include patterns
+    let includePatterns: string[] = [];
+    
+    if (options.include && options.include.length > 0) {
+      // Use explicitly provided include patterns
+      includePatterns = options.include;
+      log.info(`Using ${includePatterns.length} explicitly included files/patterns`);
+    } else if (options.componentPath) {
+      // If a component path is specified, focus on that directory
+      includePatterns = [`${options.componentPath}/**/*`];
+      log.info(`Focusing on component path: ${options.componentPath}`);
+    } else {
+      // Default include patterns
+      includePatterns = [
+        '**/*.js',
+        '**/*.ts',
+        '**/*.tsx',
+        '**/*.jsx',
+        '**/*.json',
+        '**/*.md',
+        'src/**'
+      ];
+      log.info(`Using default include patterns`);
+    }
+    
+    // Call CLI wrapper
+    const cliResult = await callRepomixCli(repoDir, outputFile, {
+      include: includePatterns,
+      exclude: ignorePatterns, // Use combined patterns including .repomixignore
+      maxTokens: options.maxTokens,
+      logger: log,
+      onProgress: options.onProgress,
+      signal: options.signal
+    });
+    
+    log.info(`Successfully packaged repository with Repomix CLI: ${cliResult.totalFiles} files, ${cliResult.totalTokens} tokens`);
+    
+    return {
+      totalFiles: cliResult.totalFiles,
+      totalTokens: cliResult.totalTokens,
+      filePaths: includePatterns,
+      usedMcp: false,
+      usedCliWrapper: true,
+      usedFallback: false
+    };
+  }
+  
+  const fallbackResult = await simplifiedPackageRepository(
+    repoDir,
+    outputFile,
+    {
+      includePatterns: options.include,
+      excludePatterns: ignorePatterns, // Use combined patterns including .repomixignore
+      maxTokens: options.maxTokens || SIZE_LIMITS.MAX_TOKEN_COUNT,
+      componentPath: options.componentPath,
+      query: options.query,
+      analysisType: options.analysisType,
+      logger: log
+    }
+  );
+  
+  log.info(`Successfully packaged repository with fallback solution: ${fallbackResult.fileCount} files, ${fallbackResult.estimatedTokens} estimated tokens`);
+  
+  return {
+    totalFiles: fallbackResult.fileCount,
+    totalTokens: fallbackResult.estimatedTokens,
+    filePaths: options.include || [],
+    usedMcp: false,
+    usedCliWrapper: false,
+    usedFallback: true
+  };
+}
+
+/**
+ * Exclude patterns for the CLI and fallback strategies, led by any .repomixignore patterns
+ */
+async function loadIgnorePatterns(
+  repoDir: string,
+  options: PackageRepositoryOptions,
+  log: Logger
+): Promise<string[]> {
+  // Look for .repomixignore file
+  let ignorePatterns = options.exclude || DEFAULT_IGNORE_PATTERNS;
+  try {
+    const repomixIgnorePatterns = await loadRepomixIgnoreFile(repoDir, log);
+    if (repomixIgnorePatterns && repomixIgnorePatterns.length > 0) {
+      // Combine with existing patterns, but prioritize .repomixignore
+      ignorePatterns = [...repomixIgnorePatterns, ...DEFAULT_IGNORE_PATTERNS];
+      log.info(`Using ${repomixIgnorePatterns.length} patterns from .repomixignore file`);
+    }
+  } catch (ignoreError) {
+    log.warn(`Error loading .repomixignore file: ${ignoreError instanceof Error ? ignoreError.message : String(ignoreError)}`);
+  }
+  return ignorePatterns;
+}
+
 /**
  * Scan repository to get file and directory information
  * This is a simplified version that only scans the repository and doesn't involve Repomix
@@ -411,6 +524,7 @@ export async function extractImports(
   const importPatterns = [
     // JavaScript/TypeScript
     { regex: /\b(?:import|require)\s*\(?['"]([@\w\d\-_./\\]+)['"]\)?/g, language: ['js', 'ts', 'jsx', 'tsx'] },
+    { regex: /\bfrom\s+['"]([@\w\d\-_./\\]+)['"]/g, language: ['js', 'ts', 'jsx', 'tsx'] },
     // Python
     { regex: /\b(?:import|from)\s+([\w\d\-_./\\]+)/g, language: ['py'] },
     // Java
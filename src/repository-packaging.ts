@@ -12,7 +12,7 @@ import {
   enhancedPackageRepository,
   extractRepositoryStructure
 } from './repomix-utils.js';
-import { Logger } from './types.js';
+import { Logger, ProgressCallback } from './types.js';
 
 /**
  * Handles the packaging of a repository using Repomix or fallback methods
@@ -28,6 +28,12 @@ export async function packageRepository(
     exclude?: string[]; 
     maxTokens?: number;
     logger?: Logger;
+    onProgress?: ProgressCallback;
+    signal?: AbortSignal;
+    baseRef?: string;
+    headRef?: string;
+    includeDiff?: boolean;
+    includeImporters?: boolean;
   } = {}
 ): Promise<{
   packagePath: string;
@@ -47,15 +53,30 @@ export async function packageRepository(
   const outputFile = options.outputFile || path.join(repoDir, `.repomix-output-${Date.now()}.txt`);
   
   // Use the CLI-prioritized approach for packaging
-  const packageResult = await enhancedPackageRepository(repoDir, outputFile, {
-    query: options.query,
-    analysisType: options.analysisType,
-    componentPath: options.componentPath,
-    include: options.include,
-    exclude: options.exclude,
-    maxTokens: options.maxTokens,
-    logger
-  }, logger);
+  let packageResult;
+  try {
+    packageResult = await enhancedPackageRepository(repoDir, outputFile, {
+      query: options.query,
+      analysisType: options.analysisType,
+      componentPath: options.componentPath,
+      include: options.include,
+      exclude: options.exclude,
+      maxTokens: options.maxTokens,
+      logger,
+      onProgress: options.onProgress,
+      signal: options.signal,
+      baseRef: options.baseRef,
+      headRef: options.headRef,
+      includeDiff: options.includeDiff,
+      includeImporters: options.includeImporters
+    }, logger);
+  } catch (error) {
+    // Don't leave a partial package in the repository when packaging fails or is cancelled
+    if (!options.outputFile) {
+      await fs.rm(outputFile, { force: true });
+    }
+    throw error;
+  }
   
   // Generate structure visualization if not already included
   const structure = await extractRepositoryStructure(repoDir, { 
@@ -1,11 +1,20 @@
-import { NetworkError } from './errors.js';
-import { Logger, OutputFormat } from './types.js';
+import { NetworkError, ContentBlockedError } from './errors.js';
+import { Logger, OutputFormat, ProviderName } from './types.js';
 
 /**
  * Types for Gemini API responses
  */
 export interface GeminiPart {
-  text: string;
+  text?: string;
+  thought?: boolean;                    // Thought summary rather than answer text
+  functionCall?: {                      // Tool call requested by the model
+    name: string;
+    args?: Record<string, unknown>;
+  };
+  functionResponse?: {                  // Result of a tool call, sent back to the model
+    name: string;
+    response: Record<string, unknown>;
+  };
 }
 
 export interface GeminiContent {
@@ -13,17 +22,47 @@ export interface GeminiContent {
   role?: string;
 }
 
+export interface GeminiSafetyRating {
+  category: string;
+  probability: string;
+  blocked?: boolean;
+}
+
+export interface GeminiPromptFeedback {
+  blockReason?: string;
+  safetyRatings?: GeminiSafetyRating[];
+}
+
+export interface GeminiUsageMetadata {
+  promptTokenCount: number;
+  candidatesTokenCount?: number;
+  totalTokenCount: number;
+  cachedContentTokenCount?: number;
+  thoughtsTokenCount?: number;
+}
+
 export interface GeminiCandidate {
   content: GeminiContent;
   finishReason: string;
   index?: number;
-  safetyRatings?: any[];
+  safetyRatings?: GeminiSafetyRating[];
 }
 
 export interface GeminiResponse {
   candidates: GeminiCandidate[];
-  promptFeedback?: any;
-  usage?: {
+  promptFeedback?: GeminiPromptFeedback;
+  usageMetadata?: GeminiUsageMetadata;  // As returned by the Gemini API
+  modelVersion?: string;                // As returned by the Gemini API
+  model?: string;                       // Model that answered (set by callGeminiRaw)
+  provider?: ProviderName;              // LLM provider that served the request
+  attemptedModels?: string[];           // Models tried, in order, including the one that answered
+  continuationRounds?: number;          // Follow-up requests stitched on after MAX_TOKENS stops
+  contextCache?: {                      // Context cache used for the request, if any
+    name: string;
+    hit: boolean;
+    cachedTokens: number;
+  };
+  usage?: {                             // Legacy shape, still accepted by parseGeminiResponse
     promptTokenCount: number;
     candidatesTokenCount: number;
     totalTokenCount: number;
@@ -51,15 +90,59 @@ export interface ResponseParsingOptions {
 export interface ParsedGeminiResponse {
   text: string;
   format: ResponseFormat;
-  safety?: any;
+  safety?: GeminiSafetyRating[];
+  promptFeedback?: GeminiPromptFeedback;
+  model?: string;
+  provider?: ProviderName;
+  attemptedModels?: string[];
+  continuationRounds?: number;
+  contextCache?: {
+    hit: boolean;
+    cachedTokens: number;
+    tokensSaved: number;  // Tokens not re-uploaded because an existing cache was reused
+  };
   usage?: {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    thinkingTokens?: number;
   };
+  thoughtSummary?: string;  // Present when thought summaries were requested
   finishReason?: string;
 }
 
+// Finish reasons meaning the candidate was withheld by a safety filter
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+/**
+ * Throw a ContentBlockedError if the prompt or every candidate was blocked
+ */
+export function throwIfContentBlocked(response: GeminiResponse): void {
+  if (!response.candidates || response.candidates.length === 0) {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new ContentBlockedError(
+        `Gemini blocked the prompt (${blockReason})`,
+        blockReason,
+        response.promptFeedback?.safetyRatings
+      );
+    }
+    return;
+  }
+  
+  const isBlocked = (candidate: GeminiCandidate) =>
+    !!candidate.finishReason && BLOCKED_FINISH_REASONS.includes(candidate.finishReason);
+  
+  if (response.candidates.every(isBlocked)) {
+    const candidate = response.candidates[0];
+    throw new ContentBlockedError(
+      `Gemini blocked the response (${candidate.finishReason})`,
+      candidate.finishReason,
+      candidate.safetyRatings
+    );
+  }
+}
+
 /**
  * Parse raw Gemini API response into a more usable format
  */
@@ -77,6 +160,8 @@ export function parseGeminiResponse(
   try {
     const response = rawResponse as GeminiResponse;
     
+    throwIfContentBlocked(response);
+    
     // Check if response has candidates
     if (!response.candidates || response.candidates.length === 0) {
       throw new NetworkError("No candidates returned from Gemini API");
@@ -88,13 +173,15 @@ export function parseGeminiResponse(
     let text = '';
     if (candidate.content && candidate.content.parts) {
       text = candidate.content.parts
-        .filter(part => part.text)
-        .map(part => part.text)
+        .filter(part => part.text && !part.thought)
+        .map(part => part.text as string)
         .join('');
     }
     
     if (!text) {
-      throw new NetworkError("Empty response from Gemini API");
+      throw new NetworkError(candidate.finishReason && candidate.finishReason !== 'STOP'
+        ? `Empty response from Gemini API (finish reason: ${candidate.finishReason})`
+        : "Empty response from Gemini API");
     }
     
     // Detect format if not specified
@@ -107,17 +194,54 @@ export function parseGeminiResponse(
       finishReason: candidate.finishReason
     };
     
+    // Record which model answered, including any fallback
+    if (response.model || response.modelVersion) {
+      parsedResponse.model = response.model || response.modelVersion;
+    }
+    if (response.provider) {
+      parsedResponse.provider = response.provider;
+    }
+    if (response.attemptedModels && response.attemptedModels.length > 1) {
+      parsedResponse.attemptedModels = response.attemptedModels;
+    }
+    if (response.continuationRounds) {
+      parsedResponse.continuationRounds = response.continuationRounds;
+    }
+    const thoughtSummary = (candidate.content?.parts || [])
+      .filter(part => part.thought && part.text)
+      .map(part => part.text as string)
+      .join('');
+    if (thoughtSummary) {
+      parsedResponse.thoughtSummary = thoughtSummary;
+    }
+    
+    if (response.contextCache) {
+      const cachedTokens = response.usageMetadata?.cachedContentTokenCount || response.contextCache.cachedTokens;
+      parsedResponse.contextCache = {
+        hit: response.contextCache.hit,
+        cachedTokens,
+        tokensSaved: response.contextCache.hit ? cachedTokens : 0
+      };
+    }
+    
     // Add safety info if requested and available
-    if (options.includeSafetyInfo && candidate.safetyRatings) {
-      parsedResponse.safety = candidate.safetyRatings;
+    if (options.includeSafetyInfo) {
+      if (candidate.safetyRatings) {
+        parsedResponse.safety = candidate.safetyRatings;
+      }
+      if (response.promptFeedback) {
+        parsedResponse.promptFeedback = response.promptFeedback;
+      }
     }
     
     // Add usage info if requested and available
-    if (options.includeUsageInfo && response.usage) {
+    const usage = response.usageMetadata || response.usage;
+    if (options.includeUsageInfo && usage) {
       parsedResponse.usage = {
-        promptTokens: response.usage.promptTokenCount,
-        completionTokens: response.usage.candidatesTokenCount,
-        totalTokens: response.usage.totalTokenCount
+        promptTokens: usage.promptTokenCount || 0,
+        completionTokens: usage.candidatesTokenCount || 0,
+        totalTokens: usage.totalTokenCount || 0,
+        ...(response.usageMetadata?.thoughtsTokenCount ? { thinkingTokens: response.usageMetadata.thoughtsTokenCount } : {})
       };
     }
     
@@ -131,7 +255,7 @@ export function parseGeminiResponse(
   } catch (error: any) {
     logger.error("Error parsing Gemini response", error);
     
-    if (error instanceof NetworkError) {
+    if (error instanceof NetworkError || error instanceof ContentBlockedError) {
       throw error;
     }
     
@@ -139,6 +263,39 @@ export function parseGeminiResponse(
   }
 }
 
+/**
+ * Parse every candidate of a response (requested with candidateCount)
+ * Candidates that were blocked or came back empty are skipped; the response-level
+ * metadata (model, usage, context cache) is repeated on each parsed candidate.
+ */
+export function parseGeminiCandidates(
+  rawResponse: any,
+  options: ResponseParsingOptions = {}
+): ParsedGeminiResponse[] {
+  const response = rawResponse as GeminiResponse;
+  const logger: Logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  
+  throwIfContentBlocked(response);
+  
+  const parsed: ParsedGeminiResponse[] = [];
+  let lastError: unknown;
+  
+  for (const candidate of response.candidates || []) {
+    try {
+      parsed.push(parseGeminiResponse({ ...response, candidates: [candidate] }, options));
+    } catch (error) {
+      lastError = error;
+      logger.warn(`Skipping candidate ${candidate.index ?? parsed.length}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  if (parsed.length === 0) {
+    throw lastError instanceof Error ? lastError : new NetworkError("No candidates returned from Gemini API");
+  }
+  
+  return parsed;
+}
+
 /**
  * Attempt to detect the format of the response
  */
@@ -186,6 +343,113 @@ function detectResponseFormat(text: string): ResponseFormat {
   return 'text';
 }
 
+/**
+ * Build the metadata footer appended to text responses
+ */
+function buildMetadataText(response: ParsedGeminiResponse): string {
+  let metadata = '\n\n---\n';
+  
+  if (response.model) {
+    metadata += `\nModel: ${response.model}`;
+    
+    if (response.attemptedModels) {
+      const failedModels = response.attemptedModels.filter(model => model !== response.model);
+      metadata += ` (fallback after ${failedModels.join(', ')} failed)`;
+    }
+  }
+  
+  if (response.provider) {
+    metadata += `\nProvider: ${response.provider}`;
+  }
+  
+  if (response.finishReason) {
+    metadata += `\nFinish reason: ${response.finishReason}`;
+    
+    if (response.finishReason === 'MAX_TOKENS') {
+      metadata += ' (response was truncated; increase maxTokens for a complete answer)';
+    }
+  }
+  
+  if (response.continuationRounds) {
+    metadata += `\nContinuation rounds: ${response.continuationRounds}`;
+  }
+  
+  if (response.contextCache) {
+    metadata += response.contextCache.hit
+      ? `\nContext cache: hit (${response.contextCache.tokensSaved} tokens saved)`
+      : `\nContext cache: created (${response.contextCache.cachedTokens} tokens cached for follow-up questions)`;
+  }
+  
+  if (response.usage) {
+    metadata += `\nToken usage: ${response.usage.totalTokens} tokens`;
+    metadata += ` (${response.usage.promptTokens} prompt, ${response.usage.completionTokens} completion`;
+    metadata += response.usage.thinkingTokens ? `, ${response.usage.thinkingTokens} thinking)` : ')';
+  }
+  
+  if (response.promptFeedback?.blockReason) {
+    metadata += `\nPrompt blocked: ${response.promptFeedback.blockReason}`;
+  }
+  
+  const flaggedRatings = (response.safety || []).filter(
+    rating => rating.blocked || (rating.probability !== 'NEGLIGIBLE' && rating.probability !== 'LOW')
+  );
+  if (flaggedRatings.length > 0) {
+    metadata += `\nSafety ratings: ${flaggedRatings.map(rating => `${rating.category}=${rating.probability}`).join(', ')}`;
+  }
+  
+  if (response.thoughtSummary) {
+    metadata += `\n\nThought summary:\n${response.thoughtSummary}`;
+  }
+  
+  return metadata;
+}
+
+/**
+ * Add metadata fields to a JSON response object
+ */
+function addMetadataFields(output: any, response: ParsedGeminiResponse): void {
+  if (response.model) {
+    output.model = response.model;
+  }
+  
+  if (response.provider) {
+    output.provider = response.provider;
+  }
+  
+  if (response.attemptedModels) {
+    output.attemptedModels = response.attemptedModels;
+  }
+  
+  if (response.continuationRounds) {
+    output.continuationRounds = response.continuationRounds;
+  }
+  
+  if (response.contextCache) {
+    output.contextCache = response.contextCache;
+  }
+  
+  if (response.finishReason) {
+    output.finishReason = response.finishReason;
+    output.truncated = response.finishReason === 'MAX_TOKENS';
+  }
+  
+  if (response.usage) {
+    output.usage = response.usage;
+  }
+  
+  if (response.safety) {
+    output.safetyRatings = response.safety;
+  }
+  
+  if (response.promptFeedback) {
+    output.promptFeedback = response.promptFeedback;
+  }
+  
+  if (response.thoughtSummary) {
+    output.thoughtSummary = response.thoughtSummary;
+  }
+}
+
 /**
  * Format the response for MCP output
  */
@@ -202,18 +466,7 @@ export function formatResponseForMCP(
   
   // Add metadata information if requested
   if (options.includeMetadata) {
-    let metadata = '\n\n---\n';
-    
-    if (parsedResponse.finishReason) {
-      metadata += `\nFinish reason: ${parsedResponse.finishReason}`;
-    }
-    
-    if (parsedResponse.usage) {
-      metadata += `\nToken usage: ${parsedResponse.usage.totalTokens} tokens`;
-      metadata += ` (${parsedResponse.usage.promptTokens} prompt, ${parsedResponse.usage.completionTokens} completion)`;
-    }
-    
-    responseText += metadata;
+    responseText += buildMetadataText(parsedResponse);
   }
   
   logger.debug("Formatted response for MCP", {
@@ -237,29 +490,32 @@ export function createStructuredOutput(
     includePrompt?: boolean;
     includeMetadata?: boolean;
     outputFormat?: OutputFormat;
+    structured?: { schema: string; data: unknown; attempts: number };  // Schema-validated JSON result
+    selfConsistency?: { samples: number; validSamples: number; strategy: string };  // Merged-sample details
     logger?: Logger;
   } = {}
 ): { content: Array<{ type: string; text: string }> } {
   const logger: Logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
   
   if (options.outputFormat === 'json') {
-    const output: any = {
-      response: response.text,
-      format: response.format
-    };
+    const output: any = options.structured
+      ? {
+          schema: options.structured.schema,
+          result: options.structured.data,
+          attempts: options.structured.attempts,
+          ...(options.selfConsistency ? { selfConsistency: options.selfConsistency } : {})
+        }
+      : {
+          response: response.text,
+          format: response.format
+        };
     
     if (options.includePrompt) {
       output.query = query;
     }
     
     if (options.includeMetadata) {
-      if (response.finishReason) {
-        output.finishReason = response.finishReason;
-      }
-      
-      if (response.usage) {
-        output.usage = response.usage;
-      }
+      addMetadataFields(output, response);
     }
     
     logger.debug("Created JSON structured output");
@@ -277,18 +533,7 @@ export function createStructuredOutput(
   }
   
   if (options.includeMetadata) {
-    let metadata = '\n\n---\n';
-    
-    if (response.finishReason) {
-      metadata += `\nFinish reason: ${response.finishReason}`;
-    }
-    
-    if (response.usage) {
-      metadata += `\nToken usage: ${response.usage.totalTokens} tokens`;
-      metadata += ` (${response.usage.promptTokens} prompt, ${response.usage.completionTokens} completion)`;
-    }
-    
-    output += metadata;
+    output += buildMetadataText(response);
   }
   
   logger.debug("Created text structured output");
@@ -331,13 +576,7 @@ export function buildResponseFromAnalysis(
     
     // Add metadata if requested
     if (options.includeMetadata) {
-      if (parsedResponse.finishReason) {
-        output.finishReason = parsedResponse.finishReason;
-      }
-      
-      if (parsedResponse.usage) {
-        output.usage = parsedResponse.usage;
-      }
+      addMetadataFields(output, parsedResponse);
     }
     
     logger.debug("Created JSON response with analysis data");
@@ -367,18 +606,7 @@ export function buildResponseFromAnalysis(
   
   // Add metadata if requested
   if (options.includeMetadata) {
-    let metadata = '\n\n---\n';
-    
-    if (parsedResponse.finishReason) {
-      metadata += `\nFinish reason: ${parsedResponse.finishReason}`;
-    }
-    
-    if (parsedResponse.usage) {
-      metadata += `\nToken usage: ${parsedResponse.usage.totalTokens} tokens`;
-      metadata += ` (${parsedResponse.usage.promptTokens} prompt, ${parsedResponse.usage.completionTokens} completion)`;
-    }
-    
-    output += metadata;
+    output += buildMetadataText(parsedResponse);
   }
   
   logger.debug("Created text response with analysis data");
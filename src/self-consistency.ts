@@ -0,0 +1,339 @@
+/**
+ * Self-consistency for structured analyses
+ * The same analysis is sampled several times (as candidates of one request, or as parallel
+ * requests), the findings of every sample are merged, and each merged finding is scored by
+ * how many samples reported it.
+ */
+import { callGeminiParsed, callGeminiRaw } from './gemini-api.js';
+import { getLlmProvider } from './llm-provider.js';
+import { ParsedGeminiResponse, createStructuredOutput, parseGeminiCandidates } from './response-handler.js';
+import {
+  StructuredOutputSchema,
+  buildStructuredRequest,
+  getStructuredOutputSchema,
+  validateStructuredText
+} from './structured-output.js';
+import { NetworkError, ValidationError } from './errors.js';
+import { AnalysisType, GeminiOptions, Logger, McpCallbackResponse, OutputFormat, SamplingStrategy } from './types.js';
+
+// Gemini accepts at most 8 candidates per request
+export const MAX_SAMPLES = 8;
+
+// Title word overlap (Jaccard) at which two findings in the same file count as the same finding
+const TITLE_SIMILARITY_THRESHOLD = 0.5;
+
+type FindingItem = Record<string, unknown>;
+
+/**
+ * A finding merged across samples
+ */
+export type MergedFinding = FindingItem & {
+  agreement: number;   // Samples that reported the finding
+  confidence: number;  // agreement / samples
+};
+
+/**
+ * Options for a self-consistent analysis
+ */
+export interface SelfConsistencyOptions extends GeminiOptions {
+  samples: number;
+  samplingStrategy?: SamplingStrategy;
+  outputFormat?: OutputFormat;
+}
+
+/**
+ * A group of matching findings from different samples
+ */
+interface FindingCluster {
+  items: FindingItem[];
+  sampleIndexes: Set<number>;
+}
+
+/**
+ * Lowercased words of a title, ignoring very short words
+ */
+function titleWords(title: unknown): Set<string> {
+  return new Set(
+    String(title || '').toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2)
+  );
+}
+
+/**
+ * Jaccard similarity of two word sets
+ */
+function wordSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) {
+      shared++;
+    }
+  }
+
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Normalize a file path for comparison
+ */
+function normalizeFile(file: unknown): string | undefined {
+  return typeof file === 'string' && file
+    ? file.replace(/\\/g, '/').replace(/^\.\//, '').toLowerCase()
+    : undefined;
+}
+
+/**
+ * Whether two findings from different samples describe the same problem
+ * Findings in different files never match; a shared CWE or similar titles do.
+ */
+function isSameFinding(a: FindingItem, b: FindingItem, schema: StructuredOutputSchema): boolean {
+  const fileA = normalizeFile(a.file ?? a.path);
+  const fileB = normalizeFile(b.file ?? b.path);
+  if (fileA && fileB && fileA !== fileB) {
+    return false;
+  }
+
+  if (a.cwe && b.cwe && String(a.cwe).toUpperCase() === String(b.cwe).toUpperCase()) {
+    return true;
+  }
+
+  return wordSimilarity(titleWords(a[schema.titleField]), titleWords(b[schema.titleField])) >= TITLE_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Position of a rank value (severity, impact) in the schema's order; unknown values sort last
+ */
+function rankIndex(value: unknown, schema: StructuredOutputSchema): number {
+  const index = schema.rankOrder?.indexOf(String(value)) ?? -1;
+  return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+}
+
+/**
+ * Most reported rank value in a cluster, preferring the more severe one on ties
+ */
+function consensusRank(items: FindingItem[], schema: StructuredOutputSchema): unknown {
+  const counts = new Map<unknown, number>();
+  for (const item of items) {
+    counts.set(item[schema.rankField!], (counts.get(item[schema.rankField!]) || 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .sort(([valueA, countA], [valueB, countB]) => countB - countA || rankIndex(valueA, schema) - rankIndex(valueB, schema))[0][0];
+}
+
+/**
+ * Merge the findings of several validated samples
+ * Duplicates are grouped, each group is represented by its first finding and scored by the
+ * number of samples in it, and the result is ordered by agreement, then severity.
+ */
+export function mergeSampleFindings(
+  samples: Record<string, unknown>[],
+  schema: StructuredOutputSchema
+): { summary: unknown; items: MergedFinding[] } {
+  const clusters: FindingCluster[] = [];
+
+  samples.forEach((sample, sampleIndex) => {
+    const items = (sample[schema.itemsField] as FindingItem[] | undefined) || [];
+
+    for (const item of items) {
+      // A sample can only vote once per cluster, so two similar findings from one sample stay separate
+      const cluster = clusters.find(candidate =>
+        !candidate.sampleIndexes.has(sampleIndex) && isSameFinding(candidate.items[0], item, schema)
+      );
+
+      if (cluster) {
+        cluster.items.push(item);
+        cluster.sampleIndexes.add(sampleIndex);
+      } else {
+        clusters.push({ items: [item], sampleIndexes: new Set([sampleIndex]) });
+      }
+    }
+  });
+
+  const items: MergedFinding[] = clusters.map(cluster => ({
+    ...cluster.items[0],
+    ...(schema.rankField ? { [schema.rankField]: consensusRank(cluster.items, schema) } : {}),
+    agreement: cluster.sampleIndexes.size,
+    confidence: Math.round((cluster.sampleIndexes.size / samples.length) * 100) / 100
+  }));
+
+  items.sort((a, b) =>
+    b.agreement - a.agreement ||
+    (schema.rankField ? rankIndex(a[schema.rankField], schema) - rankIndex(b[schema.rankField], schema) : 0)
+  );
+
+  return { summary: samples[0].summary, items };
+}
+
+/**
+ * Draw the samples: candidates of one request, or independent requests
+ * Candidate sampling needs Gemini models, so other providers always use parallel requests,
+ * as do models that reject candidateCount with a 400.
+ * When a packed repository is served from a context cache, the first parallel request runs
+ * alone so the cache it creates is reused by the rest.
+ */
+async function drawSamples(
+  prompt: string,
+  options: SelfConsistencyOptions,
+  logger: Logger
+): Promise<{ responses: ParsedGeminiResponse[]; strategy: SamplingStrategy }> {
+  const { samples, samplingStrategy, outputFormat, onProgress, ...geminiOptions } = options;
+  const provider = getLlmProvider(options.provider, logger);
+  const strategy: SamplingStrategy = provider.usesGeminiModels ? samplingStrategy || 'candidates' : 'parallel';
+
+  if (strategy === 'candidates') {
+    await onProgress?.({ message: `Requesting ${samples} candidates\n` });
+
+    try {
+      // Streaming and continuation only follow the first candidate, so both are off here
+      const rawResponse = await callGeminiRaw(prompt, { ...geminiOptions, candidateCount: samples, maxContinuations: 0 });
+      const responses = parseGeminiCandidates(rawResponse, { includeUsageInfo: true, includeSafetyInfo: true, logger });
+
+      if (responses.length < samples) {
+        logger.warn(`Received ${responses.length} of ${samples} requested candidates`);
+      }
+      return { responses, strategy };
+    } catch (error) {
+      if (!(error instanceof NetworkError && error.statusCode === 400)) {
+        throw error;
+      }
+      logger.warn(`Model rejected candidateCount ${samples}, drawing parallel samples instead: ${error.message}`);
+    }
+  }
+
+  let completed = 0;
+  const drawOne = async (): Promise<ParsedGeminiResponse> => {
+    const response = await callGeminiParsed(prompt, geminiOptions);
+    completed++;
+    await onProgress?.({ message: `Sample ${completed}/${samples} complete\n` });
+    return response;
+  };
+
+  const first = options.cachedContext ? [await drawOne()] : [];
+  const rest = await Promise.all(Array.from({ length: samples - first.length }, drawOne));
+
+  return { responses: [...first, ...rest], strategy: 'parallel' };
+}
+
+/**
+ * Total token usage across the sampled requests
+ * Candidates of one request share that request's usage, so it is only counted once.
+ */
+function sumUsage(responses: ParsedGeminiResponse[], strategy: SamplingStrategy): ParsedGeminiResponse['usage'] {
+  const counted = strategy === 'candidates' ? responses.slice(0, 1) : responses;
+  if (counted.some(response => !response.usage)) {
+    return counted[0].usage;
+  }
+
+  return counted.reduce<NonNullable<ParsedGeminiResponse['usage']>>((total, response) => ({
+    promptTokens: total.promptTokens + response.usage!.promptTokens,
+    completionTokens: total.completionTokens + response.usage!.completionTokens,
+    totalTokens: total.totalTokens + response.usage!.totalTokens,
+    ...(total.thinkingTokens || response.usage!.thinkingTokens
+      ? { thinkingTokens: (total.thinkingTokens || 0) + (response.usage!.thinkingTokens || 0) }
+      : {})
+  }), { promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+}
+
+/**
+ * Render merged findings as a markdown report
+ */
+function formatMergedReport(
+  summary: unknown,
+  items: MergedFinding[],
+  schema: StructuredOutputSchema,
+  sampleCount: number
+): string {
+  let text = `## Summary\n\n${String(summary || '')}\n\n`;
+  text += `## Findings (merged from ${sampleCount} samples)\n`;
+
+  if (items.length === 0) {
+    return `${text}\nNo findings were reported.\n`;
+  }
+
+  for (const item of items) {
+    const rank = schema.rankField ? `[${String(item[schema.rankField])}] ` : '';
+    const file = item.file ?? item.path;
+    const location = file ? ` — \`${String(file)}${item.line ? `:${item.line}` : ''}\`` : '';
+
+    text += `\n### ${rank}${String(item[schema.titleField])}${location}\n`;
+    text += `\nConfidence: ${Math.round(item.confidence * 100)}% (${item.agreement}/${sampleCount} samples agree)`;
+    if (item.cwe) {
+      text += ` | ${String(item.cwe)}`;
+    }
+    text += '\n';
+
+    for (const field of ['description', 'responsibility', 'recommendation']) {
+      if (item[field]) {
+        text += `\n${field === 'recommendation' ? '**Recommendation:** ' : ''}${String(item[field])}\n`;
+      }
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Run a structured analysis several times and merge the findings by agreement
+ * Samples that do not match the schema are dropped; if none match, a ValidationError is thrown.
+ */
+export async function runSelfConsistentAnalysis(
+  prompt: string,
+  query: string,
+  analysisType: AnalysisType | undefined,
+  options: SelfConsistencyOptions
+): Promise<McpCallbackResponse> {
+  const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  const samples = Math.min(Math.max(Math.floor(options.samples), 1), MAX_SAMPLES);
+  const schema = getStructuredOutputSchema(analysisType);
+  const request = buildStructuredRequest(prompt, schema, options);
+
+  logger.info(`Running self-consistent analysis with ${samples} samples using schema ${schema.name}`);
+
+  const { responses, strategy } = await drawSamples(
+    request.prompt,
+    { ...(request.options as SelfConsistencyOptions), samples, logger },
+    logger
+  );
+
+  const validSamples: Record<string, unknown>[] = [];
+  let lastErrors: Record<string, string> = {};
+  for (const response of responses) {
+    const result = validateStructuredText(response.text, schema);
+    if (result.success) {
+      validSamples.push(result.data as Record<string, unknown>);
+    } else {
+      lastErrors = result.errors;
+      logger.warn(`Dropping a sample that did not match schema ${schema.name}`, { errors: result.errors });
+    }
+  }
+
+  if (validSamples.length === 0) {
+    throw new ValidationError(`None of the ${responses.length} samples matched the ${schema.name} schema`, lastErrors);
+  }
+
+  const { summary, items } = mergeSampleFindings(validSamples, schema);
+  logger.info(`Merged ${items.length} findings from ${validSamples.length} samples`);
+
+  const merged: ParsedGeminiResponse = {
+    ...responses[0],
+    text: formatMergedReport(summary, items, schema, validSamples.length),
+    format: 'markdown',
+    usage: sumUsage(responses, strategy)
+  };
+
+  return createStructuredOutput(merged, query, {
+    includeMetadata: true,
+    outputFormat: options.outputFormat === 'json' ? 'json' : 'text',
+    structured: {
+      schema: schema.name,
+      data: { summary, [schema.itemsField]: items },
+      attempts: 1
+    },
+    selfConsistency: { samples, validSamples: validSamples.length, strategy },
+    logger
+  }) as McpCallbackResponse;
+}
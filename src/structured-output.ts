@@ -0,0 +1,343 @@
+/**
+ * Schema-enforced JSON output for analyses
+ * Each analysis type has a zod schema (for validation) and a matching Gemini responseSchema
+ * (so the model is constrained to produce conforming JSON).
+ */
+import { z } from "zod";
+import { callGeminiParsed } from './gemini-api.js';
+import { ParsedGeminiResponse, createStructuredOutput } from './response-handler.js';
+import { ValidationError } from './errors.js';
+import { AnalysisType, GeminiOptions, McpCallbackResponse } from './types.js';
+
+/**
+ * A structured output schema for one kind of analysis
+ */
+export interface StructuredOutputSchema<T = unknown> {
+  name: string;
+  zodSchema: z.ZodType<T>;
+  responseSchema: Record<string, unknown>;  // Gemini OpenAPI-style schema
+  itemsField: string;                        // Array of findings (merged by self-consistency)
+  titleField: string;                        // Item field naming the finding
+  rankField?: string;                        // Item enum field ordered by rankOrder
+  rankOrder?: readonly string[];             // Most to least important
+}
+
+/**
+ * Result of a schema-enforced Gemini call
+ */
+export interface StructuredGeminiResult<T = unknown> {
+  data: T;
+  schemaName: string;
+  attempts: number;
+  parsedResponse: ParsedGeminiResponse;
+}
+
+const SEVERITIES = ['critical', 'high', 'medium', 'low', 'info'] as const;
+const IMPACTS = ['high', 'medium', 'low'] as const;
+
+// === Security findings ===
+
+const securityFindingsSchema = z.object({
+  summary: z.string(),
+  findings: z.array(z.object({
+    title: z.string(),
+    severity: z.enum(SEVERITIES),
+    file: z.string().optional(),
+    line: z.number().int().optional(),
+    cwe: z.string().optional(),
+    description: z.string(),
+    recommendation: z.string()
+  }))
+});
+
+const securityResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    summary: { type: 'STRING' },
+    findings: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          title: { type: 'STRING' },
+          severity: { type: 'STRING', enum: [...SEVERITIES] },
+          file: { type: 'STRING' },
+          line: { type: 'INTEGER' },
+          cwe: { type: 'STRING' },
+          description: { type: 'STRING' },
+          recommendation: { type: 'STRING' }
+        },
+        required: ['title', 'severity', 'description', 'recommendation']
+      }
+    }
+  },
+  required: ['summary', 'findings']
+};
+
+// === Architecture components ===
+
+const componentsSchema = z.object({
+  summary: z.string(),
+  architectureStyle: z.string().optional(),
+  components: z.array(z.object({
+    name: z.string(),
+    path: z.string().optional(),
+    responsibility: z.string(),
+    dependencies: z.array(z.string()).optional()
+  }))
+});
+
+const componentsResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    summary: { type: 'STRING' },
+    architectureStyle: { type: 'STRING' },
+    components: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          name: { type: 'STRING' },
+          path: { type: 'STRING' },
+          responsibility: { type: 'STRING' },
+          dependencies: { type: 'ARRAY', items: { type: 'STRING' } }
+        },
+        required: ['name', 'responsibility']
+      }
+    }
+  },
+  required: ['summary', 'components']
+};
+
+// === Performance issues ===
+
+const performanceIssuesSchema = z.object({
+  summary: z.string(),
+  issues: z.array(z.object({
+    title: z.string(),
+    impact: z.enum(IMPACTS),
+    file: z.string().optional(),
+    line: z.number().int().optional(),
+    description: z.string(),
+    recommendation: z.string()
+  }))
+});
+
+const performanceResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    summary: { type: 'STRING' },
+    issues: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          title: { type: 'STRING' },
+          impact: { type: 'STRING', enum: [...IMPACTS] },
+          file: { type: 'STRING' },
+          line: { type: 'INTEGER' },
+          description: { type: 'STRING' },
+          recommendation: { type: 'STRING' }
+        },
+        required: ['title', 'impact', 'description', 'recommendation']
+      }
+    }
+  },
+  required: ['summary', 'issues']
+};
+
+// === General findings (any other analysis type) ===
+
+const generalFindingsSchema = z.object({
+  summary: z.string(),
+  findings: z.array(z.object({
+    title: z.string(),
+    file: z.string().optional(),
+    description: z.string(),
+    recommendation: z.string().optional()
+  }))
+});
+
+const generalResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    summary: { type: 'STRING' },
+    findings: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          title: { type: 'STRING' },
+          file: { type: 'STRING' },
+          description: { type: 'STRING' },
+          recommendation: { type: 'STRING' }
+        },
+        required: ['title', 'description']
+      }
+    }
+  },
+  required: ['summary', 'findings']
+};
+
+export const STRUCTURED_OUTPUT_SCHEMAS: Record<string, StructuredOutputSchema> = {
+  security: {
+    name: 'security-findings',
+    zodSchema: securityFindingsSchema,
+    responseSchema: securityResponseSchema,
+    itemsField: 'findings',
+    titleField: 'title',
+    rankField: 'severity',
+    rankOrder: SEVERITIES
+  },
+  architecture: {
+    name: 'components',
+    zodSchema: componentsSchema,
+    responseSchema: componentsResponseSchema,
+    itemsField: 'components',
+    titleField: 'name'
+  },
+  performance: {
+    name: 'performance-issues',
+    zodSchema: performanceIssuesSchema,
+    responseSchema: performanceResponseSchema,
+    itemsField: 'issues',
+    titleField: 'title',
+    rankField: 'impact',
+    rankOrder: IMPACTS
+  },
+  general: {
+    name: 'findings',
+    zodSchema: generalFindingsSchema,
+    responseSchema: generalResponseSchema,
+    itemsField: 'findings',
+    titleField: 'title'
+  }
+};
+
+/**
+ * Get the structured output schema for an analysis type
+ * Unknown or missing types use the general findings schema.
+ */
+export function getStructuredOutputSchema(analysisType?: AnalysisType): StructuredOutputSchema {
+  return (analysisType && STRUCTURED_OUTPUT_SCHEMAS[analysisType]) || STRUCTURED_OUTPUT_SCHEMAS.general;
+}
+
+/**
+ * Parse and validate model output against a schema
+ * Returns the validated data or the problems keyed by field path.
+ */
+export function validateStructuredText<T>(
+  text: string,
+  schema: StructuredOutputSchema<T>
+): { success: true; data: T } | { success: false; errors: Record<string, string> } {
+  let json: unknown;
+  try {
+    // Tolerate a fenced code block around the JSON
+    const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    json = JSON.parse(unfenced);
+  } catch (error) {
+    return { success: false, errors: { '(root)': `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}` } };
+  }
+
+  const result = schema.zodSchema.safeParse(json);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const errors: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    errors[issue.path.join('.') || '(root)'] = issue.message;
+  }
+
+  return { success: false, errors };
+}
+
+/**
+ * Prompt and options that put a request in schema-enforced JSON mode
+ */
+export function buildStructuredRequest<T>(
+  prompt: string,
+  schema: StructuredOutputSchema<T>,
+  options: GeminiOptions = {}
+): { prompt: string; options: GeminiOptions } {
+  return {
+    prompt: `${prompt}\n\nRespond only with JSON that matches the "${schema.name}" response schema.`,
+    options: {
+      ...options,
+      responseMimeType: 'application/json',
+      responseSchema: schema.responseSchema
+    }
+  };
+}
+
+/**
+ * Call Gemini in JSON mode with a responseSchema and validate the result
+ * If the output does not conform, the request is retried once with the validation errors.
+ */
+export async function callGeminiStructured<T>(
+  prompt: string,
+  schema: StructuredOutputSchema<T>,
+  options: GeminiOptions = {}
+): Promise<StructuredGeminiResult<T>> {
+  const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+  const request = buildStructuredRequest(prompt, schema, options);
+
+  const parsedResponse = await callGeminiParsed(request.prompt, request.options);
+  const firstAttempt = validateStructuredText(parsedResponse.text, schema);
+
+  if (firstAttempt.success) {
+    return { data: firstAttempt.data, schemaName: schema.name, attempts: 1, parsedResponse };
+  }
+
+  logger.warn(`Structured output did not match schema ${schema.name}, retrying once`, { errors: firstAttempt.errors });
+
+  const retryPrompt = `${request.prompt}
+
+Your previous response did not conform to the schema:
+${Object.entries(firstAttempt.errors).map(([field, message]) => `- ${field}: ${message}`).join('\n')}
+
+Previous response:
+${parsedResponse.text}
+
+Return corrected JSON that fixes these problems.`;
+
+  const retryResponse = await callGeminiParsed(retryPrompt, request.options);
+  const secondAttempt = validateStructuredText(retryResponse.text, schema);
+
+  if (secondAttempt.success) {
+    return { data: secondAttempt.data, schemaName: schema.name, attempts: 2, parsedResponse: retryResponse };
+  }
+
+  throw new ValidationError(
+    `Gemini output did not match the ${schema.name} schema after a retry`,
+    secondAttempt.errors
+  );
+}
+
+/**
+ * Run an analysis prompt in schema-enforced JSON mode and format the MCP response
+ * The schema is chosen from the analysis type.
+ */
+export async function runStructuredAnalysis(
+  prompt: string,
+  query: string,
+  analysisType: AnalysisType | undefined,
+  options: GeminiOptions = {}
+): Promise<McpCallbackResponse> {
+  const schema = getStructuredOutputSchema(analysisType);
+  options.logger?.info(`Requesting structured JSON output using schema ${schema.name}`);
+
+  const result = await callGeminiStructured(prompt, schema, options);
+
+  return createStructuredOutput(result.parsedResponse, query, {
+    includeMetadata: true,
+    outputFormat: 'json',
+    structured: {
+      schema: result.schemaName,
+      data: result.data,
+      attempts: result.attempts
+    },
+    logger: options.logger
+  }) as McpCallbackResponse;
+}
@@ -0,0 +1,130 @@
+/**
+ * Token counting service backed by the active provider's countTokens endpoint
+ * Results are cached by content hash; the character-ratio heuristic is used when the API is unavailable.
+ */
+import crypto from 'crypto';
+import { callGeminiCountTokens } from './gemini-api.js';
+import { isLlmProviderConfigured } from './llm-provider.js';
+import { getConfigManager } from './config-manager.js';
+import { getCassetteMode } from './cassettes.js';
+import { estimateTokenCount, TOKEN_LIMITS } from './token-management.js';
+import { Logger } from './types.js';
+
+// Maximum number of cached counts kept in memory
+const MAX_CACHE_ENTRIES = 5000;
+
+// After a failed API call, use the heuristic for this long before trying again
+const OFFLINE_RETRY_MS = 60 * 1000;
+
+const tokenCountCache = new Map<string, number>();
+let offlineUntil = 0;
+
+/**
+ * Result of counting tokens for a piece of text
+ */
+export interface TokenCountResult {
+  tokens: number;
+  source: 'api' | 'cache' | 'estimate';
+}
+
+/**
+ * Options for token counting
+ */
+export interface TokenCountOptions {
+  modelId?: string;
+  logger?: Logger;
+}
+
+/**
+ * Cache key for a model/content pair
+ */
+function getCacheKey(text: string, provider: string, modelId?: string): string {
+  return crypto.createHash('sha256')
+    .update(provider)
+    .update('\0')
+    .update(modelId || 'default')
+    .update('\0')
+    .update(text)
+    .digest('hex');
+}
+
+/**
+ * Store a count, evicting the oldest entry when the cache is full
+ */
+function cacheTokenCount(key: string, tokens: number): void {
+  if (tokenCountCache.size >= MAX_CACHE_ENTRIES) {
+    const oldestKey = tokenCountCache.keys().next().value;
+    if (oldestKey !== undefined) {
+      tokenCountCache.delete(oldestKey);
+    }
+  }
+  tokenCountCache.set(key, tokens);
+}
+
+/**
+ * Count tokens for text, preferring the countTokens API over the heuristic estimate
+ */
+export async function countTokens(
+  text: string,
+  options: TokenCountOptions = {}
+): Promise<TokenCountResult> {
+  const logger = options.logger || { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+  if (!text) {
+    return { tokens: 0, source: 'estimate' };
+  }
+
+  // Providers tokenize differently, so counts are cached per provider
+  const key = getCacheKey(text, getConfigManager(logger).getProvider(), options.modelId);
+  const cached = tokenCountCache.get(key);
+  if (cached !== undefined) {
+    return { tokens: cached, source: 'cache' };
+  }
+
+  // Cassette runs use the estimate so prompt trimming is the same with and without network access
+  if (!isLlmProviderConfigured(undefined, logger) || getCassetteMode(logger) !== 'off' || Date.now() < offlineUntil) {
+    return { tokens: estimateTokenCount(text, options.modelId), source: 'estimate' };
+  }
+
+  try {
+    const tokens = await callGeminiCountTokens(text, { model: options.modelId, logger });
+    cacheTokenCount(key, tokens);
+    logger.debug(`countTokens returned ${tokens} tokens for ${text.length} characters`);
+    return { tokens, source: 'api' };
+  } catch (error) {
+    offlineUntil = Date.now() + OFFLINE_RETRY_MS;
+    logger.warn(`countTokens unavailable, using estimate: ${error instanceof Error ? error.message : String(error)}`);
+    return { tokens: estimateTokenCount(text, options.modelId), source: 'estimate' };
+  }
+}
+
+/**
+ * Measure the characters-per-token ratio of a content sample
+ * Lets synchronous code (per-file budgets, size-based selection) use a calibrated ratio.
+ */
+export async function getCharsPerToken(
+  sample: string,
+  options: TokenCountOptions = {}
+): Promise<number> {
+  const heuristicRatio = (options.modelId && TOKEN_LIMITS.MODEL_TOKEN_RATIOS[options.modelId])
+    || TOKEN_LIMITS.MODEL_TOKEN_RATIOS.default;
+
+  if (!sample) {
+    return heuristicRatio;
+  }
+
+  const { tokens, source } = await countTokens(sample, options);
+  if (source === 'estimate' || tokens === 0) {
+    return heuristicRatio;
+  }
+
+  return sample.length / tokens;
+}
+
+/**
+ * Clear cached token counts and forget earlier API failures
+ */
+export function clearTokenCountCache(): void {
+  tokenCountCache.clear();
+  offlineUntil = 0;
+}
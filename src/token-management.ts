@@ -3,6 +3,7 @@
  */
 import { TokenLimitError } from './errors.js';
 import { extractKeywords, calculateRelevanceScore } from './keyword-extraction.js';
+import { countTokens } from './token-counter.js';
 
 /**
  * Token limit configuration
@@ -60,19 +61,24 @@ export function estimateTokenCount(
 
 /**
  * Check if content exceeds token limits and throw error if it does
+ * Uses the countTokens API when available and returns the token count.
  */
-export function validateTokenCount(
+export async function validateTokenCount(
   content: string, 
   maxTokens: number,
-  modelId?: string
-): void {
-  const estimatedTokens = estimateTokenCount(content, modelId);
+  modelId?: string,
+  logger?: any
+): Promise<number> {
+  const { tokens, source } = await countTokens(content, { modelId, logger });
   
-  if (estimatedTokens > maxTokens) {
+  if (tokens > maxTokens) {
+    const qualifier = source === 'estimate' ? 'estimated ' : '';
     throw new TokenLimitError(
-      `Content exceeds token limit: estimated ${estimatedTokens} tokens exceeds maximum ${maxTokens} tokens`
+      `Content exceeds token limit: ${qualifier}${tokens} tokens exceeds maximum ${maxTokens} tokens`
     );
   }
+  
+  return tokens;
 }
 
 /**
@@ -85,6 +91,7 @@ export interface TrimContentOptions {
   modelId?: string;
   addEllipsis?: boolean;
   insertMessage?: string;
+  tokenCounter?: (text: string) => number; // Defaults to estimateTokenCount
   logger?: any;
 }
 
@@ -96,7 +103,9 @@ export function trimContentToTokenLimit(
   options: TrimContentOptions
 ): string {
   const logger = options.logger || { debug: () => {}, info: () => {}, error: () => {} };
-  const estimatedTokens = estimateTokenCount(content, options.modelId);
+  const estimatedTokens = options.tokenCounter
+    ? options.tokenCounter(content)
+    : estimateTokenCount(content, options.modelId);
   
   // If already under limit, return unchanged
   if (estimatedTokens <= options.maxTokens) {
@@ -153,21 +162,28 @@ export interface SmartTrimOptions {
 
 /**
  * Smart trimming of repository content keeping the most important parts
+ * The total is counted with the countTokens API; sections use the ratio it implies.
  */
-export function smartTrimRepositoryContent(
+export async function smartTrimRepositoryContent(
   content: string,
   options: SmartTrimOptions
-): string {
+): Promise<string> {
   const logger = options.logger || { debug: () => {}, info: () => {}, error: () => {} };
   const contextSize = options.contextSize || 3;
   
-  const estimatedTokens = estimateTokenCount(content, options.modelId);
+  const { tokens: estimatedTokens, source } = await countTokens(content, { modelId: options.modelId, logger });
   
   // If already under limit, return unchanged
   if (estimatedTokens <= options.maxTokens) {
     return content;
   }
   
+  // Calibrate per-section counts against the measured total
+  const charsPerToken = content.length / estimatedTokens;
+  const countSectionTokens = source === 'estimate'
+    ? (text: string) => estimateTokenCount(text, options.modelId)
+    : (text: string) => Math.ceil(text.length / charsPerToken);
+  
   logger.info(`Smart trimming repository content from ${estimatedTokens} tokens to ${options.maxTokens} tokens`);
   
   // Split content into sections (files)
@@ -256,7 +272,7 @@ export function smartTrimRepositoryContent(
   
   // First pass: add high priority sections in their entirety
   for (const section of fileSections) {
-    const sectionTokens = estimateTokenCount(section.content, options.modelId);
+    const sectionTokens = countSectionTokens(section.content);
     
     if (currentTokens + sectionTokens <= maxTokensCopy) {
       // Can add the whole section
@@ -275,6 +291,7 @@ export function smartTrimRepositoryContent(
         addEllipsis: true,
         modelId: options.modelId,
         insertMessage: `\n\n[...TRIMMED CONTENT FROM ${section.fileName}...]\n\n`,
+        tokenCounter: countSectionTokens,
         logger
       });
       
@@ -8,17 +8,44 @@ export interface ConfigManagerInterface {
   getDefaultModel(): string;
   getDefaultTemperature(): number;
   getDefaultMaxTokens(): number;
+  getFallbackModels(): string[];
+  getMaxContinuations(): number;
+  getSafetySettings(): GeminiSafetySetting[];
+  getContextCacheTtl(): number;
+  getIncludeThoughts(): boolean;
+  getProvider(): ProviderName;
+  getVertexSettings(): VertexProviderSettings;
+  getOpenAICompatibleSettings(): OpenAICompatibleProviderSettings | undefined;
+  getCassetteSettings(): Required<CassetteSettings>;
+  getRateLimitSettings(): Required<RateLimitSettings>;
+  getSpendSettings(): Required<SpendSettings>;
   getRepositoryConfig(): RepositoryConfig;
+  getRepomixMcpSettings(): Required<RepomixMcpSettings>;
+  getPackagingCacheSettings(): Required<PackagingCacheSettings>;
   getGitHubConfig(): GitHubConfig | undefined;
   getConfig(): ServerConfig;
   getProfiles(): Record<string, ProfileConfig>;
   getActiveProfile(): string;
+  getConfigDirectory(): string;
   
   // Setter methods
   loadConfig(): Promise<void>;
   setDefaultModel(model: string): Promise<void>;
   setDefaultTemperature(temperature: number): Promise<void>;
   setDefaultMaxTokens(maxTokens: number): Promise<void>;
+  setFallbackModels(models: string[]): Promise<void>;
+  setMaxContinuations(maxContinuations: number): Promise<void>;
+  setSafetySettings(settings: GeminiSafetySetting[]): Promise<void>;
+  setContextCacheTtl(ttlSeconds: number): Promise<void>;
+  setIncludeThoughts(includeThoughts: boolean): Promise<void>;
+  setProvider(provider: ProviderName): Promise<void>;
+  setVertexSettings(settings: VertexProviderSettings): Promise<void>;
+  setOpenAICompatibleSettings(settings: OpenAICompatibleProviderSettings): Promise<void>;
+  setCassetteSettings(settings: CassetteSettings): Promise<void>;
+  setRateLimitSettings(settings: RateLimitSettings): Promise<void>;
+  setSpendSettings(settings: SpendSettings): Promise<void>;
+  setRepomixMcpSettings(settings: RepomixMcpSettings): Promise<void>;
+  setPackagingCacheSettings(settings: PackagingCacheSettings): Promise<void>;
   switchProfile(profileName: string): Promise<void>;
   createProfile(profile: ProfileConfig): Promise<void>;
   updateProfile(profileName: string, updates: Partial<ProfileConfig>): Promise<void>;
@@ -47,6 +74,19 @@ export type McpContentItem =
       [key: string]: unknown 
     };
 
+/**
+ * Progress update relayed to the MCP client while a tool is running
+ */
+export interface ProgressUpdate {
+  message?: string;
+  total?: number;
+}
+
+/**
+ * Callback used to report progress (e.g. partial Gemini output) to the MCP client
+ */
+export type ProgressCallback = (update: ProgressUpdate) => void | Promise<void>;
+
 /**
  * Represents the structure of a response expected by MCP tools/callbacks.
  */
@@ -87,8 +127,35 @@ export interface RepositoryConfig {
   includeImports: boolean;
   includeStructure: boolean;
   smartFiltering: boolean;
+  repomixMcp?: RepomixMcpSettings;  // Repomix MCP server used for packaging
+  packagingCache?: PackagingCacheSettings;  // Packed sections kept between runs
+}
+
+/**
+ * Repomix MCP server started over stdio for packaging
+ */
+export interface RepomixMcpSettings {
+  enabled?: boolean;
+  command?: string;               // Defaults to npx
+  args?: string[];                // Defaults to -y repomix --mcp
+  env?: Record<string, string>;   // Added to the inherited environment
+  timeoutSeconds?: number;        // Per tool call
+}
+
+/**
+ * Incremental packaging cache
+ */
+export interface PackagingCacheSettings {
+  enabled?: boolean;
+  directory?: string;             // Defaults to packaging-cache next to the config file
+  maxRepositories?: number;       // Least recently used caches beyond this are removed
 }
 
+/**
+ * Packaging method that produced a packed output
+ */
+export type PackagingStrategy = 'mcp' | 'cli' | 'fallback';
+
 /**
  * Profile configuration
  */
@@ -113,6 +180,17 @@ export interface ServerConfig {
     defaultModel: string;
     defaultTemperature: number;
     defaultMaxTokens: number;
+    fallbackModels?: string[];  // Tried in order when the requested model is unavailable
+    maxContinuations?: number;  // Continuation requests allowed after a MAX_TOKENS stop
+    safetySettings?: GeminiSafetySetting[];  // Block thresholds per harm category (API defaults when empty)
+    contextCacheTtlSeconds?: number;  // Lifetime of cached repository context (0 disables caching)
+    includeThoughts?: boolean;  // Request thought summaries from thinking models
+    provider?: ProviderName;  // Backend that serves generate/stream/countTokens (default gemini)
+    vertex?: VertexProviderSettings;
+    openaiCompatible?: OpenAICompatibleProviderSettings;
+    cassettes?: CassetteSettings;  // Record/replay of model calls for offline runs
+    rateLimits?: RateLimitSettings;  // Per-model request and input token quotas
+    spend?: SpendSettings;  // Budgets and prices for the usage ledger
   };
   repository: RepositoryConfig;
   github?: GitHubConfig;
@@ -149,6 +227,12 @@ export type AnalysisType = 'architecture' | 'security' | 'performance' | 'docume
  */
 export type AnalysisLevel = 'overview' | 'component' | 'detail';
 
+/**
+ * How repository content reaches the model
+ * packed: the repository is packaged up front; agentic: the model requests files through function calls
+ */
+export type AnalysisMode = 'packed' | 'agentic';
+
 /**
  * Output format options
  */
@@ -159,6 +243,12 @@ export type OutputFormat = 'text' | 'json' | 'markdown';
  */
 export type ReasoningEffort = 'low' | 'medium' | 'high';
 
+/**
+ * How self-consistency samples are drawn
+ * candidates: one request with candidateCount; parallel: independent requests
+ */
+export type SamplingStrategy = 'candidates' | 'parallel';
+
 // === GitHub API Types ===
 
 /**
@@ -226,6 +316,8 @@ export interface GitHubRepositoryOptions {
   smartFiltering?: boolean;
   includeForks?: boolean;
   logger?: Logger;
+  onProgress?: ProgressCallback;  // Receives clone and packaging progress
+  signal?: AbortSignal;  // Cancels the clone and packaging
 }
 
 /**
@@ -238,15 +330,27 @@ export interface RepositoryAnalysisOptions {
   maxTokens?: number;
   temperature?: number;
   reasoningEffort?: ReasoningEffort;
+  provider?: ProviderName;
   outputFormat?: OutputFormat;
   analysisType?: AnalysisType;
   analysisLevel?: AnalysisLevel;
   component?: string; // Specific component to analyze in component/detail level
   previousAnalysis?: string; // Results from previous analysis level for context
   logger?: Logger;
+  onProgress?: ProgressCallback; // Streams partial output to the client when provided
   includeStructure?: boolean;
   includeImports?: boolean;
   smartFiltering?: boolean;
+  analysisMode?: AnalysisMode;
+  agentMaxTurns?: number;    // Function-calling turns allowed in agentic mode
+  agentTokenBudget?: number; // Total tokens allowed across all turns in agentic mode
+  samples?: number;          // Self-consistency samples; findings are merged and scored by agreement
+  samplingStrategy?: SamplingStrategy;
+  signal?: AbortSignal;      // Set from the MCP request; cancels packaging and Gemini calls
+  baseRef?: string;          // Analyze only the files changed since this git ref
+  headRef?: string;          // Compare baseRef with this ref instead of the working tree
+  includeDiff?: boolean;     // Send the unified diff along with the changed files
+  includeImporters?: boolean; // Also send files that import a changed file
 }
 
 /**
@@ -260,8 +364,13 @@ export interface FileAnalysisOptions {
   maxTokens?: number;
   temperature?: number;
   reasoningEffort?: ReasoningEffort;
+  provider?: ProviderName;
   outputFormat?: OutputFormat;
   logger?: Logger;
+  onProgress?: ProgressCallback; // Streams partial output to the client when provided
+  samples?: number;              // Self-consistency samples; findings are merged and scored by agreement
+  samplingStrategy?: SamplingStrategy;
+  signal?: AbortSignal;          // Set from the MCP request; cancels the Gemini call
 }
 
 // === Prompt Template Types ===
@@ -292,6 +401,7 @@ export type PromptTemplateKey =
   | 'COMPONENT_ANALYSIS'
   | 'COMPONENT_SECURITY'
   | 'DETAIL_ANALYSIS'
+  | 'AGENTIC_ANALYSIS'
   | string;
 
 // === Gemini Types ===
@@ -308,6 +418,8 @@ export interface GeminiModelConfig {
   contextWindow: number;    // Total context window size
   defaultTemp: number;      // Default temperature value
   isPreview?: boolean;      // Whether the model is in preview
+  supportedMethods?: string[]; // Generation methods reported by models.list
+  thinkingBudgets?: Record<ReasoningEffort, number>; // thinkingConfig.thinkingBudget per reasoning effort (thinking models only)
 }
 
 /**
@@ -318,8 +430,191 @@ export interface GeminiOptions {
   temperature?: number;
   model?: string;
   logger?: Logger;
+  onProgress?: ProgressCallback; // When set, uses streamGenerateContent and relays partial text
+  history?: ChatTurn[];          // Earlier conversation turns sent before the prompt
+  responseMimeType?: string;     // e.g. 'application/json' for structured output
+  responseSchema?: Record<string, unknown>; // Gemini schema the JSON output must follow
+  fallbackModels?: string[];     // Overrides the profile's fallback chain ([] disables fallback)
+  maxContinuations?: number;     // Overrides the profile's continuation cap (0 disables continuation)
+  safetySettings?: GeminiSafetySetting[]; // Overrides the profile's safety thresholds
+  cachedContext?: string;        // Large prompt prefix (packed repository) to serve from a context cache
+  cachedContentName?: string;    // cachedContents entry referenced by the request (set internally)
+  reasoningEffort?: ReasoningEffort; // Selects the model's thinking budget on thinking models
+  includeThoughts?: boolean;     // Overrides the profile's thought summary setting
+  provider?: ProviderName;       // Overrides the profile's LLM provider
+  candidateCount?: number;       // Candidates per request (Gemini models only; disables streaming)
+  signal?: AbortSignal;          // Cancels in-flight requests, retries and continuations
+}
+
+/**
+ * Record/replay mode for model calls
+ * record: call the provider and save each response; replay: serve saved responses only.
+ */
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+/**
+ * Cassette settings (GEMINI_CASSETTE_MODE and GEMINI_CASSETTE_DIR override them)
+ */
+export interface CassetteSettings {
+  mode: CassetteMode;
+  directory?: string;  // Defaults to cassettes/ in the config directory
+}
+
+/**
+ * Requests and input tokens a model may receive per minute
+ */
+export interface ModelQuota {
+  requestsPerMinute: number;
+  inputTokensPerMinute: number;
+  maxConcurrentRequests?: number;  // Requests in flight at once (defaults to the default quota's, then 2)
+}
+
+/**
+ * Local rate limiter settings
+ * Requests over quota wait in a per-model queue for up to maxWaitSeconds.
+ */
+export interface RateLimitSettings {
+  default?: ModelQuota;
+  models?: Record<string, ModelQuota>;  // Quotas by model ID or provider:model ID, overriding the default
+  maxWaitSeconds?: number;
 }
 
+/**
+ * Price per million tokens in US dollars
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;        // Also charged for thinking tokens
+  cachedInputPerMillion?: number;  // Input served from a context cache (defaults to the input price)
+}
+
+/**
+ * What happens once a spend budget is used up
+ * warn: log a warning and continue; block: refuse model requests until the period ends.
+ */
+export type BudgetAction = 'warn' | 'block';
+
+/**
+ * Spend budgets and price overrides for the usage ledger
+ * Budgets count the spend recorded under the active profile; 0 disables a budget.
+ */
+export interface SpendSettings {
+  dailyBudgetUsd?: number;
+  monthlyBudgetUsd?: number;
+  onBudgetExceeded?: BudgetAction;
+  prices?: Record<string, ModelPrice>;  // Prices by model ID, overriding the built-in table
+}
+
+/**
+ * LLM backends that can serve Gemini requests
+ */
+export type ProviderName = 'gemini' | 'vertex' | 'openai-compatible';
+
+/**
+ * Settings for Gemini models on Vertex AI
+ */
+export interface VertexProviderSettings {
+  project?: string;          // Defaults to GOOGLE_CLOUD_PROJECT
+  location?: string;         // Defaults to GOOGLE_CLOUD_LOCATION or us-central1 ('global' is allowed)
+  credentialsFile?: string;  // Service account JSON file; application default credentials otherwise
+}
+
+/**
+ * Settings for an OpenAI-compatible chat completions server (OpenAI, vLLM, llama.cpp, Ollama...)
+ */
+export interface OpenAICompatibleProviderSettings {
+  baseUrl: string;           // e.g. http://localhost:11434/v1
+  model: string;             // Used whenever a Gemini model ID is requested
+  apiKeyEnv?: string;        // Environment variable holding the API key (default OPENAI_API_KEY)
+}
+
+/**
+ * Threshold at which Gemini blocks content for a harm category
+ */
+export type HarmBlockThreshold =
+  | 'BLOCK_NONE'
+  | 'BLOCK_ONLY_HIGH'
+  | 'BLOCK_MEDIUM_AND_ABOVE'
+  | 'BLOCK_LOW_AND_ABOVE'
+  | 'OFF';
+
+/**
+ * Function tool declared to Gemini for function calling
+ */
+export interface GeminiFunctionDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;  // Gemini OpenAPI-style schema
+}
+
+/**
+ * Safety setting sent with generateContent requests
+ */
+export interface GeminiSafetySetting {
+  category: string;               // e.g. HARM_CATEGORY_DANGEROUS_CONTENT
+  threshold: HarmBlockThreshold;
+}
+
+/**
+ * A single message in a multi-turn conversation
+ */
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  timestamp: string;
+}
+
+/**
+ * Server-side state of a chat-with-gemini session
+ */
+export interface ChatSession {
+  id: string;
+  model: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: ChatTurn[];
+}
+
+/**
+ * Google service account key file contents (fields used for JWT auth)
+ */
+export interface ServiceAccountCredentials {
+  type?: string;
+  project_id?: string;
+  private_key_id?: string;
+  private_key: string;
+  client_email: string;
+  token_uri?: string;
+}
+
+/**
+ * OAuth client credentials written by `gcloud auth application-default login`
+ */
+export interface AuthorizedUserCredentials {
+  type: 'authorized_user';
+  client_id: string;
+  client_secret: string;
+  refresh_token: string;
+  quota_project_id?: string;
+}
+
+/**
+ * Where the credentials for Gemini requests came from
+ */
+export type GeminiCredentialSource =
+  | 'api-key'
+  | 'service-account'
+  | 'adc:environment'
+  | 'adc:gcloud'
+  | 'adc:metadata';
+
+/**
+ * Resolved credentials for a Gemini API request
+ */
+export type GeminiAuth =
+  | { type: 'apiKey'; apiKey: string; source: GeminiCredentialSource; sourceDetail?: string }
+  | { type: 'bearer'; accessToken: string; source: GeminiCredentialSource; sourceDetail?: string };
+
 // === Repomix Types ===
 /**
  * Options for repository packaging using Repomix utilities.
@@ -338,6 +633,28 @@ export interface PackageRepositoryOptions {
   logger?: Logger;
   componentPath?: string;  // Path to specific component for component-level analysis
   compress?: boolean;      // Whether to compress code by removing implementation details
+  onProgress?: ProgressCallback;  // Receives Repomix output while packaging
+  signal?: AbortSignal;    // Kills packaging child processes and skips remaining fallbacks
+  baseRef?: string;        // Package only the files changed since this git ref
+  headRef?: string;        // Compare baseRef with this ref instead of the working tree
+  includeDiff?: boolean;   // Add the unified diff to the changes section
+  includeImporters?: boolean;  // Also package files that import a changed file
+  useCache?: boolean;      // Reuse and update the packaging cache (default true; off for temporary clones)
+}
+
+/**
+ * How a file changed between two git refs
+ */
+export type ChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+
+/**
+ * A file changed between two git refs, or between a ref and the working tree
+ */
+export interface ChangedFile {
+  path: string;
+  status: ChangeStatus;
+  previousPath?: string;   // Source of a renamed or copied file
+  untracked?: boolean;     // New file not yet added to git
 }
 
 /**
@@ -355,4 +672,6 @@ export interface PackageResult {
   fallbackError?: string;     // Original Repomix error if fallback was used
   componentPath?: string;     // Component path if component-level analysis was performed
   outputId?: string;          // Output ID from MCP server if applicable
+  cachedFiles?: number;       // Files reused from the packaging cache
+  changes?: ChangedFile[];    // Changed files when packaging was limited to a diff
 }
@@ -0,0 +1,387 @@
+/**
+ * Usage and spend ledger
+ * Each model request's tokens and estimated cost are appended to a JSON Lines ledger in the
+ * config directory, tagged with the tool and repository it served, so spend survives restarts
+ * and is shared by every server using the same config directory. The active profile's daily
+ * and monthly budgets are checked against the ledger before each request.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs/promises';
+import path from 'path';
+import { BudgetExceededError } from './errors.js';
+import { getConfigManager } from './config-manager.js';
+import { MODEL_PRICES } from './gemini-config.js';
+import { GeminiUsageMetadata } from './response-handler.js';
+import { Logger, ModelPrice, ProgressCallback } from './types.js';
+
+// File name of the ledger inside the config directory (one JSON entry per line)
+const LEDGER_FILE = 'usage-ledger.jsonl';
+
+// Entries older than this are pruned when the ledger is first loaded
+const RETENTION_DAYS = 400;
+
+// Providers billed at the built-in Gemini list prices; others are priced only from the profile
+const LIST_PRICED_PROVIDERS = new Set(['gemini', 'vertex']);
+
+/**
+ * Tool and repository a model request is made for
+ */
+export interface UsageContext {
+  tool?: string;
+  repository?: string;
+}
+
+/**
+ * One model request in the ledger
+ */
+export interface UsageEntry {
+  timestamp: string;
+  profile: string;
+  provider: string;
+  model: string;
+  inputTokens: number;        // Includes cached input tokens
+  cachedInputTokens: number;
+  outputTokens: number;       // Includes thinking tokens
+  costUsd: number;
+  priced: boolean;            // false when no price is known for the model
+  tool?: string;
+  repository?: string;
+}
+
+/**
+ * Ways to group spend
+ */
+export type SpendGrouping = 'day' | 'month' | 'model' | 'repository' | 'tool' | 'profile';
+
+/**
+ * Filters and grouping for a spend query
+ * Days are UTC dates (YYYY-MM-DD); since and until are inclusive.
+ */
+export interface SpendQuery {
+  groupBy?: SpendGrouping;
+  since?: string;
+  until?: string;
+  model?: string;
+  repository?: string;
+  tool?: string;
+  profile?: string;
+}
+
+/**
+ * Summed usage of a set of ledger entries
+ */
+export interface SpendTotals {
+  requests: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  unpricedRequests: number;
+}
+
+/**
+ * Summed usage of one group
+ */
+export interface SpendRow extends SpendTotals {
+  key: string;
+}
+
+/**
+ * Spend against one of the active profile's budgets
+ */
+export interface BudgetStatus {
+  profile: string;
+  period: 'daily' | 'monthly';
+  budgetUsd: number;
+  spentUsd: number;
+  exceeded: boolean;
+}
+
+const usageContext = new AsyncLocalStorage<UsageContext>();
+
+let entries: UsageEntry[] = [];
+let loadedSize = -1;   // Ledger file size when entries were read
+let pruned = false;
+
+/**
+ * Path of the ledger file
+ */
+function getLedgerPath(logger?: Logger): string {
+  return path.join(getConfigManager(logger).getConfigDirectory(), LEDGER_FILE);
+}
+
+/**
+ * UTC day (YYYY-MM-DD) of a timestamp
+ */
+function dayOf(timestamp: string): string {
+  return timestamp.slice(0, 10);
+}
+
+/**
+ * Parse ledger lines, skipping any that are incomplete or corrupt
+ */
+function parseLedger(content: string, logger?: Logger): UsageEntry[] {
+  const parsed: UsageEntry[] = [];
+  let skipped = 0;
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      parsed.push(JSON.parse(line) as UsageEntry);
+    } catch {
+      skipped++;
+    }
+  }
+
+  if (skipped > 0) {
+    logger?.warn(`Skipped ${skipped} unreadable usage ledger lines`);
+  }
+  return parsed;
+}
+
+/**
+ * Entries in the ledger, re-read whenever it has grown since the last read
+ * Expired entries are pruned the first time the ledger is read.
+ */
+async function loadEntries(logger?: Logger): Promise<UsageEntry[]> {
+  const ledgerPath = getLedgerPath(logger);
+
+  let size: number;
+  try {
+    size = (await fs.stat(ledgerPath)).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      entries = [];
+      loadedSize = 0;
+      return entries;
+    }
+    throw error;
+  }
+
+  if (size === loadedSize) {
+    return entries;
+  }
+
+  entries = parseLedger(await fs.readFile(ledgerPath, 'utf8'), logger);
+  loadedSize = size;
+
+  if (!pruned) {
+    pruned = true;
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const kept = entries.filter(entry => entry.timestamp >= cutoff);
+    if (kept.length < entries.length) {
+      const content = kept.map(entry => JSON.stringify(entry) + '\n').join('');
+      await fs.writeFile(`${ledgerPath}.tmp`, content, 'utf8');
+      await fs.rename(`${ledgerPath}.tmp`, ledgerPath);
+      logger?.info(`Pruned ${entries.length - kept.length} usage ledger entries older than ${RETENTION_DAYS} days`);
+      entries = kept;
+      loadedSize = Buffer.byteLength(content);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Price of a model on a provider: profile overrides first, then the built-in table
+ * Versioned and preview IDs (gemini-2.5-pro-preview-05-06) use the price of their base model.
+ * Models on OpenAI-compatible servers have no price unless the profile sets one.
+ */
+export function getModelPrice(provider: string, modelId: string, logger?: Logger): ModelPrice | undefined {
+  const configured = getConfigManager(logger).getSpendSettings().prices;
+  const prices = LIST_PRICED_PROVIDERS.has(provider) ? { ...MODEL_PRICES, ...configured } : configured;
+  if (prices[modelId]) {
+    return prices[modelId];
+  }
+
+  const baseModel = Object.keys(prices)
+    .filter(id => modelId.startsWith(id) && /^-(preview|exp|latest|\d)/.test(modelId.slice(id.length)))
+    .sort((a, b) => b.length - a.length)[0];
+  return baseModel ? prices[baseModel] : undefined;
+}
+
+/**
+ * Run fn with every model request inside it attributed to a tool and repository
+ */
+export function withUsageContext<T>(context: UsageContext, fn: () => Promise<T>): Promise<T> {
+  return usageContext.run(context, fn);
+}
+
+/**
+ * Append a completed model request to the ledger
+ * Failures to write are logged and never fail the request itself.
+ */
+export async function recordUsage(
+  provider: string,
+  model: string,
+  usage: GeminiUsageMetadata | undefined,
+  logger?: Logger
+): Promise<void> {
+  const inputTokens = usage?.promptTokenCount || 0;
+  const cachedInputTokens = usage?.cachedContentTokenCount || 0;
+  const outputTokens = (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0);
+  const price = getModelPrice(provider, model, logger);
+
+  const costUsd = price
+    ? ((inputTokens - cachedInputTokens) * price.inputPerMillion +
+       cachedInputTokens * (price.cachedInputPerMillion ?? price.inputPerMillion) +
+       outputTokens * price.outputPerMillion) / 1000000
+    : 0;
+
+  if (!price) {
+    logger?.debug(`No price known for ${model}; recording its usage without cost`);
+  }
+
+  const configManager = getConfigManager(logger);
+  const context = usageContext.getStore();
+  const entry: UsageEntry = {
+    timestamp: new Date().toISOString(),
+    profile: configManager.getActiveProfile(),
+    provider,
+    model,
+    inputTokens,
+    cachedInputTokens,
+    outputTokens,
+    costUsd: Math.round(costUsd * 1000000) / 1000000,
+    priced: !!price,
+    ...(context?.tool ? { tool: context.tool } : {}),
+    ...(context?.repository ? { repository: context.repository } : {})
+  };
+
+  // Single small appends are atomic, so servers sharing the config directory do not interleave lines
+  try {
+    await fs.mkdir(configManager.getConfigDirectory(), { recursive: true });
+    await fs.appendFile(getLedgerPath(logger), JSON.stringify(entry) + '\n', 'utf8');
+  } catch (error) {
+    logger?.warn(`Could not record usage in the ledger: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Sum the usage of a set of entries
+ */
+function sumEntries(selected: UsageEntry[]): SpendTotals {
+  const totals: SpendTotals = { requests: 0, inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, costUsd: 0, unpricedRequests: 0 };
+
+  for (const entry of selected) {
+    totals.requests++;
+    totals.inputTokens += entry.inputTokens;
+    totals.cachedInputTokens += entry.cachedInputTokens;
+    totals.outputTokens += entry.outputTokens;
+    totals.costUsd += entry.costUsd;
+    if (!entry.priced) {
+      totals.unpricedRequests++;
+    }
+  }
+
+  totals.costUsd = Math.round(totals.costUsd * 1000000) / 1000000;
+  return totals;
+}
+
+/**
+ * Group key of an entry
+ */
+function groupKey(entry: UsageEntry, groupBy: SpendGrouping): string {
+  switch (groupBy) {
+    case 'day':
+      return dayOf(entry.timestamp);
+    case 'month':
+      return entry.timestamp.slice(0, 7);
+    default:
+      return entry[groupBy] || '(none)';
+  }
+}
+
+/**
+ * Spend in the ledger, filtered and grouped
+ * Day and month groups are in date order; other groups are ordered by cost.
+ */
+export async function querySpend(
+  query: SpendQuery = {},
+  logger?: Logger
+): Promise<{ rows: SpendRow[]; totals: SpendTotals }> {
+  const groupBy = query.groupBy || 'day';
+  const selected = (await loadEntries(logger)).filter(entry =>
+    (!query.since || dayOf(entry.timestamp) >= query.since) &&
+    (!query.until || dayOf(entry.timestamp) <= query.until) &&
+    (!query.model || entry.model === query.model) &&
+    (!query.repository || entry.repository === query.repository) &&
+    (!query.tool || entry.tool === query.tool) &&
+    (!query.profile || entry.profile === query.profile)
+  );
+
+  const groups = new Map<string, UsageEntry[]>();
+  for (const entry of selected) {
+    const key = groupKey(entry, groupBy);
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  }
+
+  const rows: SpendRow[] = [...groups.entries()].map(([key, group]) => ({ key, ...sumEntries(group) }));
+  rows.sort(groupBy === 'day' || groupBy === 'month'
+    ? (a, b) => a.key.localeCompare(b.key)
+    : (a, b) => b.costUsd - a.costUsd);
+
+  return { rows, totals: sumEntries(selected) };
+}
+
+/**
+ * The active profile's spend today and this month (UTC) against its budgets
+ * Periods without a budget are left out.
+ */
+export async function getBudgetStatus(logger?: Logger): Promise<BudgetStatus[]> {
+  const configManager = getConfigManager(logger);
+  const { dailyBudgetUsd, monthlyBudgetUsd } = configManager.getSpendSettings();
+  if (!dailyBudgetUsd && !monthlyBudgetUsd) {
+    return [];
+  }
+
+  const profile = configManager.getActiveProfile();
+  const today = dayOf(new Date().toISOString());
+  const profileEntries = (await loadEntries(logger)).filter(entry => entry.profile === profile);
+
+  const periods: Array<{ period: BudgetStatus['period']; budgetUsd: number; prefix: string }> = [
+    { period: 'daily', budgetUsd: dailyBudgetUsd, prefix: today },
+    { period: 'monthly', budgetUsd: monthlyBudgetUsd, prefix: today.slice(0, 7) }
+  ];
+
+  return periods
+    .filter(({ budgetUsd }) => budgetUsd > 0)
+    .map(({ period, budgetUsd, prefix }) => {
+      const spentUsd = sumEntries(profileEntries.filter(entry => entry.timestamp.startsWith(prefix))).costUsd;
+      return { profile, period, budgetUsd, spentUsd, exceeded: spentUsd >= budgetUsd };
+    });
+}
+
+/**
+ * Check the active profile's budgets before a model request
+ * An exhausted budget throws a BudgetExceededError when the profile blocks, and is reported
+ * as a warning otherwise.
+ */
+export async function enforceSpendBudget(
+  provider: string,
+  model: string,
+  logger?: Logger,
+  onProgress?: ProgressCallback
+): Promise<void> {
+  // Requests recorded without cost (local servers, unknown models) cannot add to the spend
+  if (!getModelPrice(provider, model, logger)) {
+    return;
+  }
+
+  const exceeded = (await getBudgetStatus(logger)).find(status => status.exceeded);
+  if (!exceeded) {
+    return;
+  }
+
+  const message = `The ${exceeded.period} spend of profile ${exceeded.profile} ($${exceeded.spentUsd.toFixed(2)}) ` +
+    `has reached its $${exceeded.budgetUsd.toFixed(2)} budget`;
+
+  if (getConfigManager(logger).getSpendSettings().onBudgetExceeded === 'block') {
+    throw new BudgetExceededError(message, exceeded.period, exceeded.spentUsd, exceeded.budgetUsd);
+  }
+
+  logger?.warn(message);
+  await onProgress?.({ message: `\n[Warning: ${message}]\n` });
+}
@@ -1,4 +1,4 @@
-import { FileError, PathAccessError, ApiKeyMissingError, NetworkError } from './errors.js';
+import { FileError, PathAccessError, ApiKeyMissingError, NetworkError, RequestCancelledError, RateLimitError } from './errors.js';
 import { Logger } from './types.js';
 import path from 'path';
 import fs from 'fs';
@@ -73,7 +73,8 @@ export async function cleanupTempFiles(tempFile: string, tempDir: string, logger
       logger.debug("Temporary file deleted", { path: tempFile });
     }
     if (fs.existsSync(tempDir)) {
-      await fsPromises.rmdir(tempDir);
+      // Cancelled clones and packaging runs can leave partial output behind
+      await fsPromises.rm(tempDir, { recursive: true, force: true });
       logger.debug("Temporary directory deleted", { path: tempDir });
     }
   } catch (error) {
@@ -81,14 +82,55 @@ export async function cleanupTempFiles(tempFile: string, tempDir: string, logger
   }
 }
 
+/**
+ * Throw a RequestCancelledError if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RequestCancelledError(undefined, signal.reason);
+  }
+}
+
+/**
+ * Wait for a delay, ending early with a RequestCancelledError when the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError(undefined, signal.reason));
+      return;
+    }
+    
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError(undefined, signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Server-suggested retry delays longer than this end the retries instead of blocking the request
+const MAX_SUGGESTED_RETRY_DELAY_MS = 60 * 1000;
+
+// Up to this fraction of the delay is added at random so throttled clients do not retry in step
+const RETRY_JITTER = 0.2;
+
 /**
  * Retry function with exponential backoff
+ * A RateLimitError carrying the server's suggested delay (Retry-After) waits at least that long.
+ * Every delay gets random jitter added.
  * @template T The return type of the operation
  * @param operation The async operation to retry
  * @param maxRetries Maximum number of retry attempts
  * @param initialDelay Initial delay in milliseconds before first retry
  * @param shouldRetry Function that determines if a particular error should trigger a retry
  * @param logger Optional logger for retry messages
+ * @param signal Optional abort signal; cancellation stops retrying and interrupts the backoff delay
  * @returns Result of the operation if successful
  * @throws The last error encountered if all retries fail
  */
@@ -97,28 +139,43 @@ export async function retryWithBackoff<T>(
   maxRetries: number = 3,
   initialDelay: number = 1000,
   shouldRetry: (error: unknown) => boolean = () => true,
-  logger?: Logger
+  logger?: Logger,
+  signal?: AbortSignal
 ): Promise<T> {
   let attempt = 1;
   let lastError: unknown;
   
   while (attempt <= maxRetries) {
+    throwIfCancelled(signal);
+    
     try {
       return await operation();
     } catch (error) {
       lastError = error;
       
+      // A cancelled request is never retried, whatever the operation threw
+      throwIfCancelled(signal);
+      
       if (attempt >= maxRetries || !shouldRetry(error)) {
         break;
       }
       
-      const delay = initialDelay * Math.pow(2, attempt - 1);
+      const suggestedDelay = error instanceof RateLimitError && error.retryAfterSeconds !== undefined
+        ? error.retryAfterSeconds * 1000
+        : 0;
+      if (suggestedDelay > MAX_SUGGESTED_RETRY_DELAY_MS) {
+        logger?.warn(`Not retrying: the server asked to wait ${suggestedDelay / 1000}s`);
+        break;
+      }
+      
+      const baseDelay = Math.max(initialDelay * Math.pow(2, attempt - 1), suggestedDelay);
+      const delay = Math.round(baseDelay * (1 + Math.random() * RETRY_JITTER));
       if (logger) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         logger.info(`Retry attempt ${attempt}/${maxRetries} after ${delay}ms due to: ${errorMessage}`);
       }
       
-      await new Promise(resolve => setTimeout(resolve, delay));
+      await sleep(delay, signal);
       attempt++;
     }
   }
@@ -131,6 +188,59 @@ export async function retryWithBackoff<T>(
   }
 }
 
+/**
+ * Read a server-sent events body and pass each data payload to a handler
+ * Payloads are delivered in order; the terminating [DONE] marker is skipped.
+ * Returns the number of payloads read.
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onData: (payload: string) => Promise<void> | void
+): Promise<number> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = '';
+  let count = 0;
+  
+  const handleLine = async (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) {
+      return;
+    }
+    
+    const payload = trimmed.slice('data:'.length).trim();
+    if (!payload || payload === '[DONE]') {
+      return;
+    }
+    
+    count++;
+    await onData(payload);
+  };
+  
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    
+    buffer += decoder.decode(value, { stream: true });
+    
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newlineIndex);
+      buffer = buffer.slice(newlineIndex + 1);
+      await handleLine(line);
+    }
+  }
+  
+  buffer += decoder.decode();
+  if (buffer) {
+    await handleLine(buffer);
+  }
+  
+  return count;
+}
+
 /**
  * Enhanced error logging with detailed information
  */
@@ -34,57 +34,6 @@ export const SIZE_LIMITS = {
   ]
 };
 
-/**
- * Rate limiting configuration
- */
-export const RATE_LIMITS = {
-  // Requests per minute
-  REQUESTS_PER_MINUTE: 10,
-  
-  // Maximum concurrent requests
-  MAX_CONCURRENT_REQUESTS: 2
-};
-
-// Simple in-memory rate limiter store
-const rateLimiter = {
-  requestTimes: [] as number[],
-  activeRequests: 0
-};
-
-/**
- * Check if a request is allowed by the rate limiter
- * @returns boolean indicating if the request is allowed
- */
-export function checkRateLimit(): boolean {
-  const now = Date.now();
-  
-  // Clean up old entries
-  rateLimiter.requestTimes = rateLimiter.requestTimes.filter(
-    time => now - time < 60000 // Keep entries from last minute
-  );
-  
-  // Check limits
-  if (
-    rateLimiter.requestTimes.length >= RATE_LIMITS.REQUESTS_PER_MINUTE ||
-    rateLimiter.activeRequests >= RATE_LIMITS.MAX_CONCURRENT_REQUESTS
-  ) {
-    return false;
-  }
-  
-  // Record this request
-  rateLimiter.requestTimes.push(now);
-  rateLimiter.activeRequests++;
-  
-  return true;
-}
-
-/**
- * Release a request from the rate limiter
- */
-export function releaseRateLimit(): void {
-  rateLimiter.activeRequests = Math.max(0, rateLimiter.activeRequests - 1);
-}
-
 /**
  * Simple pattern matching for excluding files
  * Not as sophisticated as glob matching but doesn't require extra dependencies
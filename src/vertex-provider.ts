@@ -0,0 +1,57 @@
+/**
+ * Vertex AI provider
+ * Serves Gemini models through the Vertex AI publisher endpoints of a Google Cloud project,
+ * authenticated with a service account file or application default credentials.
+ */
+import { ApiKeyMissingError, ConfigurationError } from './errors.js';
+import { createGoogleProvider } from './gemini-api.js';
+import { getVertexModelUrl } from './gemini-config.js';
+import { getApplicationDefaultAccessToken, getServiceAccountAccessToken, loadServiceAccountFile } from './gemini-auth.js';
+import { LlmProvider } from './llm-provider.js';
+import { GeminiAuth, Logger, VertexProviderSettings } from './types.js';
+
+/**
+ * Get an access token for Vertex AI requests
+ */
+async function resolveVertexAuth(settings: VertexProviderSettings, logger: Logger): Promise<GeminiAuth> {
+  if (settings.credentialsFile) {
+    const credentials = await loadServiceAccountFile(settings.credentialsFile);
+    const accessToken = await getServiceAccountAccessToken(credentials, logger);
+    return { type: 'bearer', accessToken, source: 'service-account', sourceDetail: settings.credentialsFile };
+  }
+
+  try {
+    const { accessToken, source, sourceDetail } = await getApplicationDefaultAccessToken(logger);
+    return { type: 'bearer', accessToken, source, sourceDetail };
+  } catch (error) {
+    throw new ApiKeyMissingError(
+      'Vertex AI needs a vertex.credentialsFile setting or application default credentials',
+      error
+    );
+  }
+}
+
+/**
+ * Create a provider for Gemini models on Vertex AI
+ * Context caching is not used: Vertex cachedContents live under the project, not the Gemini API.
+ */
+export function createVertexProvider(settings: VertexProviderSettings): LlmProvider {
+  const location = settings.location || 'us-central1';
+
+  const getProject = (): string => {
+    if (!settings.project) {
+      throw new ConfigurationError('Vertex AI needs a project (vertex.project setting or GOOGLE_CLOUD_PROJECT)');
+    }
+    return settings.project;
+  };
+
+  return createGoogleProvider('vertex', {
+    generateUrl: modelId => getVertexModelUrl(getProject(), location, modelId, 'generateContent'),
+    streamUrl: modelId => `${getVertexModelUrl(getProject(), location, modelId, 'streamGenerateContent')}?alt=sse`,
+    countTokensUrl: modelId => getVertexModelUrl(getProject(), location, modelId, 'countTokens'),
+    resolveAuth: logger => resolveVertexAuth(settings, logger)
+  }, {
+    isConfigured: () => !!settings.project,
+    supportsContextCaching: false
+  });
+}
@@ -0,0 +1,137 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runAgenticAnalysis } from '../src/agentic-analysis.js';
+import { RequestCancelledError } from '../src/errors.js';
+import { callGeminiWithTools } from '../src/gemini-api.js';
+import { GeminiContent, GeminiResponse } from '../src/response-handler.js';
+import { Logger } from '../src/types.js';
+
+vi.mock('../src/gemini-api.js', () => ({
+  callGeminiWithTools: vi.fn()
+}));
+
+const callGeminiWithToolsMock = vi.mocked(callGeminiWithTools);
+
+const logger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+let repoDir: string;
+
+function functionCallResponse(name: string, args: Record<string, unknown>): GeminiResponse {
+  return { candidates: [{ content: { role: 'model', parts: [{ functionCall: { name, args } }] }, finishReason: 'STOP' }] };
+}
+
+function answerResponse(text: string): GeminiResponse {
+  return { candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }] };
+}
+
+/**
+ * Script the model: one search_code call with the given arguments, then an answer
+ * Returns the tool response the model received.
+ */
+async function searchOnce(args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  let toolResponse: Record<string, unknown> | undefined;
+  callGeminiWithToolsMock
+    .mockResolvedValueOnce(functionCallResponse('search_code', args))
+    .mockImplementationOnce(async (contents: GeminiContent[]) => {
+      toolResponse = contents[contents.length - 1].parts[0].functionResponse?.response;
+      return answerResponse('Done.');
+    });
+
+  await runAgenticAnalysis(repoDir, { query: 'Where is the handler?', logger });
+  return toolResponse!;
+}
+
+beforeEach(async () => {
+  repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agentic-analysis-'));
+  await fs.mkdir(path.join(repoDir, 'src'));
+  await fs.writeFile(path.join(repoDir, 'src/handler.ts'), 'export function handleRequest() {}\n');
+  await fs.writeFile(path.join(repoDir, 'src/util.ts'), 'export const aaaa = "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!";\n');
+});
+
+afterEach(async () => {
+  callGeminiWithToolsMock.mockReset();
+  await fs.rm(repoDir, { recursive: true, force: true });
+});
+
+describe('search_code', () => {
+  it('returns matching lines', async () => {
+    const response = await searchOnce({ pattern: 'function handle\\w+' });
+
+    expect(response.matches).toEqual([{ path: path.join('src', 'handler.ts'), line: 1, text: 'export function handleRequest() {}' }]);
+  });
+
+  it('searches for the literal text when the pattern is not a valid regular expression', async () => {
+    const response = await searchOnce({ pattern: 'handleRequest(' });
+
+    expect(response.matches).toHaveLength(1);
+  });
+
+  it.each(['(a+)+$', '(a|aa)*(b*)*$', '(?:\\w+\\s?){2,}x', '((a*)b)+'])('rejects the nested quantifier in %s', async pattern => {
+    const response = await searchOnce({ pattern });
+
+    expect(response.error).toContain('repeat a group containing a quantifier');
+  });
+
+  it('accepts repeated groups without quantifiers and quantifiers outside groups', async () => {
+    const response = await searchOnce({ pattern: '(ab)+|a+b*(c)?' });
+
+    expect(response.error).toBeUndefined();
+  });
+
+  it('rejects overlong patterns', async () => {
+    const response = await searchOnce({ pattern: 'a'.repeat(201) });
+
+    expect(response.error).toBe('search_code patterns are limited to 200 characters');
+  });
+
+  it('skips files over the search size limit', async () => {
+    await fs.writeFile(path.join(repoDir, 'src/bundle.js'), `function handleRequest() {}\n${'x'.repeat(1024 * 1024)}`);
+
+    const response = await searchOnce({ pattern: 'handleRequest' });
+
+    expect(response.matches).toHaveLength(1);
+    expect(response.skippedFiles).toEqual([path.join('src', 'bundle.js')]);
+  });
+});
+
+describe('runAgenticAnalysis cancellation', () => {
+  it('stops before running the tool calls of a turn once the request is cancelled', async () => {
+    const controller = new AbortController();
+    callGeminiWithToolsMock.mockImplementationOnce(async () => {
+      controller.abort();
+      return functionCallResponse('list_directory', { path: '.' });
+    });
+    const messages: string[] = [];
+
+    await expect(runAgenticAnalysis(repoDir, {
+      query: 'Where is the handler?',
+      logger,
+      signal: controller.signal,
+      onProgress: ({ message }) => { messages.push(message); }
+    })).rejects.toBeInstanceOf(RequestCancelledError);
+
+    expect(callGeminiWithToolsMock).toHaveBeenCalledTimes(1);
+    expect(messages).toEqual([]);
+  });
+
+  it('does not start another turn once the request is cancelled', async () => {
+    const controller = new AbortController();
+    callGeminiWithToolsMock.mockResolvedValueOnce(functionCallResponse('list_directory', { path: '.' }));
+    const messages: string[] = [];
+
+    await expect(runAgenticAnalysis(repoDir, {
+      query: 'Where is the handler?',
+      logger,
+      signal: controller.signal,
+      onProgress: ({ message }) => {
+        messages.push(message);
+        controller.abort();
+      }
+    })).rejects.toBeInstanceOf(RequestCancelledError);
+
+    expect(callGeminiWithToolsMock).toHaveBeenCalledTimes(1);
+    expect(messages).toHaveLength(1);
+  });
+});
@@ -0,0 +1,146 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CassetteRequest, getCassetteMode, withCassette } from '../src/cassettes.js';
+import { CassetteMissError, ConfigurationError } from '../src/errors.js';
+import { callGeminiRaw } from '../src/gemini-api.js';
+import { Logger } from '../src/types.js';
+
+const logger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+let cassetteDir: string;
+
+const request: CassetteRequest = {
+  kind: 'generate',
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  prompt: 'Summarize the repository',
+  generationConfig: { temperature: 0.7, maxTokens: 1024 }
+};
+
+/**
+ * Stub fetch with a Gemini API that answers every generateContent call
+ */
+function stubGeminiApi() {
+  const fetchMock = vi.fn(async (url: string | URL | Request) => {
+    if (String(url).includes(':countTokens')) {
+      return Response.json({ totalTokens: 10 });
+    }
+    return Response.json({
+      candidates: [{ content: { role: 'model', parts: [{ text: 'Recorded answer' }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 2, totalTokenCount: 12 }
+    });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+async function recordAndReplay(recorded: CassetteRequest, replayed: CassetteRequest): Promise<string> {
+  vi.stubEnv('GEMINI_CASSETTE_MODE', 'record');
+  await withCassette(recorded, async () => 'recorded response', logger);
+
+  vi.stubEnv('GEMINI_CASSETTE_MODE', 'replay');
+  return withCassette(replayed, async () => 'live response', logger);
+}
+
+beforeEach(async () => {
+  cassetteDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassettes-'));
+  vi.stubEnv('GEMINI_CASSETTE_DIR', cassetteDir);
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  await fs.rm(cassetteDir, { recursive: true, force: true });
+});
+
+describe('getCassetteMode', () => {
+  it('defaults to off and rejects unknown modes', () => {
+    expect(getCassetteMode(logger)).toBe('off');
+
+    vi.stubEnv('GEMINI_CASSETTE_MODE', 'playback');
+    expect(() => getCassetteMode(logger)).toThrow(ConfigurationError);
+  });
+});
+
+describe('withCassette', () => {
+  it('calls through without touching the directory when off', async () => {
+    await expect(withCassette(request, async () => 'live response', logger)).resolves.toBe('live response');
+
+    await expect(fs.readdir(cassetteDir)).resolves.toEqual([]);
+  });
+
+  it('replays a recorded response without calling the model', async () => {
+    vi.stubEnv('GEMINI_CASSETTE_MODE', 'record');
+    await withCassette(request, async () => ({ text: 'recorded response' }), logger);
+    vi.stubEnv('GEMINI_CASSETTE_MODE', 'replay');
+    const call = vi.fn(async () => ({ text: 'live response' }));
+    const onReplay = vi.fn(async () => {});
+
+    await expect(withCassette(request, call, logger, onReplay)).resolves.toEqual({ text: 'recorded response' });
+    expect(call).not.toHaveBeenCalled();
+    expect(onReplay).toHaveBeenCalledWith({ text: 'recorded response' });
+  });
+
+  it('keys requests independently of field order, undefined fields and line endings', async () => {
+    const reordered: CassetteRequest = {
+      generationConfig: { maxTokens: 1024, temperature: 0.7, candidateCount: undefined },
+      prompt: 'Summarize the repository',
+      model: 'gemini-2.5-flash',
+      provider: 'gemini',
+      kind: 'generate'
+    };
+
+    await expect(recordAndReplay(request, reordered)).resolves.toBe('recorded response');
+    await expect(recordAndReplay({ ...request, prompt: 'Line one\r\nLine two' }, { ...request, prompt: 'Line one\nLine two' }))
+      .resolves.toBe('recorded response');
+  });
+
+  it('raises CassetteMissError when the generation config differs', async () => {
+    const error = await recordAndReplay(request, { ...request, generationConfig: { temperature: 0.2, maxTokens: 1024 } })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(CassetteMissError);
+    expect(error.message).toBe('No recorded response for generate request to gemini-2.5-flash (gemini)');
+    expect(path.dirname(error.cassettePath)).toBe(cassetteDir);
+    expect(path.basename(error.cassettePath)).toBe(`generate-${error.cassetteKey}.json`);
+  });
+});
+
+describe('callGeminiRaw cassettes', () => {
+  const history = (timestamp: string) => [
+    { role: 'user' as const, text: 'What is this repository?', timestamp },
+    { role: 'model' as const, text: 'A bridge to Gemini.', timestamp }
+  ];
+
+  beforeEach(() => {
+    vi.stubEnv('GEMINI_API_KEY', 'test-api-key-0123456789abcdef');
+  });
+
+  it('replays chat turns recorded at a different time', async () => {
+    vi.stubEnv('GEMINI_CASSETTE_MODE', 'record');
+    stubGeminiApi();
+    await callGeminiRaw('How is it configured?', { logger, temperature: 0.4, history: history('2025-06-01T12:00:00.000Z') });
+
+    vi.stubEnv('GEMINI_CASSETTE_MODE', 'replay');
+    const fetchMock = stubGeminiApi();
+    const response = await callGeminiRaw('How is it configured?', { logger, temperature: 0.4, history: history('2025-06-02T08:30:00.000Z') });
+
+    expect(response.candidates[0].content.parts[0].text).toBe('Recorded answer');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('does not replay a response recorded with other generation settings', async () => {
+    vi.stubEnv('GEMINI_CASSETTE_MODE', 'record');
+    stubGeminiApi();
+    await callGeminiRaw('How is it configured?', { logger, temperature: 0.4 });
+
+    vi.stubEnv('GEMINI_CASSETTE_MODE', 'replay');
+    const fetchMock = stubGeminiApi();
+
+    await expect(callGeminiRaw('How is it configured?', { logger, temperature: 0.4, maxTokens: 512, fallbackModels: [] }))
+      .rejects.toBeInstanceOf(CassetteMissError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getConfigManager } from '../src/config-manager.js';
+import { packageChangedFiles, DiffPackagingCallbacks } from '../src/diff-packaging.js';
+import { RepositoryPackagingError } from '../src/errors.js';
+import { Logger, PackageRepositoryOptions } from '../src/types.js';
+
+const logger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+getConfigManager(logger);
+
+let repoDir: string;
+let outputFile: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+    cwd: repoDir,
+    encoding: 'utf8'
+  });
+}
+
+async function write(file: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(repoDir, file)), { recursive: true });
+  await fs.writeFile(path.join(repoDir, file), content);
+}
+
+/**
+ * Callbacks recording the files staged for packaging and their content
+ */
+function createCallbacks(imports: Record<string, string[]> = {}) {
+  const packed: Array<{ filePaths: string[]; contents: Record<string, string> }> = [];
+  const callbacks: DiffPackagingCallbacks = {
+    findImports: async () => imports,
+    packageDirectory: async (dir, dirOutputFile, filePaths) => {
+      const contents: Record<string, string> = {};
+      for (const filePath of filePaths) {
+        contents[filePath] = await fs.readFile(path.join(dir, filePath), 'utf8');
+      }
+      packed.push({ filePaths, contents });
+      await fs.writeFile(dirOutputFile, filePaths.map(filePath => `<file path="${filePath}">\n${contents[filePath]}\n</file>`).join('\n'));
+      return { totalFiles: filePaths.length, totalTokens: 10 };
+    }
+  };
+  return { callbacks, packed };
+}
+
+function run(callbacks: DiffPackagingCallbacks, options: PackageRepositoryOptions) {
+  return packageChangedFiles(repoDir, outputFile, options, callbacks, logger);
+}
+
+describe('packageChangedFiles', () => {
+  beforeEach(async () => {
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'diff-packaging-repo-'));
+    outputFile = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'diff-packaging-out-')), 'output.xml');
+
+    git('init', '-q');
+    await write('src/app.py', 'print("v1")\n');
+    await write('src/util.ts', 'export const util = 1;\n');
+    await write('src/main.ts', "import { util } from './util.js';\n");
+    await write('Dockerfile', 'FROM node:18\n');
+    await write('docs/old.md', '# Old\n');
+    await write('repomix.config.json', '{"output":{"style":"xml"}}\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'base');
+    git('tag', 'base');
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+    await fs.rm(path.dirname(outputFile), { recursive: true, force: true });
+  });
+
+  it('packages modified and untracked files of the working tree, whatever their type', async () => {
+    await write('src/app.py', 'print("v2")\n');
+    await write('Dockerfile', 'FROM node:20\n');
+    await write('.github/workflows/ci.yml', 'on: push\n');
+    await fs.rm(path.join(repoDir, 'docs/old.md'));
+    const { callbacks, packed } = createCallbacks();
+
+    const result = await run(callbacks, { baseRef: 'base' });
+
+    expect(result.changes).toEqual([
+      { path: '.github/workflows/ci.yml', status: 'added', untracked: true },
+      { path: 'Dockerfile', status: 'modified' },
+      { path: 'docs/old.md', status: 'deleted' },
+      { path: 'src/app.py', status: 'modified' }
+    ]);
+    expect(packed).toHaveLength(1);
+    expect(packed[0].filePaths).toEqual(['.github/workflows/ci.yml', 'Dockerfile', 'src/app.py']);
+    expect(packed[0].contents['src/app.py']).toBe('print("v2")\n');
+
+    const output = await fs.readFile(outputFile, 'utf8');
+    expect(output).toMatch(/^<changes base="base \([0-9a-f]{12}\)" head="working tree">/);
+    expect(output).toContain('<file path="Dockerfile">');
+    expect(output).not.toContain('<file path="docs/old.md">');
+    expect(output).not.toContain('<file path="repomix.config.json">');
+  });
+
+  it('takes files from the head ref instead of the working tree', async () => {
+    await write('src/util.ts', 'export const util = 2;\n');
+    git('commit', '-q', '-am', 'head');
+    await write('src/util.ts', 'export const util = 3;\n');
+    const { callbacks, packed } = createCallbacks();
+
+    const result = await run(callbacks, { baseRef: 'base', headRef: 'HEAD' });
+
+    expect(result.changes).toEqual([{ path: 'src/util.ts', status: 'modified' }]);
+    expect(packed[0].contents).toEqual({ 'src/util.ts': 'export const util = 2;\n' });
+    expect(git('worktree', 'list').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('lists renames with their previous path', async () => {
+    git('mv', 'docs/old.md', 'docs/new.md');
+    git('commit', '-q', '-m', 'rename');
+    const { callbacks, packed } = createCallbacks();
+
+    const result = await run(callbacks, { baseRef: 'base', headRef: 'HEAD' });
+
+    expect(result.changes).toEqual([{ path: 'docs/new.md', status: 'renamed', previousPath: 'docs/old.md' }]);
+    expect(packed[0].filePaths).toEqual(['docs/new.md']);
+  });
+
+  it('adds files that import a changed file when asked', async () => {
+    await write('tests/test_app.py', 'import src.app\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'tests');
+    await write('src/util.ts', 'export const util = 2;\n');
+    await write('src/app.py', 'print("v2")\n');
+    const imports = {
+      'src/main.ts': ['./util.js'],
+      'src/other.ts': ['./unrelated.js'],
+      'tests/test_app.py': ['src.app']
+    };
+
+    const without = createCallbacks(imports);
+    await run(without.callbacks, { baseRef: 'HEAD' });
+    expect(without.packed[0].filePaths).toEqual(['src/app.py', 'src/util.ts']);
+
+    const withImporters = createCallbacks(imports);
+    await run(withImporters.callbacks, { baseRef: 'HEAD', includeImporters: true });
+    expect(withImporters.packed[0].filePaths).toEqual(['src/app.py', 'src/util.ts', 'src/main.ts', 'tests/test_app.py']);
+  });
+
+  it('writes only the changes section when nothing changed', async () => {
+    const { callbacks, packed } = createCallbacks();
+
+    const result = await run(callbacks, { baseRef: 'base' });
+
+    expect(packed).toHaveLength(0);
+    expect(result).toMatchObject({ totalFiles: 0, filePaths: [], changes: [] });
+    expect(await fs.readFile(outputFile, 'utf8')).toContain('No files changed between');
+  });
+
+  it('rejects unknown refs', async () => {
+    const { callbacks } = createCallbacks();
+
+    const error = await run(callbacks, { baseRef: 'no-such-ref' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RepositoryPackagingError);
+    expect(error.message).toBe('Unknown git ref: no-such-ref');
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createThrottlingError, QuotaExhaustedError, RateLimitError } from '../src/errors.js';
+
+function googleError(details: unknown[], message = 'Resource has been exhausted'): string {
+  return JSON.stringify({ error: { code: 429, message, status: 'RESOURCE_EXHAUSTED', details } });
+}
+
+describe('createThrottlingError', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads the delay in seconds from a Retry-After header', () => {
+    const error = createThrottlingError('Gemini API', 429, new Headers({ 'Retry-After': '12' }), 'Too many requests');
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).not.toBeInstanceOf(QuotaExhaustedError);
+    expect(error.retryAfterSeconds).toBe(12);
+    expect(error.statusCode).toBe(429);
+    expect(error.message).toBe('Gemini API error (429): Too many requests');
+  });
+
+  it('reads an HTTP date from a Retry-After header', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+
+    const error = createThrottlingError('Gemini API', 503, new Headers({ 'Retry-After': 'Sun, 01 Jun 2025 12:00:30 GMT' }), '');
+
+    expect(error.retryAfterSeconds).toBe(30);
+    expect(error.statusCode).toBe(503);
+  });
+
+  it('falls back to the RetryInfo detail of a Google error body, rounded up', () => {
+    const body = googleError([{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '7.2s' }]);
+
+    const error = createThrottlingError('Gemini API', 429, new Headers(), body);
+
+    expect(error.retryAfterSeconds).toBe(8);
+    expect(error.message).toBe('Gemini API error (429): Resource has been exhausted');
+  });
+
+  it('prefers the Retry-After header over RetryInfo', () => {
+    const body = googleError([{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '40s' }]);
+
+    const error = createThrottlingError('Gemini API', 429, new Headers({ 'Retry-After': '3' }), body);
+
+    expect(error.retryAfterSeconds).toBe(3);
+  });
+
+  it('leaves the delay unset when neither is present or readable', () => {
+    const error = createThrottlingError('Gemini API', 429, new Headers({ 'Retry-After': 'soon' }), 'busy');
+
+    expect(error.retryAfterSeconds).toBeUndefined();
+  });
+
+  it('reports a per-day QuotaFailure violation as an exhausted quota', () => {
+    const body = googleError([{
+      '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+      violations: [{ quotaId: 'GenerateRequestsPerDayPerProjectPerModel-FreeTier', quotaMetric: 'generativelanguage.googleapis.com/generate_content_free_tier_requests' }]
+    }]);
+
+    const error = createThrottlingError('Gemini API', 429, new Headers(), body);
+
+    expect(error).toBeInstanceOf(QuotaExhaustedError);
+    expect((error as QuotaExhaustedError).quotaId).toBe('GenerateRequestsPerDayPerProjectPerModel-FreeTier');
+  });
+
+  it('treats a per-minute QuotaFailure violation as throttling', () => {
+    const body = googleError([{
+      '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+      violations: [{ quotaId: 'GenerateRequestsPerMinutePerProjectPerModel' }]
+    }]);
+
+    const error = createThrottlingError('Gemini API', 429, new Headers(), body);
+
+    expect(error).not.toBeInstanceOf(QuotaExhaustedError);
+  });
+
+  it('reports an OpenAI insufficient_quota code as an exhausted quota', () => {
+    const body = JSON.stringify({ error: { message: 'You exceeded your current quota', code: 'insufficient_quota' } });
+
+    const error = createThrottlingError('OpenAI-compatible API', 429, new Headers(), body);
+
+    expect(error).toBeInstanceOf(QuotaExhaustedError);
+    expect(error.message).toBe('OpenAI-compatible API error (429): You exceeded your current quota');
+  });
+});
@@ -0,0 +1,270 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getConfigManager } from '../src/config-manager.js';
+import { BudgetExceededError, NetworkError, RequestCancelledError } from '../src/errors.js';
+import { callGeminiCreateCachedContent, callGeminiDeleteCachedContent, callGeminiListModels, callGeminiRaw } from '../src/gemini-api.js';
+import { getRateLimitUsage } from '../src/rate-limiter.js';
+import { querySpend } from '../src/usage-ledger.js';
+import { Logger } from '../src/types.js';
+
+const logger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+const configManager = getConfigManager(logger);
+
+/**
+ * Server-sent event carrying one streamed Gemini chunk
+ */
+function textEvent(text: string, finishReason?: string): string {
+  return `data: ${JSON.stringify({ candidates: [{ content: { parts: [{ text }], role: 'model' }, ...(finishReason ? { finishReason } : {}) }] })}\n\n`;
+}
+
+/**
+ * Body that delivers the events and then closes, or fails as a dropped connection would
+ */
+function streamOf(events: string[], error?: Error): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const pending = [...events];
+  return new ReadableStream({
+    pull(controller) {
+      const event = pending.shift();
+      if (event !== undefined) {
+        controller.enqueue(encoder.encode(event));
+      } else if (error) {
+        controller.error(error);
+      } else {
+        controller.close();
+      }
+    }
+  });
+}
+
+/**
+ * generateContent response with one candidate
+ */
+function textResponse(text: string, finishReason: string, usageMetadata: Record<string, number> = {}): Response {
+  return Response.json({ candidates: [{ content: { parts: [{ text }], role: 'model' }, finishReason }], usageMetadata });
+}
+
+/**
+ * Stub fetch with handlers for each Gemini API method, recording request bodies
+ */
+function stubGeminiApi(handlers: Record<string, () => Response>) {
+  const requests: Array<{ method: string; body: any }> = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+    const method = String(url).match(/:(\w+)|\/(cachedContents)/)?.slice(1).find(Boolean) || '';
+    requests.push({ method, body: init?.body ? JSON.parse(String(init.body)) : undefined });
+    const handler = handlers[method];
+    if (!handler) {
+      throw new Error(`Unexpected request to ${url}`);
+    }
+    return handler();
+  }));
+  return requests;
+}
+
+function connectionReset(): Error {
+  return new TypeError('terminated', { cause: Object.assign(new Error('other side closed'), { code: 'ECONNRESET' }) });
+}
+
+describe('callGeminiRaw streaming', () => {
+  let messages: string[];
+  const onProgress = ({ message }: { message: string }) => { messages.push(message); };
+
+  beforeEach(() => {
+    messages = [];
+    vi.stubEnv('GEMINI_API_KEY', 'test-api-key-0123456789abcdef');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('does not restart a stream that fails after relaying text', async () => {
+    const fetchMock = vi.fn(async () => new Response(streamOf([textEvent('Hello, ')], connectionReset())));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const error = await callGeminiRaw('Say hello', { logger, onProgress }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(messages).toEqual(['Hello, ']);
+  });
+
+  it('does not fall back to another model after relaying text', async () => {
+    const fetchMock = vi.fn(async () => new Response(streamOf([textEvent('Hello, ')], new Error('The model is overloaded'))));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(callGeminiRaw('Say hello', { logger, onProgress, fallbackModels: ['gemini-2.5-flash'] })).rejects.toThrow('overloaded');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(messages).toEqual(['Hello, ']);
+  });
+
+  it('still retries a stream that fails before relaying any text', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(streamOf([], connectionReset())))
+      .mockResolvedValueOnce(new Response(streamOf([textEvent('Hello!', 'STOP')])));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = callGeminiRaw('Say hello', { logger, onProgress });
+    await vi.runAllTimersAsync();
+    const response = await result;
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(response.candidates[0].content.parts[0].text).toBe('Hello!');
+    expect(messages).toEqual(['Hello!']);
+  });
+});
+
+describe('callGeminiRaw continuation', () => {
+  const partialThenFinished = () => {
+    const responses = [
+      textResponse('Part one, ', 'MAX_TOKENS', { promptTokenCount: 5000, candidatesTokenCount: 10, totalTokenCount: 5010 }),
+      textResponse('part two.', 'STOP', { promptTokenCount: 5020, candidatesTokenCount: 5, totalTokenCount: 5025 })
+    ];
+    return () => responses.shift()!;
+  };
+
+  beforeEach(() => {
+    vi.stubEnv('GEMINI_API_KEY', 'test-api-key-0123456789abcdef');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('replays the prompt with its inlined context instead of sending the context again', async () => {
+    const requests = stubGeminiApi({
+      countTokens: () => Response.json({ totalTokens: 100 }),
+      generateContent: partialThenFinished()
+    });
+
+    const response = await callGeminiRaw('What does it do?', { logger, cachedContext: 'SMALL REPOSITORY' });
+
+    const generated = requests.filter(request => request.method === 'generateContent');
+    expect(generated).toHaveLength(2);
+    expect(generated[1].body.cachedContent).toBeUndefined();
+    expect(generated[1].body.contents).toEqual([
+      { role: 'user', parts: [{ text: 'SMALL REPOSITORY\n\nWhat does it do?' }] },
+      { role: 'model', parts: [{ text: 'Part one, ' }] },
+      { role: 'user', parts: [{ text: expect.stringContaining('Continue exactly where you left off') }] }
+    ]);
+    expect(response.candidates[0].content.parts[0].text).toBe('Part one, part two.');
+    expect(response.continuationRounds).toBe(1);
+  });
+
+  it('references the same context cache entry in continuations', async () => {
+    const requests = stubGeminiApi({
+      countTokens: () => Response.json({ totalTokens: 5000 }),
+      cachedContents: () => Response.json({ name: 'cachedContents/repo-1', usageMetadata: { totalTokenCount: 5000 } }),
+      generateContent: partialThenFinished()
+    });
+
+    await callGeminiRaw('What does it do?', { logger, cachedContext: 'LARGE REPOSITORY' });
+
+    expect(requests.filter(request => request.method === 'cachedContents')).toHaveLength(1);
+    const generated = requests.filter(request => request.method === 'generateContent');
+    for (const request of generated) {
+      expect(request.body.cachedContent).toBe('cachedContents/repo-1');
+      expect(JSON.stringify(request.body.contents)).not.toContain('LARGE REPOSITORY');
+    }
+    expect(generated[1].body.contents.map((turn: { role: string; parts: Array<{ text: string }> }) => [turn.role, turn.parts[0].text.slice(0, 16)])).toEqual([
+      ['user', 'What does it do?'],
+      ['model', 'Part one, '],
+      ['user', 'Your previous re']
+    ]);
+  });
+});
+
+describe('context cache requests', () => {
+  const model = 'gemini-2.0-flash';
+
+  beforeEach(() => {
+    vi.stubEnv('GEMINI_API_KEY', 'test-api-key-0123456789abcdef');
+  });
+
+  afterEach(async () => {
+    await configManager.setSpendSettings({ dailyBudgetUsd: 0, onBudgetExceeded: 'warn' });
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('counts cache uploads against the rate limiter and records them in the spend ledger', async () => {
+    stubGeminiApi({
+      cachedContents: () => Response.json({ name: 'cachedContents/upload-1', usageMetadata: { totalTokenCount: 100000 } })
+    });
+
+    await callGeminiCreateCachedContent('PACKED REPOSITORY', 3600, { model, logger });
+
+    const usage = getRateLimitUsage(logger).find(entry => entry.provider === 'gemini' && entry.model === model);
+    expect(usage).toMatchObject({ activeRequests: 0, totals: { requests: 1, inputTokens: 100000 } });
+    const { totals } = await querySpend({ model }, logger);
+    expect(totals).toMatchObject({ requests: 1, inputTokens: 100000, costUsd: 0.01 });
+  });
+
+  it('does not upload a cache once the spend budget blocks requests', async () => {
+    const requests = stubGeminiApi({
+      cachedContents: () => Response.json({ name: 'cachedContents/upload-2', usageMetadata: { totalTokenCount: 100000 } })
+    });
+    await callGeminiCreateCachedContent('PACKED REPOSITORY', 3600, { model, logger });
+    await configManager.setSpendSettings({ dailyBudgetUsd: 0.005, onBudgetExceeded: 'block' });
+
+    await expect(callGeminiCreateCachedContent('OTHER REPOSITORY', 3600, { model, logger })).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(requests.filter(request => request.method === 'cachedContents')).toHaveLength(1);
+  });
+
+  it('passes the request signal to cache creation and deletion', async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+      controller.abort();
+      throw init?.signal?.reason;
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(callGeminiCreateCachedContent('PACKED REPOSITORY', 3600, { model, logger, signal: controller.signal }))
+      .rejects.toBeInstanceOf(RequestCancelledError);
+    await expect(callGeminiDeleteCachedContent('cachedContents/upload-1', { logger, signal: controller.signal }))
+      .rejects.toBeInstanceOf(RequestCancelledError);
+    expect(fetchMock.mock.calls.map(([, init]) => init?.signal)).toEqual([controller.signal, controller.signal]);
+  });
+});
+
+describe('callGeminiListModels', () => {
+  beforeEach(() => {
+    vi.stubEnv('GEMINI_API_KEY', 'test-api-key-0123456789abcdef');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('follows pagination', async () => {
+    const pages = [
+      Response.json({ models: [{ name: 'models/gemini-2.5-pro' }], nextPageToken: 'page-2' }),
+      Response.json({ models: [{ name: 'models/gemini-2.5-flash' }] })
+    ];
+    const fetchMock = vi.fn(async () => pages.shift()!);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const models = await callGeminiListModels({ logger });
+
+    expect(models.map(model => model.name)).toEqual(['models/gemini-2.5-pro', 'models/gemini-2.5-flash']);
+    expect(String(fetchMock.mock.calls[1][0])).toContain('pageToken=page-2');
+  });
+
+  it('passes the request signal and reports cancellation', async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+      controller.abort();
+      throw init?.signal?.reason;
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(callGeminiListModels({ logger, signal: controller.signal })).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(fetchMock.mock.calls[0][1]?.signal).toBe(controller.signal);
+  });
+});
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContentBlockedError, RateLimitError } from '../src/errors.js';
+import { createOpenAICompatibleProvider } from '../src/openai-compatible-provider.js';
+import { Logger } from '../src/types.js';
+
+const logger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1/', model: 'local-model' });
+
+/**
+ * Body that delivers the chunks as separate reads
+ */
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const pending = [...chunks];
+  return new ReadableStream({
+    pull(controller) {
+      const chunk = pending.shift();
+      if (chunk === undefined) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(chunk));
+      }
+    }
+  });
+}
+
+/**
+ * Server-sent event carrying one chat completion chunk
+ */
+function chunkEvent(chunk: Record<string, unknown>): string {
+  return `data: ${JSON.stringify(chunk)}\n\n`;
+}
+
+/**
+ * Stub fetch with one response, recording the request URL, headers and body
+ */
+function stubServer(response: () => Response) {
+  const requests: Array<{ url: string; headers: Record<string, string>; body: any }> = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+    requests.push({ url: String(url), headers: init?.headers as Record<string, string>, body: JSON.parse(String(init?.body)) });
+    return response();
+  }));
+  return requests;
+}
+
+describe('openai-compatible provider', () => {
+  beforeEach(() => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('replays chat history with model turns renamed to assistant', async () => {
+    const requests = stubServer(() => Response.json({ choices: [{ message: { content: 'Hi' }, finish_reason: 'stop' }] }));
+
+    await provider.generate('And now?', {
+      logger,
+      model: 'gemini-2.5-pro',
+      maxTokens: 256,
+      temperature: 0.3,
+      history: [{ role: 'user', text: 'Hello' }, { role: 'model', text: 'Hello there' }]
+    });
+
+    expect(requests[0].url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(requests[0].headers.Authorization).toBe('Bearer sk-test');
+    expect(requests[0].body).toEqual({
+      model: 'local-model',
+      messages: [
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hello there' },
+        { role: 'user', content: 'And now?' }
+      ],
+      max_tokens: 256,
+      temperature: 0.3
+    });
+  });
+
+  it('requests other model names as given and JSON mode for structured output', async () => {
+    const requests = stubServer(() => Response.json({ choices: [{ message: { content: '{}' }, finish_reason: 'stop' }] }));
+
+    await provider.generate('List findings', { logger, model: 'llama3.1:70b', responseMimeType: 'application/json' });
+
+    expect(requests[0].body).toMatchObject({ model: 'llama3.1:70b', response_format: { type: 'json_object' } });
+  });
+
+  it('converts a completion to the Gemini response shape', async () => {
+    stubServer(() => Response.json({
+      model: 'local-model',
+      choices: [{ message: { content: 'Partial answer' }, finish_reason: 'length' }],
+      usage: { prompt_tokens: 12, completion_tokens: 30 }
+    }));
+
+    const response = await provider.generate('Explain', { logger });
+
+    expect(response).toEqual({
+      candidates: [{ content: { role: 'model', parts: [{ text: 'Partial answer' }] }, finishReason: 'MAX_TOKENS' }],
+      usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 30, totalTokenCount: 42 },
+      model: 'local-model'
+    });
+  });
+
+  it.each([
+    ['stop', 'STOP'],
+    ['tool_calls', 'STOP'],
+    ['eos', 'EOS'],
+    [null, 'STOP']
+  ])('maps finish_reason %s to %s', async (finishReason, expected) => {
+    stubServer(() => Response.json({ choices: [{ message: { content: 'Done' }, finish_reason: finishReason }] }));
+
+    const response = await provider.generate('Explain', { logger });
+
+    expect(response.candidates[0].finishReason).toBe(expected);
+  });
+
+  it('raises ContentBlockedError for content_filter completions', async () => {
+    stubServer(() => Response.json({ choices: [{ message: { content: '' }, finish_reason: 'content_filter' }] }));
+
+    await expect(provider.generate('Explain', { logger })).rejects.toBeInstanceOf(ContentBlockedError);
+  });
+
+  it('raises RateLimitError for 429 responses', async () => {
+    stubServer(() => new Response('slow down', { status: 429, headers: { 'retry-after': '2' } }));
+
+    await expect(provider.generate('Explain', { logger })).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('merges streamed chunks, relaying each delta', async () => {
+    const events = [
+      chunkEvent({ model: 'local-model', choices: [{ delta: { role: 'assistant', content: 'Hel' } }] }),
+      chunkEvent({ choices: [{ delta: { content: 'lo' } }] }),
+      chunkEvent({ choices: [{ delta: {}, finish_reason: 'stop' }] }),
+      chunkEvent({ choices: [], usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 } }),
+      'data: [DONE]\n\n'
+    ].join('');
+    // Split mid-event so a chunk straddles two reads
+    const requests = stubServer(() => new Response(streamOf([events.slice(0, 50), events.slice(50)])));
+    const messages: string[] = [];
+
+    const response = await provider.stream('Say hello', { logger, onProgress: ({ message }) => { messages.push(message); } });
+
+    expect(requests[0].body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    expect(messages).toEqual(['Hel', 'lo']);
+    expect(response).toEqual({
+      candidates: [{ content: { role: 'model', parts: [{ text: 'Hello' }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2, totalTokenCount: 6 },
+      model: 'local-model'
+    });
+  });
+
+  it('counts tokens with the /tokenize endpoint at the server root', async () => {
+    const requests = stubServer(() => Response.json({ tokens: [1, 2, 3] }));
+
+    await expect(provider.countTokens('one two three', { logger })).resolves.toBe(3);
+    expect(requests[0].url).toBe('http://localhost:8080/tokenize');
+    expect(requests[0].body).toEqual({ content: 'one two three' });
+  });
+});
@@ -0,0 +1,188 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getConfigManager } from '../src/config-manager.js';
+import { packageWithCache, PackagingCacheCallbacks } from '../src/packaging-cache.js';
+import { Logger, PackageRepositoryOptions, PackagingStrategy } from '../src/types.js';
+
+const logger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+getConfigManager(logger);
+
+let repoDir: string;
+let outputFile: string;
+
+async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(path.join(dir, prefix), { withFileTypes: true })) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(dir, relative));
+    } else if (!entry.name.startsWith('.packaging-cache-output')) {
+      files.push(relative);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Pack every file of a directory the way Repomix renders XML output
+ */
+async function pack(dir: string, outputPath: string): Promise<number> {
+  const files = await listFiles(dir);
+  const sections = await Promise.all(files.map(async file =>
+    `<file path="${file}">\n${await fs.readFile(path.join(dir, file), 'utf8')}\n</file>\n`));
+  await fs.writeFile(outputPath, `<directory_structure>\n${files.join('\n')}\n</directory_structure>\n<files>\n${sections.join('\n')}</files>\n`);
+  return files.length;
+}
+
+/**
+ * Callbacks packing with the fake packer, recording what was packed
+ */
+function createCallbacks(strategy: PackagingStrategy = 'cli') {
+  const calls = { full: 0, partial: [] as string[][] };
+  const callbacks: PackagingCacheCallbacks = {
+    listFiles: () => listFiles(repoDir),
+    packageAll: async () => {
+      calls.full++;
+      const totalFiles = await pack(repoDir, outputFile);
+      return { totalFiles, totalTokens: 100, usedMcp: strategy === 'mcp', usedCliWrapper: strategy === 'cli', usedFallback: strategy === 'fallback' };
+    },
+    packageDirectory: async (_strategy, dir, dirOutputFile) => {
+      calls.partial.push(await listFiles(dir));
+      const totalFiles = await pack(dir, dirOutputFile);
+      return { totalFiles, totalTokens: 10 };
+    }
+  };
+  return { callbacks, calls };
+}
+
+function run(callbacks: PackagingCacheCallbacks, options: PackageRepositoryOptions = {}) {
+  return packageWithCache(repoDir, outputFile, options, callbacks, logger);
+}
+
+/**
+ * Rewrite a file with a new mtime, as an editor would
+ */
+async function edit(file: string, content: string): Promise<void> {
+  const filePath = path.join(repoDir, file);
+  await fs.writeFile(filePath, content);
+  const later = new Date(Date.now() + 5000);
+  await fs.utimes(filePath, later, later);
+}
+
+describe('packageWithCache', () => {
+  beforeEach(async () => {
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'packaging-cache-repo-'));
+    outputFile = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'packaging-cache-out-')), 'output.xml');
+    await fs.mkdir(path.join(repoDir, 'src'));
+    await fs.writeFile(path.join(repoDir, 'src/a.ts'), 'export const a = 1;');
+    await fs.writeFile(path.join(repoDir, 'src/b.ts'), 'export const b = 2;');
+    await fs.writeFile(path.join(repoDir, 'src/c.ts'), 'export const c = 3;');
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+    await fs.rm(path.dirname(outputFile), { recursive: true, force: true });
+  });
+
+  it('packs the repository once and then serves it from the cache', async () => {
+    const { callbacks, calls } = createCallbacks();
+
+    const first = await run(callbacks);
+    const packed = await fs.readFile(outputFile, 'utf8');
+    await fs.rm(outputFile);
+    const second = await run(callbacks);
+
+    expect(calls.full).toBe(1);
+    expect(first.cachedFiles).toBe(0);
+    expect(second).toMatchObject({ cachedFiles: 3, totalFiles: 3, totalTokens: 100 });
+    expect(await fs.readFile(outputFile, 'utf8')).toBe(packed);
+  });
+
+  it('repacks only changed files and splices in their new sections', async () => {
+    const { callbacks, calls } = createCallbacks();
+    await run(callbacks);
+
+    await edit('src/b.ts', 'export const b = 20;');
+    const result = await run(callbacks);
+
+    expect(calls.full).toBe(1);
+    expect(calls.partial).toEqual([['src/b.ts']]);
+    expect(result.cachedFiles).toBe(2);
+
+    const repacked = await fs.readFile(outputFile, 'utf8');
+    await pack(repoDir, outputFile);
+    expect(repacked).toBe(await fs.readFile(outputFile, 'utf8'));
+  });
+
+  it('does not repack files whose mtime changed but content did not', async () => {
+    const { callbacks, calls } = createCallbacks();
+    await run(callbacks);
+
+    await edit('src/a.ts', 'export const a = 1;');
+    const result = await run(callbacks);
+
+    expect(calls.full).toBe(1);
+    expect(calls.partial).toEqual([]);
+    expect(result.cachedFiles).toBe(3);
+  });
+
+  it('repacks the whole repository when files are added', async () => {
+    const { callbacks, calls } = createCallbacks();
+    await run(callbacks);
+
+    await fs.writeFile(path.join(repoDir, 'src/d.ts'), 'export const d = 4;');
+    const result = await run(callbacks);
+
+    expect(calls.full).toBe(2);
+    expect(result.cachedFiles).toBe(0);
+  });
+
+  it('repacks the whole repository when most packed files changed', async () => {
+    const { callbacks, calls } = createCallbacks();
+    await run(callbacks);
+
+    await edit('src/a.ts', 'export const a = 10;');
+    await edit('src/b.ts', 'export const b = 20;');
+    await run(callbacks);
+
+    expect(calls.full).toBe(2);
+    expect(calls.partial).toEqual([]);
+  });
+
+  describe('cache keys', () => {
+    it('shares one cache across questions and analysis types', async () => {
+      const { callbacks, calls } = createCallbacks('cli');
+
+      await run(callbacks, { query: 'How is auth handled?', analysisType: 'security' });
+      const result = await run(callbacks, { query: 'Where are the slow paths?', analysisType: 'performance' });
+
+      expect(calls.full).toBe(1);
+      expect(result.cachedFiles).toBe(3);
+    });
+
+    it('rebuilds a fallback cache when the question changes', async () => {
+      const { callbacks, calls } = createCallbacks('fallback');
+
+      await run(callbacks, { query: 'How is auth handled?' });
+      await run(callbacks, { query: 'How is auth handled?' });
+      expect(calls.full).toBe(1);
+
+      await run(callbacks, { query: 'Where are the slow paths?' });
+      expect(calls.full).toBe(2);
+    });
+
+    it('keeps separate caches for options that change the packed output', async () => {
+      const { callbacks, calls } = createCallbacks();
+
+      await run(callbacks);
+      await run(callbacks, { exclude: ['**/*.test.ts'] });
+      await run(callbacks, { compress: true });
+      await run(callbacks);
+
+      expect(calls.full).toBe(3);
+    });
+  });
+});
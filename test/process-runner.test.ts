@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { CommandNotFoundError, ProcessError } from '../src/errors.js';
+import { resolveWindowsCommand, runProcess } from '../src/process-runner.js';
+
+const NODE = 'C:\\Program Files\\nodejs\\node.exe';
+
+/**
+ * File check that only knows the given Windows paths
+ */
+function existing(...files: string[]): (file: string) => boolean {
+  const known = new Set(files.map(file => file.toLowerCase()));
+  return file => known.has(file.toLowerCase());
+}
+
+describe('resolveWindowsCommand', () => {
+  const args = ['--yes', 'repomix', '--include', '%PATH%!&|<>^"*.ts"'];
+
+  it('runs npx as node with the npx-cli.js next to node, passing arguments unchanged', () => {
+    const fileExists = existing('C:\\Program Files\\nodejs\\node_modules\\npm\\bin\\npx-cli.js');
+
+    expect(resolveWindowsCommand('npx', args, NODE, '', fileExists)).toEqual({
+      command: NODE,
+      args: ['C:\\Program Files\\nodejs\\node_modules\\npm\\bin\\npx-cli.js', ...args]
+    });
+  });
+
+  it('finds npm-cli.js next to the npm.cmd shim on PATH', () => {
+    const fileExists = existing(
+      'C:\\Users\\dev\\AppData\\Roaming\\nvm\\v20\\npm.cmd',
+      'C:\\Users\\dev\\AppData\\Roaming\\nvm\\v20\\node_modules\\npm\\bin\\npm-cli.js'
+    );
+
+    const resolved = resolveWindowsCommand('npm.cmd', ['ci'], NODE, 'C:\\Windows\\system32;;C:\\Users\\dev\\AppData\\Roaming\\nvm\\v20', fileExists);
+
+    expect(resolved).toEqual({
+      command: NODE,
+      args: ['C:\\Users\\dev\\AppData\\Roaming\\nvm\\v20\\node_modules\\npm\\bin\\npm-cli.js', 'ci']
+    });
+  });
+
+  it('leaves other commands and unresolved npm commands unchanged', () => {
+    const fileExists = existing();
+
+    expect(resolveWindowsCommand('git', ['log', '%HOME%'], NODE, 'C:\\Git\\cmd', fileExists)).toEqual({ command: 'git', args: ['log', '%HOME%'] });
+    expect(resolveWindowsCommand('npx', args, NODE, 'C:\\Git\\cmd', fileExists)).toEqual({ command: 'npx', args });
+  });
+});
+
+describe('runProcess', () => {
+  it('passes arguments to the process without shell expansion', async () => {
+    const args = ['$HOME', '%PATH%', '!x!', 'a && b', '"quoted"'];
+
+    const { stdout } = await runProcess(process.execPath, ['-e', 'console.log(JSON.stringify(process.argv.slice(1)))', ...args]);
+
+    expect(JSON.parse(stdout)).toEqual(args);
+  });
+
+  it('raises ProcessError with the last stderr line for a failing command', async () => {
+    const error = await runProcess(process.execPath, ['-e', 'console.error("first\\nbad input"); process.exit(3)']).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ProcessError);
+    expect(error.exitCode).toBe(3);
+    expect(error.message).toContain(': bad input');
+  });
+
+  it('raises CommandNotFoundError for a missing command', async () => {
+    await expect(runProcess('definitely-not-a-command-1234', [])).rejects.toBeInstanceOf(CommandNotFoundError);
+  });
+});
@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getConfigManager } from '../src/config-manager.js';
+import { RateLimitError, RequestCancelledError } from '../src/errors.js';
+import {
+  acquireModelCapacity,
+  getRateLimitUsage,
+  releaseModelCapacity,
+  settleInputTokens
+} from '../src/rate-limiter.js';
+import { Logger, RateLimitSettings } from '../src/types.js';
+
+const logger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+const configManager = getConfigManager(logger);
+
+async function useQuota(settings: RateLimitSettings): Promise<void> {
+  await configManager.setRateLimitSettings({ maxWaitSeconds: 120, ...settings });
+}
+
+/**
+ * Track whether a promise has settled, for checks while time is frozen
+ */
+function track<T>(promise: Promise<T>): { promise: Promise<T>; settled: () => boolean } {
+  let settled = false;
+  promise.then(() => { settled = true; }, () => { settled = true; });
+  return { promise, settled: () => settled };
+}
+
+function usageOf(provider: string, model: string) {
+  return getRateLimitUsage(logger).find(usage => usage.provider === provider && usage.model === model);
+}
+
+describe('rate limiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('grants requests within quota at once and reports their usage', async () => {
+    await useQuota({ default: { requestsPerMinute: 10, inputTokensPerMinute: 1000, maxConcurrentRequests: 5 } });
+
+    const first = await acquireModelCapacity('gemini', 'within-quota', 100, { logger });
+    const second = await acquireModelCapacity('gemini', 'within-quota', 200, { logger });
+
+    expect(usageOf('gemini', 'within-quota')).toMatchObject({
+      requestsLastMinute: 2,
+      inputTokensLastMinute: 300,
+      activeRequests: 2,
+      queueLength: 0
+    });
+
+    releaseModelCapacity(first);
+    releaseModelCapacity(second);
+    expect(usageOf('gemini', 'within-quota')?.activeRequests).toBe(0);
+  });
+
+  it('queues a request over the per-minute quota until the bucket refills', async () => {
+    await useQuota({ default: { requestsPerMinute: 2, inputTokensPerMinute: 1000000, maxConcurrentRequests: 5 } });
+    releaseModelCapacity(await acquireModelCapacity('gemini', 'requests-quota', 1, { logger }));
+    releaseModelCapacity(await acquireModelCapacity('gemini', 'requests-quota', 1, { logger }));
+
+    const messages: string[] = [];
+    const third = track(acquireModelCapacity('gemini', 'requests-quota', 1, {
+      logger,
+      onProgress: ({ message }) => { messages.push(message); }
+    }));
+
+    await vi.advanceTimersByTimeAsync(29999);
+    expect(third.settled()).toBe(false);
+    expect(messages).toEqual(['\n[Waiting 30s for requests-quota rate limit capacity]\n']);
+
+    await vi.advanceTimersByTimeAsync(1);
+    releaseModelCapacity(await third.promise);
+    expect(usageOf('gemini', 'requests-quota')?.totals).toMatchObject({ requests: 3, queued: 1, rejected: 0 });
+  });
+
+  it('waits for input token capacity', async () => {
+    await useQuota({ default: { requestsPerMinute: 100, inputTokensPerMinute: 1000, maxConcurrentRequests: 5 } });
+    releaseModelCapacity(await acquireModelCapacity('gemini', 'token-quota', 1000, { logger }));
+
+    const next = track(acquireModelCapacity('gemini', 'token-quota', 500, { logger }));
+
+    await vi.advanceTimersByTimeAsync(29999);
+    expect(next.settled()).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    releaseModelCapacity(await next.promise);
+  });
+
+  it('rejects with a RateLimitError when capacity will not free up within the maximum wait', async () => {
+    await useQuota({ default: { requestsPerMinute: 1, inputTokensPerMinute: 1000000, maxConcurrentRequests: 5 }, maxWaitSeconds: 10 });
+    releaseModelCapacity(await acquireModelCapacity('gemini', 'max-wait', 1, { logger }));
+
+    const error = await acquireModelCapacity('gemini', 'max-wait', 1, { logger }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterSeconds).toBe(60);
+    expect(usageOf('gemini', 'max-wait')?.totals.rejected).toBe(1);
+  });
+
+  it('limits the requests in flight and hands a released slot to the next request', async () => {
+    await useQuota({ default: { requestsPerMinute: 100, inputTokensPerMinute: 1000000, maxConcurrentRequests: 1 } });
+    const running = await acquireModelCapacity('gemini', 'concurrency', 1, { logger });
+
+    const next = track(acquireModelCapacity('gemini', 'concurrency', 1, { logger }));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(next.settled()).toBe(false);
+    expect(usageOf('gemini', 'concurrency')).toMatchObject({ activeRequests: 1, queueLength: 1 });
+
+    releaseModelCapacity(running);
+    releaseModelCapacity(running);
+    const lease = await next.promise;
+    expect(usageOf('gemini', 'concurrency')).toMatchObject({ activeRequests: 1, queueLength: 0 });
+
+    releaseModelCapacity(lease);
+  });
+
+  it('serves queued requests in arrival order', async () => {
+    await useQuota({ default: { requestsPerMinute: 100, inputTokensPerMinute: 1000000, maxConcurrentRequests: 1 } });
+    const running = await acquireModelCapacity('gemini', 'fifo', 1, { logger });
+
+    const order: string[] = [];
+    const first = acquireModelCapacity('gemini', 'fifo', 1, { logger }).then(lease => { order.push('first'); return lease; });
+    const second = acquireModelCapacity('gemini', 'fifo', 1, { logger }).then(lease => { order.push('second'); return lease; });
+    await vi.advanceTimersByTimeAsync(0);
+
+    releaseModelCapacity(running);
+    releaseModelCapacity(await first);
+    releaseModelCapacity(await second);
+
+    expect(order).toEqual(['first', 'second']);
+  });
+
+  it('keeps separate limiters per provider and applies provider-qualified quotas', async () => {
+    await useQuota({
+      default: { requestsPerMinute: 100, inputTokensPerMinute: 1000000, maxConcurrentRequests: 1 },
+      models: { 'openai-compatible:shared-model': { requestsPerMinute: 100, inputTokensPerMinute: 1000000, maxConcurrentRequests: 3 } }
+    });
+
+    const gemini = await acquireModelCapacity('gemini', 'shared-model', 1, { logger });
+    const vertex = track(acquireModelCapacity('vertex', 'shared-model', 1, { logger }));
+    const local = await Promise.all([1, 2, 3].map(() => acquireModelCapacity('openai-compatible', 'shared-model', 1, { logger })));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(vertex.settled()).toBe(true);
+    expect(usageOf('gemini', 'shared-model')?.quota.maxConcurrentRequests).toBe(1);
+    expect(usageOf('openai-compatible', 'shared-model')).toMatchObject({ activeRequests: 3, quota: { maxConcurrentRequests: 3 } });
+
+    for (const lease of [gemini, await vertex.promise, ...local]) {
+      releaseModelCapacity(lease);
+    }
+  });
+
+  it('replaces the input token estimate with the reported count', async () => {
+    await useQuota({ default: { requestsPerMinute: 100, inputTokensPerMinute: 1000000, maxConcurrentRequests: 5 } });
+    const lease = await acquireModelCapacity('gemini', 'settle', 1000, { logger });
+
+    settleInputTokens(lease, 400);
+    releaseModelCapacity(lease);
+
+    expect(usageOf('gemini', 'settle')).toMatchObject({ inputTokensLastMinute: 400, totals: { inputTokens: 400 } });
+  });
+
+  it('stops waiting and leaves the queue when the request is cancelled', async () => {
+    await useQuota({ default: { requestsPerMinute: 100, inputTokensPerMinute: 1000000, maxConcurrentRequests: 1 } });
+    const running = await acquireModelCapacity('gemini', 'cancel', 1, { logger });
+    const controller = new AbortController();
+
+    const waiting = acquireModelCapacity('gemini', 'cancel', 1, { logger, signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(usageOf('gemini', 'cancel')?.queueLength).toBe(0);
+    releaseModelCapacity(running);
+  });
+});
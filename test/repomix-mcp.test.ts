@@ -0,0 +1,114 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { packageRepositoryViaMcp } from '../src/repomix-mcp.js';
+import { Logger } from '../src/types.js';
+
+const toolCalls: Array<{ name: string; arguments: Record<string, unknown> }> = [];
+let packedOutput = '';
+
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
+  StdioClientTransport: class {
+    stderr = undefined;
+  },
+  getDefaultEnvironment: () => ({})
+}));
+
+vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
+  Client: class {
+    async connect() {}
+    async close() {}
+    async listTools() {
+      return { tools: [{ name: 'pack_codebase' }, { name: 'read_repomix_output' }] };
+    }
+    getServerVersion() {
+      return { name: 'repomix', version: '1.0.0' };
+    }
+    async callTool(request: { name: string; arguments: Record<string, unknown> }) {
+      toolCalls.push(request);
+      if (request.name === 'pack_codebase') {
+        return { content: [{ type: 'text', text: JSON.stringify({ outputId: 'output-1' }) }] };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify({ content: packedOutput }) }] };
+    }
+  }
+}));
+
+// One token per four characters, without calling the countTokens API
+vi.mock('../src/token-counter.js', () => ({
+  countTokens: async (text: string) => ({ tokens: Math.ceil(text.length / 4), source: 'estimate' })
+}));
+
+const logger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+let repoDir: string;
+let outputFile: string;
+
+/**
+ * Repomix XML output with the given files, each about 100 tokens long
+ */
+function packed(...files: string[]): string {
+  const blocks = files.map(file => `<file path="${file}">\n${'x'.repeat(400)}\n</file>\n`).join('');
+  return `This file is a merged representation of the codebase.\n<files>\n${blocks}</files>\n`;
+}
+
+beforeAll(async () => {
+  repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'repomix-mcp-'));
+  outputFile = path.join(repoDir, 'packed.xml');
+});
+
+afterAll(async () => {
+  await fs.rm(repoDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  toolCalls.length = 0;
+});
+
+describe('packageRepositoryViaMcp', () => {
+  it('packs the repository directory when no component is given', async () => {
+    packedOutput = packed('src/a.ts', 'src/b.ts');
+
+    const result = await packageRepositoryViaMcp(repoDir, outputFile, {}, logger);
+
+    expect(toolCalls[0]).toMatchObject({ name: 'pack_codebase', arguments: { directory: path.resolve(repoDir) } });
+    expect(result).toMatchObject({ totalFiles: 2, usedMcp: true });
+    await expect(fs.readFile(outputFile, 'utf8')).resolves.toBe(packedOutput);
+  });
+
+  it('packs the component directory', async () => {
+    packedOutput = packed('index.ts');
+
+    await packageRepositoryViaMcp(repoDir, outputFile, { componentPath: 'packages/api' }, logger);
+
+    expect(toolCalls[0].arguments.directory).toBe(path.join(path.resolve(repoDir), 'packages', 'api'));
+  });
+
+  it('rejects a component path outside the repository', async () => {
+    await expect(packageRepositoryViaMcp(repoDir, outputFile, { componentPath: '../other' }, logger))
+      .rejects.toThrow('Component path ../other is outside the repository');
+    expect(toolCalls).toEqual([]);
+  });
+
+  it('drops whole files from the end to stay within maxTokens', async () => {
+    packedOutput = packed('src/a.ts', 'src/b.ts', 'src/c.ts', 'src/d.ts');
+
+    const result = await packageRepositoryViaMcp(repoDir, outputFile, { maxTokens: 250 }, logger);
+
+    const content = await fs.readFile(outputFile, 'utf8');
+    expect(content.match(/<file path="([^"]+)">/g)).toEqual(['<file path="src/a.ts">', '<file path="src/b.ts">']);
+    expect(content.startsWith('This file is a merged representation')).toBe(true);
+    expect(content.endsWith('</files>\n')).toBe(true);
+    expect(result.totalFiles).toBe(2);
+    expect(result.totalTokens).toBeLessThanOrEqual(250);
+  });
+
+  it('keeps output that is within maxTokens unchanged', async () => {
+    packedOutput = packed('src/a.ts', 'src/b.ts');
+
+    await packageRepositoryViaMcp(repoDir, outputFile, { maxTokens: 1000 }, logger);
+
+    await expect(fs.readFile(outputFile, 'utf8')).resolves.toBe(packedOutput);
+  });
+});
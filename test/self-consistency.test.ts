@@ -0,0 +1,212 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NetworkError } from '../src/errors.js';
+import { callGeminiParsed, callGeminiRaw } from '../src/gemini-api.js';
+import { LlmProvider, getLlmProvider } from '../src/llm-provider.js';
+import { GeminiResponse } from '../src/response-handler.js';
+import { mergeSampleFindings, runSelfConsistentAnalysis } from '../src/self-consistency.js';
+import { STRUCTURED_OUTPUT_SCHEMAS } from '../src/structured-output.js';
+import { Logger } from '../src/types.js';
+
+vi.mock('../src/gemini-api.js', () => ({
+  callGeminiParsed: vi.fn(),
+  callGeminiRaw: vi.fn()
+}));
+
+vi.mock('../src/llm-provider.js', () => ({
+  getLlmProvider: vi.fn()
+}));
+
+const callGeminiParsedMock = vi.mocked(callGeminiParsed);
+const callGeminiRawMock = vi.mocked(callGeminiRaw);
+const getLlmProviderMock = vi.mocked(getLlmProvider);
+
+const logger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+const securitySchema = STRUCTURED_OUTPUT_SCHEMAS.security;
+
+function finding(title: string, fields: Record<string, unknown> = {}) {
+  return {
+    title,
+    severity: 'medium',
+    file: 'src/search.ts',
+    description: `${title} described`,
+    recommendation: `Fix ${title}`,
+    ...fields
+  };
+}
+
+function sample(...findings: Array<ReturnType<typeof finding>>) {
+  return { summary: `${findings.length} findings`, findings };
+}
+
+/**
+ * Mock the provider lookup with a Gemini-protocol or other provider
+ */
+function useProvider(usesGeminiModels: boolean): void {
+  getLlmProviderMock.mockReturnValue({ usesGeminiModels } as LlmProvider);
+}
+
+function candidatesResponse(samples: unknown[]): GeminiResponse {
+  return {
+    candidates: samples.map((data, index) => ({
+      index,
+      content: { role: 'model', parts: [{ text: JSON.stringify(data) }] },
+      finishReason: 'STOP'
+    })),
+    usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 60, totalTokenCount: 160 }
+  };
+}
+
+async function runAnalysis(samples: number, options: Record<string, unknown> = {}) {
+  const result = await runSelfConsistentAnalysis('Review the code', 'Find vulnerabilities', 'security', {
+    samples,
+    outputFormat: 'json',
+    logger,
+    ...options
+  });
+  return JSON.parse(result.content[0].text);
+}
+
+describe('mergeSampleFindings', () => {
+  it('groups findings whose titles share at least half their words', () => {
+    const { items } = mergeSampleFindings([
+      sample(finding('SQL injection in search query')),
+      sample(finding('Possible SQL injection in search')),
+      sample(finding('Hardcoded database password'))
+    ], securitySchema);
+
+    expect(items.map(item => [item.title, item.agreement, item.confidence])).toEqual([
+      ['SQL injection in search query', 2, 0.67],
+      ['Hardcoded database password', 1, 0.33]
+    ]);
+  });
+
+  it('keeps findings apart when their titles share less than half their words', () => {
+    const { items } = mergeSampleFindings([
+      sample(finding('SQL injection in search query')),
+      sample(finding('Unbounded search query results'))
+    ], securitySchema);
+
+    expect(items.map(item => item.agreement)).toEqual([1, 1]);
+  });
+
+  it('groups findings with the same CWE in the same file regardless of title', () => {
+    const { items } = mergeSampleFindings([
+      sample(finding('SQL injection in search', { cwe: 'CWE-89' })),
+      sample(finding('Unparameterized query', { cwe: 'cwe-89', file: './src/search.ts' }))
+    ], securitySchema);
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ title: 'SQL injection in search', agreement: 2, confidence: 1 });
+  });
+
+  it('never groups findings from different files', () => {
+    const { items } = mergeSampleFindings([
+      sample(finding('SQL injection in search', { cwe: 'CWE-89' })),
+      sample(finding('SQL injection in search', { cwe: 'CWE-89', file: 'src/report.ts' }))
+    ], securitySchema);
+
+    expect(items.map(item => item.file)).toEqual(['src/search.ts', 'src/report.ts']);
+  });
+
+  it('lets each sample vote once per group', () => {
+    const { items } = mergeSampleFindings([
+      sample(finding('SQL injection in search'), finding('SQL injection in search filter')),
+      sample(finding('SQL injection in search'))
+    ], securitySchema);
+
+    expect(items.map(item => [item.title, item.agreement])).toEqual([
+      ['SQL injection in search', 2],
+      ['SQL injection in search filter', 1]
+    ]);
+  });
+
+  it('uses the most reported severity, preferring the more severe one on ties, and orders by agreement then severity', () => {
+    const { summary, items } = mergeSampleFindings([
+      sample(finding('Weak hash', { severity: 'low' }), finding('Path traversal in upload', { severity: 'medium' })),
+      sample(finding('Weak hash', { severity: 'high' }), finding('Missing rate limit', { severity: 'critical' })),
+      sample(finding('Path traversal in upload', { severity: 'high' }), finding('Verbose errors', { severity: 'info' }))
+    ], securitySchema);
+
+    expect(summary).toBe('2 findings');
+    expect(items.map(item => [item.title, item.severity, item.agreement])).toEqual([
+      ['Weak hash', 'high', 2],
+      ['Path traversal in upload', 'high', 2],
+      ['Missing rate limit', 'critical', 1],
+      ['Verbose errors', 'info', 1]
+    ]);
+  });
+});
+
+describe('runSelfConsistentAnalysis', () => {
+  const samples = [
+    sample(finding('SQL injection in search', { severity: 'high' })),
+    sample(finding('SQL injection in search', { severity: 'high' }), finding('Weak hash')),
+    sample(finding('SQL injection in search', { severity: 'high' }))
+  ];
+
+  afterEach(() => {
+    callGeminiParsedMock.mockReset();
+    callGeminiRawMock.mockReset();
+    getLlmProviderMock.mockReset();
+  });
+
+  it('requests candidates from Gemini models', async () => {
+    useProvider(true);
+    callGeminiRawMock.mockResolvedValueOnce(candidatesResponse(samples));
+
+    const output = await runAnalysis(3);
+
+    expect(callGeminiRawMock.mock.calls[0][1]).toMatchObject({ candidateCount: 3, maxContinuations: 0 });
+    expect(callGeminiParsedMock).not.toHaveBeenCalled();
+    expect(output.selfConsistency).toEqual({ samples: 3, validSamples: 3, strategy: 'candidates' });
+    expect(output.result.findings.map((item: { title: string; confidence: number }) => [item.title, item.confidence])).toEqual([
+      ['SQL injection in search', 1],
+      ['Weak hash', 0.33]
+    ]);
+  });
+
+  it('falls back to parallel requests when the model rejects candidateCount', async () => {
+    useProvider(true);
+    callGeminiRawMock.mockRejectedValueOnce(new NetworkError('Gemini API error (400): Multiple candidates is not enabled', undefined, 400));
+    for (const data of samples) {
+      callGeminiParsedMock.mockResolvedValueOnce({ text: JSON.stringify(data), format: 'json' });
+    }
+
+    const output = await runAnalysis(3);
+
+    expect(callGeminiParsedMock).toHaveBeenCalledTimes(3);
+    expect(callGeminiParsedMock.mock.calls[0][1]).not.toHaveProperty('candidateCount');
+    expect(output.selfConsistency).toEqual({ samples: 3, validSamples: 3, strategy: 'parallel' });
+  });
+
+  it('does not fall back for other request errors', async () => {
+    useProvider(true);
+    callGeminiRawMock.mockRejectedValueOnce(new NetworkError('Gemini API error (500): internal', undefined, 500));
+
+    await expect(runAnalysis(3)).rejects.toThrow('internal');
+    expect(callGeminiParsedMock).not.toHaveBeenCalled();
+  });
+
+  it('uses parallel requests for providers without Gemini models', async () => {
+    useProvider(false);
+    for (const data of samples) {
+      callGeminiParsedMock.mockResolvedValueOnce({ text: JSON.stringify(data), format: 'json' });
+    }
+
+    const output = await runAnalysis(3, { samplingStrategy: 'candidates' });
+
+    expect(callGeminiRawMock).not.toHaveBeenCalled();
+    expect(output.selfConsistency.strategy).toBe('parallel');
+  });
+
+  it('drops samples that do not match the schema', async () => {
+    useProvider(true);
+    callGeminiRawMock.mockResolvedValueOnce(candidatesResponse([samples[0], { summary: 'missing findings' }, samples[2]]));
+
+    const output = await runAnalysis(3);
+
+    expect(output.selfConsistency).toEqual({ samples: 3, validSamples: 2, strategy: 'candidates' });
+    expect(output.result.findings[0]).toMatchObject({ agreement: 2, confidence: 1 });
+  });
+});
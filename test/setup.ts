@@ -0,0 +1,12 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+// Each test file gets its own config directory, so no test reads or writes the user's configuration
+const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-bridge-test-'));
+process.env.MCP_CONFIG_PATH = path.join(configDir, 'config.json');
+
+afterAll(() => {
+  fs.rmSync(configDir, { recursive: true, force: true });
+});
@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { ValidationError } from '../src/errors.js';
+import { callGeminiParsed } from '../src/gemini-api.js';
+import { ParsedGeminiResponse } from '../src/response-handler.js';
+import {
+  buildStructuredRequest,
+  callGeminiStructured,
+  getStructuredOutputSchema,
+  STRUCTURED_OUTPUT_SCHEMAS,
+  validateStructuredText
+} from '../src/structured-output.js';
+
+vi.mock('../src/gemini-api.js', () => ({
+  callGeminiParsed: vi.fn()
+}));
+
+const callGeminiParsedMock = vi.mocked(callGeminiParsed);
+
+const securitySchema = STRUCTURED_OUTPUT_SCHEMAS.security;
+
+const validFindings = {
+  summary: 'One injection risk',
+  findings: [{
+    title: 'SQL injection in search',
+    severity: 'high',
+    file: 'src/search.ts',
+    line: 42,
+    description: 'The query string is concatenated into SQL.',
+    recommendation: 'Use a parameterized query.'
+  }]
+};
+
+function parsed(text: string): ParsedGeminiResponse {
+  return { text, format: 'json' };
+}
+
+/**
+ * Map a zod type onto the Gemini schema type it should be declared as
+ */
+function geminiTypeOf(type: z.ZodTypeAny): string {
+  const inner = type instanceof z.ZodOptional ? type.unwrap() : type;
+  if (inner instanceof z.ZodString || inner instanceof z.ZodEnum) {
+    return 'STRING';
+  }
+  if (inner instanceof z.ZodNumber) {
+    return inner.isInt ? 'INTEGER' : 'NUMBER';
+  }
+  if (inner instanceof z.ZodArray) {
+    return 'ARRAY';
+  }
+  return 'OBJECT';
+}
+
+/**
+ * Check that a responseSchema declares the same fields, types, enums and required fields as the zod object
+ */
+function expectMatchingSchemas(zodObject: z.ZodObject<z.ZodRawShape>, responseSchema: any): void {
+  const shape = zodObject.shape;
+
+  expect(responseSchema.type).toBe('OBJECT');
+  expect(Object.keys(responseSchema.properties).sort()).toEqual(Object.keys(shape).sort());
+  expect([...responseSchema.required].sort()).toEqual(Object.keys(shape).filter(key => !shape[key].isOptional()).sort());
+
+  for (const [key, type] of Object.entries(shape)) {
+    const property = responseSchema.properties[key];
+    const inner = type instanceof z.ZodOptional ? type.unwrap() : type;
+
+    expect(property.type, key).toBe(geminiTypeOf(type));
+    if (inner instanceof z.ZodEnum) {
+      expect(property.enum, key).toEqual(inner.options);
+    }
+    if (inner instanceof z.ZodArray && inner.element instanceof z.ZodObject) {
+      expectMatchingSchemas(inner.element, property.items);
+    } else if (inner instanceof z.ZodArray) {
+      expect(property.items.type, key).toBe(geminiTypeOf(inner.element));
+    }
+  }
+}
+
+describe('structured output schemas', () => {
+  it.each(Object.keys(STRUCTURED_OUTPUT_SCHEMAS))('declares a %s responseSchema matching its zod schema', name => {
+    const schema = STRUCTURED_OUTPUT_SCHEMAS[name];
+
+    expectMatchingSchemas(schema.zodSchema as z.ZodObject<z.ZodRawShape>, schema.responseSchema);
+    expect(schema.responseSchema.properties).toHaveProperty(schema.itemsField);
+  });
+
+  it('uses the general findings schema for analysis types without their own', () => {
+    expect(getStructuredOutputSchema('security').name).toBe('security-findings');
+    expect(getStructuredOutputSchema('documentation').name).toBe('findings');
+    expect(getStructuredOutputSchema().name).toBe('findings');
+  });
+
+  it('puts requests in JSON mode with the responseSchema', () => {
+    const request = buildStructuredRequest('Review the code', securitySchema, { temperature: 0.2 });
+
+    expect(request.prompt).toBe('Review the code\n\nRespond only with JSON that matches the "security-findings" response schema.');
+    expect(request.options).toEqual({
+      temperature: 0.2,
+      responseMimeType: 'application/json',
+      responseSchema: securitySchema.responseSchema
+    });
+  });
+});
+
+describe('validateStructuredText', () => {
+  it('accepts conforming JSON, also inside a fenced code block', () => {
+    const fenced = `\`\`\`json\n${JSON.stringify(validFindings)}\n\`\`\``;
+
+    expect(validateStructuredText(fenced, securitySchema)).toEqual({ success: true, data: validFindings });
+  });
+
+  it('reports problems keyed by field path', () => {
+    const invalid = { summary: 'x', findings: [{ ...validFindings.findings[0], severity: 'urgent', line: 4.5 }] };
+
+    const result = validateStructuredText(JSON.stringify(invalid), securitySchema);
+
+    expect(result.success).toBe(false);
+    expect(Object.keys((result as { errors: Record<string, string> }).errors).sort()).toEqual(['findings.0.line', 'findings.0.severity']);
+  });
+
+  it('reports text that is not JSON at the root', () => {
+    const result = validateStructuredText('Here are the findings: none', securitySchema);
+
+    expect(result).toMatchObject({ success: false, errors: { '(root)': expect.stringContaining('Response is not valid JSON') } });
+  });
+});
+
+describe('callGeminiStructured', () => {
+  afterEach(() => {
+    callGeminiParsedMock.mockReset();
+  });
+
+  it('returns valid output after one call', async () => {
+    callGeminiParsedMock.mockResolvedValueOnce(parsed(JSON.stringify(validFindings)));
+
+    const result = await callGeminiStructured('Review the code', securitySchema);
+
+    expect(result).toMatchObject({ data: validFindings, schemaName: 'security-findings', attempts: 1 });
+    expect(callGeminiParsedMock).toHaveBeenCalledTimes(1);
+    expect(callGeminiParsedMock.mock.calls[0][1]).toMatchObject({ responseMimeType: 'application/json', responseSchema: securitySchema.responseSchema });
+  });
+
+  it('retries once with the validation errors and the previous response', async () => {
+    const invalid = JSON.stringify({ summary: 'One injection risk' });
+    callGeminiParsedMock
+      .mockResolvedValueOnce(parsed(invalid))
+      .mockResolvedValueOnce(parsed(JSON.stringify(validFindings)));
+
+    const result = await callGeminiStructured('Review the code', securitySchema);
+
+    expect(result).toMatchObject({ data: validFindings, attempts: 2 });
+    const [retryPrompt, retryOptions] = callGeminiParsedMock.mock.calls[1];
+    expect(retryPrompt).toContain('Your previous response did not conform to the schema:\n- findings: Required');
+    expect(retryPrompt).toContain(`Previous response:\n${invalid}`);
+    expect(retryOptions).toMatchObject({ responseSchema: securitySchema.responseSchema });
+  });
+
+  it('raises a ValidationError when the retry does not conform either', async () => {
+    callGeminiParsedMock.mockResolvedValue(parsed('{"summary": 3, "findings": []}'));
+
+    const error = await callGeminiStructured('Review the code', securitySchema).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('Gemini output did not match the security-findings schema after a retry');
+    expect(error.fieldErrors).toEqual({ summary: 'Expected string, received number' });
+    expect(callGeminiParsedMock).toHaveBeenCalledTimes(2);
+  });
+});
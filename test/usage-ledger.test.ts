@@ -0,0 +1,165 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getConfigManager } from '../src/config-manager.js';
+import { BudgetExceededError } from '../src/errors.js';
+import {
+  enforceSpendBudget,
+  getBudgetStatus,
+  getModelPrice,
+  querySpend,
+  recordUsage,
+  withUsageContext
+} from '../src/usage-ledger.js';
+import { Logger } from '../src/types.js';
+
+const logger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+const configManager = getConfigManager(logger);
+const ledgerPath = path.join(configManager.getConfigDirectory(), 'usage-ledger.jsonl');
+
+function at(timestamp: string): void {
+  vi.setSystemTime(new Date(timestamp));
+}
+
+describe('usage ledger', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    at('2025-06-15T12:00:00Z');
+    await configManager.setSpendSettings({ dailyBudgetUsd: 0, monthlyBudgetUsd: 0, onBudgetExceeded: 'warn', prices: {} });
+    await fs.rm(ledgerPath, { force: true });
+    // Read the empty ledger so entries cached by the previous test are dropped
+    await querySpend({}, logger);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getModelPrice', () => {
+    it('prices versioned and preview IDs like their base model', () => {
+      expect(getModelPrice('gemini', 'gemini-2.5-pro-preview-05-06', logger)).toEqual(getModelPrice('gemini', 'gemini-2.5-pro', logger));
+      expect(getModelPrice('vertex', 'gemini-2.0-flash-001', logger)?.inputPerMillion).toBe(0.10);
+      expect(getModelPrice('gemini', 'gemini-2.5-promo', logger)).toBeUndefined();
+    });
+
+    it('uses list prices only for Google providers', async () => {
+      expect(getModelPrice('openai-compatible', 'gemini-2.5-pro', logger)).toBeUndefined();
+
+      await configManager.setSpendSettings({ prices: { 'llama3': { inputPerMillion: 0.5, outputPerMillion: 1 } } });
+      expect(getModelPrice('openai-compatible', 'llama3', logger)).toEqual({ inputPerMillion: 0.5, outputPerMillion: 1 });
+    });
+  });
+
+  it('records cost from input, cached input and output tokens', async () => {
+    await recordUsage('gemini', 'gemini-2.5-pro', {
+      promptTokenCount: 1000000,
+      cachedContentTokenCount: 200000,
+      candidatesTokenCount: 50000,
+      thoughtsTokenCount: 50000
+    }, logger);
+
+    const { totals } = await querySpend({}, logger);
+    // 800k input at $1.25, 200k cached at $0.31 and 100k output at $10 per million
+    expect(totals).toEqual({
+      requests: 1,
+      inputTokens: 1000000,
+      cachedInputTokens: 200000,
+      outputTokens: 100000,
+      costUsd: 2.062,
+      unpricedRequests: 0
+    });
+  });
+
+  it('records requests to models without a price at $0 as unpriced', async () => {
+    await recordUsage('openai-compatible', 'llama3', { promptTokenCount: 1000, candidatesTokenCount: 100 }, logger);
+
+    const { totals } = await querySpend({}, logger);
+    expect(totals).toMatchObject({ requests: 1, costUsd: 0, unpricedRequests: 1 });
+  });
+
+  it('tags entries with the tool and repository of the surrounding usage context', async () => {
+    await withUsageContext({ tool: 'analyze-repository', repository: 'octo/app' }, () =>
+      recordUsage('gemini', 'gemini-2.5-flash', { promptTokenCount: 100 }, logger));
+    await recordUsage('gemini', 'gemini-2.5-flash', { promptTokenCount: 100 }, logger);
+
+    const content = await fs.readFile(ledgerPath, 'utf8');
+    const entries = content.trim().split('\n').map(line => JSON.parse(line));
+    expect(entries[0]).toMatchObject({ tool: 'analyze-repository', repository: 'octo/app', profile: 'default' });
+    expect(entries[1]).not.toHaveProperty('tool');
+  });
+
+  it('groups and filters spend', async () => {
+    at('2025-06-14T08:00:00Z');
+    await withUsageContext({ repository: 'octo/app' }, () =>
+      recordUsage('gemini', 'gemini-2.5-pro', { promptTokenCount: 1000000 }, logger));
+    at('2025-06-15T08:00:00Z');
+    await recordUsage('gemini', 'gemini-2.5-flash', { promptTokenCount: 1000000 }, logger);
+    await recordUsage('gemini', 'gemini-2.5-pro', { promptTokenCount: 1000000 }, logger);
+
+    const byDay = await querySpend({ groupBy: 'day' }, logger);
+    expect(byDay.rows.map(row => [row.key, row.requests, row.costUsd])).toEqual([
+      ['2025-06-14', 1, 1.25],
+      ['2025-06-15', 2, 1.55]
+    ]);
+
+    const byModel = await querySpend({ groupBy: 'model' }, logger);
+    expect(byModel.rows.map(row => row.key)).toEqual(['gemini-2.5-pro', 'gemini-2.5-flash']);
+
+    const byRepository = await querySpend({ groupBy: 'repository', since: '2025-06-14', until: '2025-06-14' }, logger);
+    expect(byRepository.rows.map(row => row.key)).toEqual(['octo/app']);
+
+    const flashOnly = await querySpend({ model: 'gemini-2.5-flash' }, logger);
+    expect(flashOnly.totals).toMatchObject({ requests: 1, costUsd: 0.3 });
+  });
+
+  it('skips unreadable ledger lines', async () => {
+    await recordUsage('gemini', 'gemini-2.5-flash', { promptTokenCount: 1000000 }, logger);
+    await fs.appendFile(ledgerPath, '{"timestamp":"2025-06-15T\n', 'utf8');
+    await recordUsage('gemini', 'gemini-2.5-flash', { promptTokenCount: 1000000 }, logger);
+
+    const { totals } = await querySpend({}, logger);
+    expect(totals.requests).toBe(2);
+  });
+
+  describe('budgets', () => {
+    it('compares spend today and this month with the budgets', async () => {
+      await configManager.setSpendSettings({ dailyBudgetUsd: 1, monthlyBudgetUsd: 10 });
+      at('2025-06-01T08:00:00Z');
+      await recordUsage('gemini', 'gemini-2.5-pro', { promptTokenCount: 1000000 }, logger);
+      at('2025-06-15T08:00:00Z');
+      await recordUsage('gemini', 'gemini-2.5-flash', { promptTokenCount: 1000000 }, logger);
+
+      expect(await getBudgetStatus(logger)).toEqual([
+        { profile: 'default', period: 'daily', budgetUsd: 1, spentUsd: 0.3, exceeded: false },
+        { profile: 'default', period: 'monthly', budgetUsd: 10, spentUsd: 1.55, exceeded: false }
+      ]);
+    });
+
+    it('blocks priced requests once a budget is used up', async () => {
+      await configManager.setSpendSettings({ dailyBudgetUsd: 1, onBudgetExceeded: 'block' });
+      await recordUsage('gemini', 'gemini-2.5-pro', { promptTokenCount: 1000000 }, logger);
+
+      await expect(enforceSpendBudget('gemini', 'gemini-2.5-pro', logger)).rejects.toBeInstanceOf(BudgetExceededError);
+    });
+
+    it('lets unpriced requests through an exhausted budget', async () => {
+      await configManager.setSpendSettings({ dailyBudgetUsd: 1, onBudgetExceeded: 'block' });
+      await recordUsage('gemini', 'gemini-2.5-pro', { promptTokenCount: 1000000 }, logger);
+
+      await expect(enforceSpendBudget('openai-compatible', 'llama3', logger)).resolves.toBeUndefined();
+    });
+
+    it('only warns when the profile does not block', async () => {
+      await configManager.setSpendSettings({ dailyBudgetUsd: 1 });
+      await recordUsage('gemini', 'gemini-2.5-pro', { promptTokenCount: 1000000 }, logger);
+      const onProgress = vi.fn();
+
+      await enforceSpendBudget('gemini', 'gemini-2.5-pro', logger, onProgress);
+
+      expect(onProgress).toHaveBeenCalledWith({
+        message: '\n[Warning: The daily spend of profile default ($1.25) has reached its $1.00 budget]\n'
+      });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimitError, RequestCancelledError } from '../src/errors.js';
+import { readServerSentEvents, retryWithBackoff } from '../src/utils.js';
+
+/**
+ * Stream the chunks as one body, as fetch would deliver them
+ */
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    }
+  });
+}
+
+async function collectEvents(chunks: string[]): Promise<{ payloads: string[]; count: number }> {
+  const payloads: string[] = [];
+  const count = await readServerSentEvents(streamOf(chunks), payload => {
+    payloads.push(payload);
+  });
+  return { payloads, count };
+}
+
+describe('readServerSentEvents', () => {
+  it('delivers each data payload in order', async () => {
+    const { payloads, count } = await collectEvents(['data: {"a":1}\n\ndata: {"a":2}\n\n']);
+
+    expect(payloads).toEqual(['{"a":1}', '{"a":2}']);
+    expect(count).toBe(2);
+  });
+
+  it('joins lines split across chunks', async () => {
+    const { payloads } = await collectEvents(['data: {"te', 'xt":"hel', 'lo"}\n', '\ndata: {"text":"!"}\n']);
+
+    expect(payloads).toEqual(['{"text":"hello"}', '{"text":"!"}']);
+  });
+
+  it('decodes multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('data: "héllo"\n');
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 9));
+        controller.enqueue(bytes.slice(9));
+        controller.close();
+      }
+    });
+
+    const payloads: string[] = [];
+    await readServerSentEvents(body, payload => {
+      payloads.push(payload);
+    });
+
+    expect(payloads).toEqual(['"héllo"']);
+  });
+
+  it('handles CRLF line endings and a final line without a newline', async () => {
+    const { payloads } = await collectEvents(['data: one\r\n\r\ndata: two']);
+
+    expect(payloads).toEqual(['one', 'two']);
+  });
+
+  it('skips comments, other fields, empty data and the [DONE] marker', async () => {
+    const { payloads, count } = await collectEvents([
+      ': keep-alive\n',
+      'event: message\nid: 7\n',
+      'data:\n',
+      'data: {"ok":true}\n\n',
+      'data: [DONE]\n\n'
+    ]);
+
+    expect(payloads).toEqual(['{"ok":true}']);
+    expect(count).toBe(1);
+  });
+
+  it('waits for each handler before reading on', async () => {
+    const order: string[] = [];
+    await readServerSentEvents(streamOf(['data: 1\n', 'data: 2\n']), async payload => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      order.push(payload);
+    });
+
+    expect(order).toEqual(['1', '2']);
+  });
+});
+
+describe('retryWithBackoff', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries failures until the operation succeeds', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('first'))
+      .mockRejectedValueOnce(new Error('second'))
+      .mockResolvedValue('done');
+
+    const result = retryWithBackoff(operation, 3, 100);
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('doubles the delay after each attempt, with at most 20% jitter', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const operation = vi.fn().mockRejectedValue(new Error('down'));
+
+    const result = retryWithBackoff(operation, 3, 100);
+    result.catch(() => {});
+
+    await vi.advanceTimersByTimeAsync(109);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(219);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(3);
+
+    await expect(result).rejects.toThrow('down');
+  });
+
+  it('stops at the first error shouldRetry rejects', async () => {
+    const error = new Error('bad request');
+    const operation = vi.fn().mockRejectedValue(error);
+
+    await expect(retryWithBackoff(operation, 3, 100, () => false)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits at least the Retry-After delay of a RateLimitError', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new RateLimitError('throttled', 5, 429))
+      .mockResolvedValue('done');
+
+    const result = retryWithBackoff(operation, 3, 100);
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up when the server asks to wait more than a minute', async () => {
+    const error = new RateLimitError('throttled', 120, 429);
+    const operation = vi.fn().mockRejectedValue(error);
+
+    await expect(retryWithBackoff(operation, 3, 100)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('ends the backoff delay when the signal aborts', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(new Error('down'));
+
+    const result = retryWithBackoff(operation, 3, 10000, () => true, undefined, controller.signal);
+    result.catch(() => {});
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigurationError } from '../src/errors.js';
+import { clearAccessTokenCache } from '../src/gemini-auth.js';
+import { Logger } from '../src/types.js';
+import { createVertexProvider } from '../src/vertex-provider.js';
+
+const TOKEN_ENDPOINT = 'https://oauth.test/token';
+
+const MODEL_URL = 'https://europe-west4-aiplatform.googleapis.com/v1/projects/my-project/locations/europe-west4/publishers/google/models/gemini-2.5-flash';
+
+const logger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+let credentialsDir: string;
+let credentialsFile: string;
+
+/**
+ * Body that delivers the chunks as separate reads
+ */
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const pending = [...chunks];
+  return new ReadableStream({
+    pull(controller) {
+      const chunk = pending.shift();
+      if (chunk === undefined) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(chunk));
+      }
+    }
+  });
+}
+
+/**
+ * Stub fetch with a token endpoint and one Vertex response, recording the Vertex requests
+ */
+function stubVertex(response: () => Response) {
+  const requests: Array<{ url: string; headers: Record<string, string>; body: any }> = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+    if (String(url) === TOKEN_ENDPOINT) {
+      return Response.json({ access_token: 'vertex-token', expires_in: 3600 });
+    }
+    requests.push({ url: String(url), headers: init?.headers as Record<string, string>, body: JSON.parse(String(init?.body)) });
+    return response();
+  }));
+  return requests;
+}
+
+beforeAll(async () => {
+  const { privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' }
+  });
+  credentialsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vertex-provider-'));
+  credentialsFile = path.join(credentialsDir, 'service-account.json');
+  await fs.writeFile(credentialsFile, JSON.stringify({
+    type: 'service_account',
+    private_key: privateKey,
+    client_email: 'bridge@my-project.iam.gserviceaccount.com',
+    token_uri: TOKEN_ENDPOINT
+  }));
+});
+
+afterAll(async () => {
+  await fs.rm(credentialsDir, { recursive: true, force: true });
+});
+
+describe('vertex provider', () => {
+  beforeEach(() => {
+    clearAccessTokenCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const provider = () => createVertexProvider({ project: 'my-project', location: 'europe-west4', credentialsFile });
+
+  it('sends chat history to the project model with the service account token', async () => {
+    const requests = stubVertex(() => Response.json({ candidates: [{ content: { role: 'model', parts: [{ text: 'Hi' }] }, finishReason: 'STOP' }] }));
+
+    await provider().generate('And now?', {
+      logger,
+      model: 'gemini-2.5-flash',
+      history: [{ role: 'user', text: 'Hello' }, { role: 'model', text: 'Hello there' }]
+    });
+
+    expect(requests[0].url).toBe(`${MODEL_URL}:generateContent`);
+    expect(requests[0].headers.Authorization).toBe('Bearer vertex-token');
+    expect(requests[0].body.contents).toEqual([
+      { role: 'user', parts: [{ text: 'Hello' }] },
+      { role: 'model', parts: [{ text: 'Hello there' }] },
+      { role: 'user', parts: [{ text: 'And now?' }] }
+    ]);
+  });
+
+  it('returns the finish reason and usage metadata unchanged', async () => {
+    const usageMetadata = { promptTokenCount: 8, candidatesTokenCount: 20, totalTokenCount: 28 };
+    stubVertex(() => Response.json({
+      candidates: [{ content: { role: 'model', parts: [{ text: 'Partial' }] }, finishReason: 'MAX_TOKENS' }],
+      usageMetadata
+    }));
+
+    const response = await provider().generate('Explain', { logger, model: 'gemini-2.5-flash' });
+
+    expect(response.candidates[0].finishReason).toBe('MAX_TOKENS');
+    expect(response.usageMetadata).toEqual(usageMetadata);
+  });
+
+  it('merges streamed chunks, keeping thought summaries out of the relayed text', async () => {
+    const events = [
+      { candidates: [{ content: { role: 'model', parts: [{ text: 'Considering', thought: true }] } }] },
+      { candidates: [{ content: { role: 'model', parts: [{ text: 'Hel' }] } }] },
+      { candidates: [{ content: { role: 'model', parts: [{ text: 'lo' }] }, finishReason: 'STOP' }], usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 2, totalTokenCount: 5 } }
+    ].map(event => `data: ${JSON.stringify(event)}\r\n\r\n`).join('');
+    // Split mid-event so a chunk straddles two reads
+    const requests = stubVertex(() => new Response(streamOf([events.slice(0, 70), events.slice(70)])));
+    const messages: string[] = [];
+
+    const response = await provider().stream('Say hello', { logger, model: 'gemini-2.5-flash', onProgress: ({ message }) => { messages.push(message); } });
+
+    expect(requests[0].url).toBe(`${MODEL_URL}:streamGenerateContent?alt=sse`);
+    expect(messages).toEqual(['Hel', 'lo']);
+    expect(response.candidates).toEqual([{
+      content: { role: 'model', parts: [{ text: 'Considering', thought: true }, { text: 'Hello' }] },
+      finishReason: 'STOP'
+    }]);
+    expect(response.usageMetadata).toEqual({ promptTokenCount: 3, candidatesTokenCount: 2, totalTokenCount: 5 });
+  });
+
+  it('counts tokens with the project countTokens endpoint', async () => {
+    const requests = stubVertex(() => Response.json({ totalTokens: 42 }));
+
+    await expect(provider().countTokens('some text', { logger, model: 'gemini-2.5-flash' })).resolves.toBe(42);
+    expect(requests[0].url).toBe(`${MODEL_URL}:countTokens`);
+  });
+
+  it('uses the global endpoint host for the global location', async () => {
+    const requests = stubVertex(() => Response.json({ totalTokens: 1 }));
+
+    await createVertexProvider({ project: 'my-project', location: 'global', credentialsFile }).countTokens('x', { logger, model: 'gemini-2.5-flash' });
+
+    expect(requests[0].url).toBe('https://aiplatform.googleapis.com/v1/projects/my-project/locations/global/publishers/google/models/gemini-2.5-flash:countTokens');
+  });
+
+  it('requires a project', async () => {
+    stubVertex(() => Response.json({}));
+    const unconfigured = createVertexProvider({ credentialsFile });
+
+    expect(unconfigured.isConfigured()).toBe(false);
+    await expect(unconfigured.generate('Explain', { logger, model: 'gemini-2.5-flash' })).rejects.toBeInstanceOf(ConfigurationError);
+  });
+});